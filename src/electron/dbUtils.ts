@@ -2,6 +2,7 @@ import path from 'path';
 import Database from 'better-sqlite3';
 import { IpcMain } from 'electron';
 import { initializePresetTable } from './presetDatabase.js';
+import type { EncodingHistoryEntry, EncodingHistoryFilters } from '../types.js';
 
 // Type for app.getPath('userData')
 type GetPathFn = (name: 'userData') => string;
@@ -266,6 +267,10 @@ export async function updateMediaAfterEncoding(db: Database.Database, probeData:
     let resolutionWidth: number | null = null;
     let resolutionHeight: number | null = null;
     let audioChannels: number | null = null;
+    // Tone-mapped encodes come out SDR, so the flag follows the new file
+    const isHdr = probeData.hdr ? 1 : 0;
+    const dolbyVisionProfile = probeData.hdr?.dolbyVision?.profile ?? null;
+    const hdr10Plus = probeData.hdr?.hdr10Plus ? 1 : 0;
 
     if (probeData.streams && Array.isArray(probeData.streams)) {
         const videoStream = probeData.streams.find((s: any) => s.codec_type === 'video');
@@ -288,13 +293,16 @@ export async function updateMediaAfterEncoding(db: Database.Database, probeData:
             resolutionWidth = ?, 
             resolutionHeight = ?, 
             audioChannels = ?, 
+            isHdr = ?, 
+            dolbyVisionProfile = ?, 
+            hdr10Plus = ?, 
             encodingJobId = ?, 
             lastSizeCheckAt = CURRENT_TIMESTAMP 
         WHERE filePath = ?
     `;
     try {
         const updateStmt = db.prepare(updateSql);
-        const info = updateStmt.run(fileSize, videoCodec, audioCodec, resolutionWidth, resolutionHeight, audioChannels, jobId, targetDbFilePath);
+        const info = updateStmt.run(fileSize, videoCodec, audioCodec, resolutionWidth, resolutionHeight, audioChannels, isHdr, dolbyVisionProfile, hdr10Plus, jobId, targetDbFilePath);
 
         if (info.changes > 0) {
             console.log(`[DB Update] Successfully updated media record for ${targetDbFilePath} (Job ID: ${jobId}). Changes: ${info.changes}`);
@@ -369,6 +377,110 @@ export function pruneOldPerformanceRecords(db: Database.Database, daysToKeep: nu
 }
 // --- END: Performance History Functions ---
 
+// --- START: Encoding History Functions ---
+// One row per finished queue job, kept after the queue's own history is cleared
+function initializeEncodingHistoryTable(db: Database.Database): void {
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS encoding_history (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            jobId TEXT UNIQUE NOT NULL,
+            mediaId INTEGER,
+            inputPath TEXT NOT NULL,
+            outputPath TEXT,
+            status TEXT CHECK( status IN ('completed', 'failed', 'cancelled') ),
+            presetId TEXT,
+            presetName TEXT,
+            presetSnapshot JSON,
+            sourceVideoCodec TEXT,
+            sourceAudioCodec TEXT,
+            sourceWidth INTEGER,
+            sourceHeight INTEGER,
+            targetVideoCodec TEXT,
+            targetAudioCodec TEXT,
+            originalSize INTEGER,
+            finalSize INTEGER,
+            reductionPercent REAL,
+            mediaDurationSeconds REAL,
+            encodeDurationSeconds REAL,
+            averageFps REAL,
+            hwAccel TEXT,
+            videoEncoder TEXT,
+            qualityMetric TEXT,
+            qualityScore REAL,
+            error TEXT,
+            startedAt DATETIME,
+            finishedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+    `);
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_encoding_history_finished ON encoding_history (finishedAt);`);
+    console.log("[DB Init] Encoding history table initialized.");
+}
+
+export function insertEncodingHistory(db: Database.Database, entry: Omit<EncodingHistoryEntry, 'id'>): void {
+    try {
+        // A job re-run after crash recovery keeps its ID, so its latest outcome replaces the old row
+        db.prepare(`
+            INSERT OR REPLACE INTO encoding_history (
+                jobId, mediaId, inputPath, outputPath, status, presetId, presetName, presetSnapshot,
+                sourceVideoCodec, sourceAudioCodec, sourceWidth, sourceHeight, targetVideoCodec, targetAudioCodec,
+                originalSize, finalSize, reductionPercent, mediaDurationSeconds, encodeDurationSeconds, averageFps,
+                hwAccel, videoEncoder, qualityMetric, qualityScore, error, startedAt, finishedAt
+            ) VALUES (
+                @jobId, @mediaId, @inputPath, @outputPath, @status, @presetId, @presetName, @presetSnapshot,
+                @sourceVideoCodec, @sourceAudioCodec, @sourceWidth, @sourceHeight, @targetVideoCodec, @targetAudioCodec,
+                @originalSize, @finalSize, @reductionPercent, @mediaDurationSeconds, @encodeDurationSeconds, @averageFps,
+                @hwAccel, @videoEncoder, @qualityMetric, @qualityScore, @error, @startedAt, @finishedAt
+            )
+        `).run({ ...entry, presetSnapshot: entry.presetSnapshot ? JSON.stringify(entry.presetSnapshot) : null });
+    } catch (error) {
+        console.error(`[DB] Error inserting encoding history for job ${entry.jobId}:`, error);
+    }
+}
+
+export function getEncodingHistory(db: Database.Database, filters: EncodingHistoryFilters = {}): EncodingHistoryEntry[] {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (filters.status) { conditions.push('status = ?'); params.push(filters.status); }
+    if (filters.presetId) { conditions.push('presetId = ?'); params.push(filters.presetId); }
+    if (filters.search) { conditions.push('(inputPath LIKE ? OR outputPath LIKE ?)'); params.push(`%${filters.search}%`, `%${filters.search}%`); }
+    if (filters.startDate) { conditions.push('finishedAt >= ?'); params.push(filters.startDate); }
+    if (filters.endDate) { conditions.push('finishedAt <= ?'); params.push(filters.endDate); }
+
+    try {
+        const rows = db.prepare(`
+            SELECT * FROM encoding_history
+            ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+            ORDER BY finishedAt DESC
+            ${filters.limit ? 'LIMIT ?' : ''}
+        `).all(...params, ...(filters.limit ? [filters.limit] : [])) as (Omit<EncodingHistoryEntry, 'presetSnapshot'> & { presetSnapshot: string | null })[];
+        return rows.map(row => ({ ...row, presetSnapshot: row.presetSnapshot ? JSON.parse(row.presetSnapshot) : null }));
+    } catch (error) {
+        console.error("[DB] Error retrieving encoding history:", error);
+        return [];
+    }
+}
+
+const ENCODING_HISTORY_CSV_COLUMNS: (keyof EncodingHistoryEntry)[] = [
+    'jobId', 'mediaId', 'status', 'inputPath', 'outputPath', 'presetId', 'presetName',
+    'sourceVideoCodec', 'sourceAudioCodec', 'sourceWidth', 'sourceHeight', 'targetVideoCodec', 'targetAudioCodec',
+    'originalSize', 'finalSize', 'reductionPercent', 'mediaDurationSeconds', 'encodeDurationSeconds', 'averageFps',
+    'hwAccel', 'videoEncoder', 'qualityMetric', 'qualityScore', 'error', 'startedAt', 'finishedAt',
+];
+
+export function encodingHistoryToCsv(entries: EncodingHistoryEntry[]): string {
+    const escape = (value: unknown): string => {
+        if (value === null || value === undefined) return '';
+        const text = String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    const lines = [ENCODING_HISTORY_CSV_COLUMNS.join(',')];
+    for (const entry of entries) {
+        lines.push(ENCODING_HISTORY_CSV_COLUMNS.map(column => escape(entry[column])).join(','));
+    }
+    return lines.join('\r\n');
+}
+// --- END: Encoding History Functions ---
+
 export async function initializeDatabase(appGetPath: GetPathFn): Promise<Database.Database> {
     let dbPath: string | undefined;
     try {
@@ -395,10 +507,23 @@ export async function initializeDatabase(appGetPath: GetPathFn): Promise<Databas
                 audioChannels INTEGER,
                 encodingJobId TEXT,
                 encodingNodeId TEXT,
+                qualityMetric TEXT,
+                qualityScore REAL,
+                isHdr INTEGER NOT NULL DEFAULT 0,
+                dolbyVisionProfile INTEGER,
+                hdr10Plus INTEGER NOT NULL DEFAULT 0,
                 UNIQUE(filePath)
             );
         `);
 
+        // Add columns introduced after the media table was first created
+        const mediaColumns = (newDb.prepare('PRAGMA table_info(media)').all() as { name: string }[]).map(col => col.name);
+        if (!mediaColumns.includes('qualityMetric')) newDb.exec('ALTER TABLE media ADD COLUMN qualityMetric TEXT');
+        if (!mediaColumns.includes('qualityScore')) newDb.exec('ALTER TABLE media ADD COLUMN qualityScore REAL');
+        if (!mediaColumns.includes('isHdr')) newDb.exec('ALTER TABLE media ADD COLUMN isHdr INTEGER NOT NULL DEFAULT 0');
+        if (!mediaColumns.includes('dolbyVisionProfile')) newDb.exec('ALTER TABLE media ADD COLUMN dolbyVisionProfile INTEGER');
+        if (!mediaColumns.includes('hdr10Plus')) newDb.exec('ALTER TABLE media ADD COLUMN hdr10Plus INTEGER NOT NULL DEFAULT 0');
+
         // Create workflow related tables (these will be checked/migrated by checkAndMigrateWorkflowTables)
         console.log("[DB Setup] Ensuring workflow-related tables (migration will handle specifics)...");
         // Initial minimal creation, migration handles the rest
@@ -484,17 +609,21 @@ export async function initializeDatabase(appGetPath: GetPathFn): Promise<Databas
                 memory_mb INTEGER,
                 is_enabled BOOLEAN DEFAULT 1,
                 priority INTEGER DEFAULT 0,
+                max_concurrent_jobs INTEGER NOT NULL DEFAULT 2,
                 added_at DATETIME DEFAULT CURRENT_TIMESTAMP,
                 last_updated DATETIME DEFAULT CURRENT_TIMESTAMP,
                 UNIQUE(device_type, model, vendor, device_id)
             );
         `);
+        const hardwareColumns = (newDb.prepare('PRAGMA table_info(hardware_info)').all() as { name: string }[]).map(col => col.name);
+        if (!hardwareColumns.includes('max_concurrent_jobs')) newDb.exec('ALTER TABLE hardware_info ADD COLUMN max_concurrent_jobs INTEGER NOT NULL DEFAULT 2');
 
         await initializePresetTable(newDb); // From presetDatabase.js
         await checkAndMigrateWorkflowTables(newDb); // Call the local/moved function to ensure schema is correct
 
         // Initialize performance_history table (NEW ADDITION)
         initializePerformanceHistoryTable(newDb);
+        initializeEncodingHistoryTable(newDb);
 
         // Initialize Full-Text Search table for media
         await initializeMediaFtsTable(newDb);
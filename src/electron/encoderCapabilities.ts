@@ -0,0 +1,205 @@
+import Database from 'better-sqlite3';
+import ffmpegStatic from 'ffmpeg-static';
+import { execFile } from 'child_process';
+import type { EncoderCapabilities, EncoderStatus } from '../types.js';
+import { listVaapiDevices } from './ffmpegUtils.js';
+import { getGpuVendor, GpuVendor } from './hardwareDevices.js';
+
+type HardwareFamily = 'qsv' | 'nvenc' | 'amf' | 'vaapi';
+
+// Every encoder a preset can select (mirrors VIDEO_CODECS in src/utils/presetUtil.ts, minus 'copy')
+const SOFTWARE_ENCODERS = ['libx265', 'libx264', 'libsvtav1', 'libaom-av1'];
+const HARDWARE_ENCODERS: Record<string, HardwareFamily> = {
+    'hevc_qsv': 'qsv', 'h264_qsv': 'qsv', 'av1_qsv': 'qsv',
+    'hevc_nvenc': 'nvenc', 'h264_nvenc': 'nvenc', 'av1_nvenc': 'nvenc',
+    'hevc_amf': 'amf', 'h264_amf': 'amf', 'av1_amf': 'amf',
+    'hevc_vaapi': 'vaapi', 'h264_vaapi': 'vaapi', 'av1_vaapi': 'vaapi',
+};
+const FAMILY_VENDORS: Record<HardwareFamily, GpuVendor[]> = {
+    qsv: ['intel'],
+    nvenc: ['nvidia'],
+    amf: ['amd'],
+    vaapi: ['intel', 'amd'],
+};
+
+const LIST_TIMEOUT_MS = 10000;
+const TEST_ENCODE_TIMEOUT_MS = 20000;
+
+let capabilities: EncoderCapabilities | null = null;
+let probeInProgress: Promise<EncoderCapabilities> | null = null;
+
+interface FfmpegRun {
+    ok: boolean;
+    stdout: string;
+    stderr: string;
+}
+
+function runFfmpeg(args: string[], timeout: number): Promise<FfmpegRun> {
+    return new Promise((resolve) => {
+        execFile(ffmpegStatic as unknown as string, args, { timeout, windowsHide: true }, (error, stdout, stderr) => {
+            resolve({ ok: !error, stdout: String(stdout), stderr: String(stderr) });
+        });
+    });
+}
+
+/**
+ * Parses `ffmpeg -encoders`, whose entries look like " V....D libx264   libx264 H.264 ...".
+ */
+function parseEncoderList(output: string): Set<string> {
+    const names = new Set<string>();
+    for (const line of output.split(/\r?\n/)) {
+        const match = line.match(/^\s*[VAS][A-Z.]{5}\s+(\S+)/);
+        if (match && match[1] !== '=') names.add(match[1]);
+    }
+    return names;
+}
+
+/**
+ * Parses `ffmpeg -hwaccels`: a header line followed by one method per line.
+ */
+function parseHwaccelList(output: string): string[] {
+    return output.split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line && !line.endsWith(':'));
+}
+
+/**
+ * GPU vendors recorded in hardware_info, split by whether they are enabled.
+ * Returns null when no GPUs have been recorded, in which case every hardware encoder is tried.
+ */
+function getRecordedGpuVendors(db: Database.Database): { enabled: Set<GpuVendor>; disabled: Set<GpuVendor> } | null {
+    try {
+        const rows = db.prepare(`SELECT vendor, model, is_enabled FROM hardware_info WHERE device_type = 'GPU'`)
+            .all() as { vendor: string | null; model: string | null; is_enabled: number }[];
+        if (rows.length === 0) return null;
+
+        const enabled = new Set<GpuVendor>();
+        const disabled = new Set<GpuVendor>();
+        for (const row of rows) {
+            const vendor = getGpuVendor(row.vendor, row.model);
+            if (vendor) (row.is_enabled ? enabled : disabled).add(vendor);
+        }
+        return { enabled, disabled };
+    } catch (error) {
+        console.error('[Encoder Probe] Could not read hardware_info:', error);
+        return null;
+    }
+}
+
+/**
+ * Encodes a single black frame with the encoder. Hardware encoders are only listed
+ * by ffmpeg when compiled in, so this is what tells us the GPU and driver can use them.
+ */
+async function testEncode(encoder: string, family: HardwareFamily, vaapiDevice?: string): Promise<FfmpegRun> {
+    const args = ['-hide_banner', '-v', 'error'];
+    if (family === 'vaapi') args.push('-init_hw_device', `vaapi=probe:${vaapiDevice}`, '-filter_hw_device', 'probe');
+    // 256x256 clears the minimum frame size of every hardware encoder
+    args.push('-f', 'lavfi', '-i', 'color=c=black:s=256x256:d=0.1', '-frames:v', '1');
+    args.push('-vf', family === 'vaapi' ? 'format=nv12,hwupload' : 'format=nv12');
+    args.push('-c:v', encoder, '-f', 'null', '-');
+    return runFfmpeg(args, TEST_ENCODE_TIMEOUT_MS);
+}
+
+function getFailureReason(run: FfmpegRun): string {
+    const lines = run.stderr.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+    return lines.length > 0 ? `Test encode failed: ${lines[lines.length - 1]}` : 'Test encode failed';
+}
+
+async function probeHardwareEncoder(encoder: string, family: HardwareFamily, vaapiDevices: string[]): Promise<EncoderStatus> {
+    if (family !== 'vaapi') {
+        const run = await testEncode(encoder, family);
+        return run.ok ? { available: true } : { available: false, reason: getFailureReason(run) };
+    }
+
+    if (vaapiDevices.length === 0) return { available: false, reason: 'No VAAPI render node found' };
+    let lastFailure: FfmpegRun | null = null;
+    for (const device of vaapiDevices) {
+        const run = await testEncode(encoder, family, device);
+        if (run.ok) return { available: true, device };
+        lastFailure = run;
+    }
+    return { available: false, reason: getFailureReason(lastFailure!) };
+}
+
+async function runProbe(db: Database.Database): Promise<EncoderCapabilities> {
+    console.log('[Encoder Probe] Checking which encoders the installed ffmpeg can use...');
+    const [encoderList, hwaccelList] = await Promise.all([
+        runFfmpeg(['-hide_banner', '-encoders'], LIST_TIMEOUT_MS),
+        runFfmpeg(['-hide_banner', '-hwaccels'], LIST_TIMEOUT_MS),
+    ]);
+    const result: EncoderCapabilities = {
+        probedAt: new Date().toISOString(),
+        hwaccels: hwaccelList.ok ? parseHwaccelList(hwaccelList.stdout) : [],
+        encoders: {},
+    };
+
+    if (!encoderList.ok) {
+        const reason = `Could not run ffmpeg: ${encoderList.stderr.trim() || 'unknown error'}`;
+        for (const encoder of [...SOFTWARE_ENCODERS, ...Object.keys(HARDWARE_ENCODERS)]) {
+            result.encoders[encoder] = { available: false, reason };
+        }
+        return result;
+    }
+
+    const compiledIn = parseEncoderList(encoderList.stdout);
+    for (const encoder of SOFTWARE_ENCODERS) {
+        result.encoders[encoder] = compiledIn.has(encoder)
+            ? { available: true }
+            : { available: false, reason: 'Not included in this ffmpeg build' };
+    }
+
+    const gpus = getRecordedGpuVendors(db);
+    const vaapiDevices = await listVaapiDevices();
+    // One at a time: several test encodes at once can exhaust a GPU's encode sessions
+    for (const [encoder, family] of Object.entries(HARDWARE_ENCODERS)) {
+        const vendors = FAMILY_VENDORS[family];
+        if (!compiledIn.has(encoder)) {
+            result.encoders[encoder] = { available: false, reason: 'Not included in this ffmpeg build' };
+        } else if (gpus && !vendors.some(vendor => gpus.enabled.has(vendor))) {
+            const disabled = vendors.some(vendor => gpus.disabled.has(vendor));
+            result.encoders[encoder] = { available: false, reason: disabled ? 'GPU is disabled in hardware settings' : 'No matching GPU found' };
+        } else {
+            result.encoders[encoder] = await probeHardwareEncoder(encoder, family, vaapiDevices);
+        }
+    }
+
+    const available = Object.entries(result.encoders).filter(([, status]) => status.available).map(([name]) => name);
+    console.log(`[Encoder Probe] Available encoders: ${available.join(', ') || 'none'}`);
+    return result;
+}
+
+/**
+ * Probes the encoders once and caches the result. Pass force to probe again,
+ * e.g. after drivers change or a GPU is enabled.
+ */
+export function probeEncoderCapabilities(db: Database.Database, force: boolean = false): Promise<EncoderCapabilities> {
+    if (probeInProgress) return probeInProgress;
+    if (capabilities && !force) return Promise.resolve(capabilities);
+
+    probeInProgress = runProbe(db)
+        .then(result => {
+            capabilities = result;
+            return result;
+        })
+        .finally(() => {
+            probeInProgress = null;
+        });
+    return probeInProgress;
+}
+
+/**
+ * The cached probe result, or null while the first probe hasn't finished.
+ */
+export function getCachedEncoderCapabilities(): EncoderCapabilities | null {
+    return capabilities;
+}
+
+/**
+ * Why the encoder can't be used, or null when it can (or hasn't been probed yet).
+ */
+export function getEncoderUnavailableReason(encoder: string | undefined): string | null {
+    if (!encoder || encoder === 'copy' || !capabilities) return null;
+    const status = capabilities.encoders[encoder];
+    if (!status || status.available) return null;
+    return status.reason || 'Encoder is not available';
+}
@@ -0,0 +1,96 @@
+import type { EncodingPreset } from '../types.js';
+import { getEncoderUnavailableReason } from './encoderCapabilities.js';
+
+type FallbackFamily = 'software' | 'qsv' | 'nvenc' | 'amf' | 'vaapi';
+type VideoCodec = NonNullable<EncodingPreset['videoCodec']>;
+type HwAccel = NonNullable<EncodingPreset['hwAccel']>;
+
+// The software AV1 encoders use a 0-63 CRF scale; everything else uses 0-51
+const AV1_SOFTWARE_CRF_MAX = 63;
+const DEFAULT_CRF_MAX = 51;
+
+// Rough offsets from x264/x265 CRF to each hardware encoder's constant-quality value
+// at a similar visual quality. The hardware encoders need a few steps lower to match.
+const QUALITY_OFFSETS: Record<FallbackFamily, number> = {
+    software: 0,
+    qsv: -1,
+    nvenc: -2,
+    amf: -2,
+    vaapi: -2,
+};
+
+// hwAccel each family decodes with, matching what the preset editor saves for its platform
+const FAMILY_HW_ACCEL: Record<FallbackFamily, HwAccel> = {
+    software: 'none',
+    qsv: 'auto',
+    nvenc: 'nvenc',
+    amf: 'auto',
+    vaapi: 'vaapi',
+};
+
+function getFallbackFamily(videoCodec: string | undefined): FallbackFamily | null {
+    if (videoCodec === 'libx264' || videoCodec === 'libx265' || videoCodec === 'libsvtav1' || videoCodec === 'libaom-av1') return 'software';
+    if (videoCodec?.endsWith('_qsv')) return 'qsv';
+    if (videoCodec?.endsWith('_nvenc')) return 'nvenc';
+    if (videoCodec?.endsWith('_amf')) return 'amf';
+    if (videoCodec?.endsWith('_vaapi')) return 'vaapi';
+    return null;
+}
+
+export function isHardwareEncoder(videoCodec: string | undefined): boolean {
+    const family = getFallbackFamily(videoCodec);
+    return family !== null && family !== 'software';
+}
+
+function getCrfMax(videoCodec: string): number {
+    return videoCodec === 'libsvtav1' || videoCodec === 'libaom-av1' ? AV1_SOFTWARE_CRF_MAX : DEFAULT_CRF_MAX;
+}
+
+/**
+ * Converts a constant-quality value from one encoder's scale to another's, going
+ * through the x264/x265 CRF scale.
+ */
+export function mapQualityValue(value: number, fromCodec: string, toCodec: string): number {
+    const fromFamily = getFallbackFamily(fromCodec) ?? 'software';
+    const toFamily = getFallbackFamily(toCodec) ?? 'software';
+    const crf = (value / getCrfMax(fromCodec)) * DEFAULT_CRF_MAX - QUALITY_OFFSETS[fromFamily];
+    const mapped = Math.round(((crf + QUALITY_OFFSETS[toFamily]) / DEFAULT_CRF_MAX) * getCrfMax(toCodec));
+    return Math.min(getCrfMax(toCodec), Math.max(0, mapped));
+}
+
+/**
+ * The next encoder in the preset's fallback chain after the one that failed,
+ * skipping any the startup probe found unusable. Null when the chain is used up.
+ */
+export function getNextFallbackEncoder(preset: EncodingPreset, failedEncoder: VideoCodec, triedEncoders: VideoCodec[]): VideoCodec | null {
+    if (!preset.videoCodec) return null;
+    const chain = [preset.videoCodec, ...(preset.fallbackEncoders ?? [])];
+    const start = chain.indexOf(failedEncoder);
+    for (const encoder of chain.slice(start + 1)) {
+        if (triedEncoders.includes(encoder) || !getFallbackFamily(encoder)) continue;
+        const unavailableReason = getEncoderUnavailableReason(encoder);
+        if (unavailableReason) {
+            console.log(`[Fallback] Skipping ${encoder}: ${unavailableReason}`);
+            continue;
+        }
+        return encoder;
+    }
+    return null;
+}
+
+/**
+ * A copy of the preset that encodes with another encoder, with its quality value
+ * mapped onto that encoder's scale and the decoder switched to match.
+ */
+export function createFallbackPreset(preset: EncodingPreset, encoder: VideoCodec): EncodingPreset {
+    if (!preset.videoCodec || encoder === preset.videoCodec) return preset;
+    const family = getFallbackFamily(encoder) ?? 'software';
+    return {
+        ...preset,
+        videoCodec: encoder,
+        hwAccel: FAMILY_HW_ACCEL[family],
+        videoQuality: preset.videoQuality !== undefined ? mapQualityValue(preset.videoQuality, preset.videoCodec, encoder) : undefined,
+        // A device picked for the original encoder doesn't apply to the fallback
+        vaapiDevice: family === 'vaapi' && getFallbackFamily(preset.videoCodec) === 'vaapi' ? preset.vaapiDevice : undefined,
+    };
+}
@@ -1,5 +1,5 @@
-import { ProbeData, StreamInfo, EncodingPreset, EncodingOptions } from '../types.js';
-import { orderSubtitlesByPreset } from './presetUtil.js';
+import type { ProbeData, StreamInfo, EncodingPreset, EncodingOptions, HdrInfo } from '../types.js';
+import { getSubtitleType, orderSubtitlesByPreset } from './trackSelection.js';
 
 // Define types needed for the encoding utility
 export type TrackAction = 'keep' | 'convert' | 'discard';
@@ -8,8 +8,8 @@ export type TrackAction = 'keep' | 'convert' | 'discard';
  * Build encoding options from a preset and stream selections
  * 
  * This utility function encapsulates the logic for converting a preset and
- * stream selections into ffmpeg encoding options, making it reusable across
- * different parts of the application.
+ * stream selections into ffmpeg encoding options. It runs in the main process
+ * so the encoding queue can build options for jobs it starts on its own.
  */
 export function buildEncodingOptions(
   inputPath: string,
@@ -53,12 +53,25 @@ export function buildEncodingOptions(
     
     // Only set codec if video is mapped
     if (options.mapVideo) {
-      options.videoCodec = preset?.videoCodec;
-      options.videoPreset = preset?.videoCodec !== 'copy' ? preset?.videoPreset : undefined;
-      options.videoQuality = preset?.videoCodec !== 'copy' ? preset?.videoQuality : undefined;
+      const dynamicHdr = !!(probeData.hdr?.dolbyVision || probeData.hdr?.hdr10Plus);
+      // Copying keeps Dolby Vision/HDR10+ intact while audio and subtitles are still converted
+      const copyVideo = preset?.videoCodec === 'copy' || (dynamicHdr && preset?.dynamicHdrPolicy === 'copy_video');
+      options.videoCodec = copyVideo ? 'copy' : preset?.videoCodec;
+      options.videoPreset = !copyVideo ? preset?.videoPreset : undefined;
+      options.videoQuality = !copyVideo ? preset?.videoQuality : undefined;
+
+      // The software AV1 encoders take a numeric speed preset instead of x264-style names
+      const av1DefaultPreset = options.videoCodec ? SOFTWARE_AV1_DEFAULT_PRESETS[options.videoCodec] : undefined;
+      if (av1DefaultPreset !== undefined) {
+        options.videoPreset = String(preset?.av1Preset ?? av1DefaultPreset);
+        options.filmGrain = preset?.filmGrain || undefined;
+      }
+      if (options.videoCodec?.endsWith('_vaapi')) {
+        options.vaapiDevice = preset?.vaapiDevice || undefined;
+      }
       
       // Add resolution filter if not original
-      if (preset?.videoResolution !== 'original' && preset?.videoCodec !== 'copy') {
+      if (preset?.videoResolution !== 'original' && !copyVideo) {
         // Define explicit resolutions (width x height)
         const exactResolutions: Record<string, string> = {
           '480p': '854x480',    // 16:9 aspect for 480p
@@ -83,6 +96,16 @@ export function buildEncodingOptions(
           options.videoFilter = resolutionMap[resolution];
         }
       }
+
+      // --- Handle HDR ---
+      if (probeData.hdr && options.videoCodec && !copyVideo) {
+        if (dynamicHdr) {
+          // 'skip' is enforced by the queue, so anything encoded here keeps only the base layer
+          options.videoFilter = options.videoFilter ? `${STRIP_DYNAMIC_HDR_FILTER},${options.videoFilter}` : STRIP_DYNAMIC_HDR_FILTER;
+          options.stripDynamicHdr = true;
+        }
+        applyHdrPolicy(options, probeData.hdr, preset?.hdrPolicy || 'preserve');
+      }
     }
   }
 
@@ -237,40 +260,105 @@ export function buildEncodingOptions(
     options.subtitleCodec = needsConversion ? preset?.subtitleCodecConvert : 'copy';
   }
 
+  // --- Handle Rate Control ---
+  if (options.mapVideo && preset && options.videoCodec && options.videoCodec !== 'copy') {
+    const mode = preset.rateControlMode || 'quality';
+    options.rateControlMode = mode;
+    if (mode === 'average_bitrate' || mode === 'capped_vbr') {
+      options.videoBitrateKbps = preset.videoBitrateKbps;
+    }
+    if (mode === 'capped_vbr') {
+      options.videoMaxBitrateKbps = preset.videoMaxBitrateKbps;
+      // Two seconds of the peak rate is a common default VBV buffer
+      options.videoBufferSizeKbps = preset.videoBufferSizeKbps || (preset.videoMaxBitrateKbps ? preset.videoMaxBitrateKbps * 2 : undefined);
+    }
+    if (mode === 'target_size') {
+      options.videoBitrateKbps = getTargetSizeBitrate(probeData, preset, options);
+      if (!options.videoBitrateKbps) {
+        console.warn('BuildEncodingOptions: Could not derive a bitrate for the target size, falling back to constant quality');
+        options.rateControlMode = 'quality';
+      }
+    }
+  }
+
   return options;
 }
 
+// Speed preset used when a software AV1 preset doesn't set one (SVT-AV1 0-13, libaom cpu-used 0-8)
+const SOFTWARE_AV1_DEFAULT_PRESETS: Record<string, number> = {
+  'libsvtav1': 8,
+  'libaom-av1': 6,
+};
+
+// Drops Dolby Vision RPUs and HDR10+ metadata from decoded frames so the encoder can't pass them on
+const STRIP_DYNAMIC_HDR_FILTER = 'sidedata=mode=delete:type=DOVI_RPU_BUFFER,sidedata=mode=delete:type=DOVI_METADATA,sidedata=mode=delete:type=DYNAMIC_HDR_PLUS';
+
+// Linearizes PQ/HLG, compresses highlights with Hable, then converts to BT.709 SDR
+const TONEMAP_FILTER = 'zscale=t=linear:npl=100,format=gbrpf32le,zscale=p=bt709,tonemap=tonemap=hable:desat=0,zscale=t=bt709:m=bt709:r=tv,format=yuv420p';
+
 /**
- * Get subtitle type based on stream info
+ * Keeps an HDR source HDR (10-bit output tagged with the source's color properties
+ * and static metadata) or tone-maps it to SDR. The 'skip' policy is enforced by the
+ * queue before options are built, so it is treated as 'preserve' here.
  */
-export function getSubtitleType(stream: StreamInfo): string {
-  // Default to 'normal'
-  let type = 'normal';
-  
-  // Check for 'forced' in disposition
-  if (stream.disposition?.forced) {
-    return 'forced';
-  }
-  
-  // Check for SDH/CC indicators in title
-  const title = stream.tags?.title?.toLowerCase() || '';
-  
-  if (title.includes('sdh') || title.includes('hearing')) {
-    return 'sdh';
-  }
-  
-  if (title.includes('cc') || title.includes('caption')) {
-    return 'cc';
+function applyHdrPolicy(options: EncodingOptions, hdr: HdrInfo, policy: NonNullable<EncodingPreset['hdrPolicy']>): void {
+  const videoCodec = options.videoCodec!;
+  // The H.264 encoders here are 8-bit only
+  const canPreserve = videoCodec !== 'libx264' && !videoCodec.startsWith('h264_');
+
+  if (policy !== 'tonemap' && canPreserve) {
+    if (videoCodec.startsWith('lib')) {
+      options.pixelFormat = 'yuv420p10le';
+    } else if (videoCodec.endsWith('_nvenc') || videoCodec.endsWith('_vaapi') || videoCodec.endsWith('_amf')) {
+      options.pixelFormat = 'p010le';
+    }
+    // QSV decodes 10-bit sources to P010 surfaces already, and -pix_fmt can't be applied to them
+    options.colorPrimaries = hdr.colorPrimaries || 'bt2020';
+    options.colorTransfer = hdr.colorTransfer;
+    options.colorSpace = hdr.colorSpace || 'bt2020nc';
+    options.hdrMasterDisplay = hdr.masterDisplay;
+    options.hdrMaxCll = hdr.maxCll;
+    console.log(`BuildEncodingOptions: Preserving ${hdr.format.toUpperCase()} with ${videoCodec}`);
+    return;
   }
-  
-  // Check for signs/songs
-  if (title.includes('sign') || title.includes('text')) {
-    return 'signs';
+
+  if (policy !== 'tonemap') {
+    console.warn(`BuildEncodingOptions: ${videoCodec} can't carry HDR, tone-mapping to SDR instead`);
   }
-  
-  if (title.includes('song') || title.includes('lyric') || title.includes('karaoke')) {
-    return 'song';
+  options.videoFilter = options.videoFilter ? `${options.videoFilter},${TONEMAP_FILTER}` : TONEMAP_FILTER;
+  options.toneMapHdr = true;
+  options.colorPrimaries = 'bt709';
+  options.colorTransfer = 'bt709';
+  options.colorSpace = 'bt709';
+}
+
+// Muxing overhead left out of the target size budget
+const CONTAINER_OVERHEAD = 0.01;
+const MIN_TARGET_VIDEO_KBPS = 100;
+
+/**
+ * Video bitrate (kbps) that makes the output land on the preset's target size,
+ * after subtracting the mapped audio tracks from the budget.
+ */
+function getTargetSizeBitrate(probeData: ProbeData, preset: EncodingPreset, options: EncodingOptions): number | undefined {
+  const duration = parseFloat(probeData.format?.duration ?? '');
+  if (!preset.targetSizeMB || !duration || !isFinite(duration)) return undefined;
+
+  const audioMaps = options.mapAudio ? options.mapAudio.split(';').filter(map => map.trim()) : [];
+  let audioKbps = 0;
+  if (options.audioCodec === 'copy') {
+    const audioStreams = probeData.streams.filter(s => s.codec_type === 'audio');
+    for (const map of audioMaps) {
+      const stream = audioStreams[parseInt(map.split(':').pop() || '', 10)];
+      audioKbps += stream?.bit_rate ? parseInt(stream.bit_rate, 10) / 1000 : 0;
+    }
+  } else if (options.audioBitrate) {
+    audioKbps = audioMaps.length * (parseInt(options.audioBitrate, 10) || 0);
   }
-  
-  return type;
-} 
\ No newline at end of file
+
+  // MB here are MiB like the rest of the UI; ffmpeg's k is 1000
+  const totalKbps = (preset.targetSizeMB * 1024 * 1024 * 8 * (1 - CONTAINER_OVERHEAD)) / 1000 / duration;
+  const videoKbps = Math.floor(totalKbps - audioKbps);
+  console.log(`BuildEncodingOptions: Target ${preset.targetSizeMB} MB over ${duration}s -> ${videoKbps} kbps video (${Math.round(audioKbps)} kbps audio)`);
+  return Math.max(MIN_TARGET_VIDEO_KBPS, videoKbps);
+}
@@ -4,18 +4,24 @@ import ffprobeStatic from 'ffprobe-static'; // Import ffprobe static
 import fs from 'fs/promises';
 import path from 'path'; // Import path module
 import fsSync, { WriteStream } from 'fs'; // For existsSync and WriteStream
+import os from 'os';
+import { execFile, type ChildProcess } from 'child_process';
+import { suspendProcess, resumeProcess } from './processControl.js';
 // Remove direct type import - rely on global types
 // import type { EncodingProgress, EncodingOptions, EncodingResult } from '../../types.js';
 
 // --- Define Types Locally --- 
 // (Copied from src/types.d.ts as imports/globals aren't working reliably)
-interface EncodingProgress {
+export interface EncodingProgress {
     percent?: number;
     fps?: number;
     frame?: number;
     totalFrames?: number;
     status?: string;
     jobId?: string; // Add jobId to the interface
+    speed?: number; // Encoding speed as a multiple of realtime (e.g. 2.5 = 2.5x)
+    bitrate?: number; // Current output bitrate in kbps
+    eta?: number; // Estimated seconds remaining
 }
 
 interface EncodingOptions {
@@ -26,6 +32,21 @@ interface EncodingOptions {
     videoCodec?: string; 
     videoPreset?: string; 
     videoQuality?: number | string; 
+    rateControlMode?: 'quality' | 'average_bitrate' | 'capped_vbr' | 'target_size';
+    videoBitrateKbps?: number; // Average/target video bitrate
+    videoMaxBitrateKbps?: number; // Peak bitrate for capped VBR
+    videoBufferSizeKbps?: number; // VBV buffer for capped VBR
+    colorPrimaries?: string;
+    colorTransfer?: string;
+    colorSpace?: string;
+    hdrMasterDisplay?: string; // x265 master-display notation
+    hdrMaxCll?: string; // "MaxCLL,MaxFALL"
+    toneMapHdr?: boolean; // videoFilter tone-maps to SDR and needs frames in system memory
+    stripDynamicHdr?: boolean; // Drop Dolby Vision RPUs/config and HDR10+ metadata
+    filmGrain?: number; // Film grain synthesis strength for libsvtav1/libaom-av1
+    vaapiDevice?: string; // DRM render node for the VAAPI encoders
+    gpuIndex?: number; // GPU the queue assigned, counted among GPUs of the same vendor
+    gpuVendor?: 'intel' | 'nvidia' | 'amd';
     lookAhead?: number; 
     pixelFormat?: string; 
     mapVideo?: string; 
@@ -42,6 +63,7 @@ interface EncodingOptions {
     mapSubtitle?: string[]; // Changed to optional string array
     // General options
     hwAccel?: 'auto' | 'qsv' | 'nvenc' | 'cuda' | 'vaapi' | 'videotoolbox' | 'none';
+    seekSeconds?: number; // Start encoding this far into the input (used for preview samples)
     duration?: number; 
     // --- Added for logging ---
     jobId?: string; // Add jobId
@@ -59,6 +81,9 @@ interface EncodingResult {
     reductionPercent?: number;
     jobId?: string;
     logFileId?: string; // Add logFileId field to match the actual result
+    cancelled?: boolean; // Set when the job was stopped via cancelEncodingProcess
+    qualityMetric?: 'vmaf' | 'ssim'; // Set by the queue's verification stage
+    qualityScore?: number;
 }
 // --- End Local Type Definitions --- 
 
@@ -88,9 +113,186 @@ try {
 // Keep EncodingResult definition if needed elsewhere, but it's defined globally
 // export interface EncodingResult { ... }
 
-// Add a property to store estimated total frames for progress calculation
-let estimatedTotalFrames: number | undefined = undefined;
-let videoDuration: number | undefined = undefined;
+// Source details and timing for a single job, used to turn ffmpeg's progress
+// events into percent/speed/ETA. Each startEncodingProcess call owns its own
+// instance so parallel jobs don't overwrite each other's estimates.
+interface ProgressState {
+    duration?: number; // Source duration in seconds
+    totalFrames?: number; // Frame count from probe, or duration * fps
+    sourceFps?: number;
+    startTime?: number; // When ffmpeg was spawned
+}
+
+// Track running ffmpeg commands by job ID so they can be cancelled. A job is registered
+// before its preparation starts, so command is null until the first ffmpeg run is built.
+interface ActiveEncoding {
+    command: ffmpeg.FfmpegCommand | null;
+    tempOutputPath: string;
+    writeLog: (message: string) => void;
+    cancelRequested: boolean;
+    paused: boolean;
+    lowPriority: boolean;
+}
+
+const activeEncodings: Map<string, ActiveEncoding> = new Map();
+
+/**
+ * Cancels a running encoding job: kills the ffmpeg process and lets the
+ * error handler in startEncodingProcess clean up the temporary output.
+ * @param jobId The job ID passed to startEncodingProcess
+ * @returns Whether a running process was found and signalled
+ */
+export function cancelEncodingProcess(jobId: string): { success: boolean; error?: string } {
+    const active = activeEncodings.get(jobId);
+    if (!active) {
+        console.warn(`[Encoding Process] Cancel requested for job ${jobId}, but no running process was found.`);
+        return { success: false, error: `No running encoding process found for job ${jobId}` };
+    }
+
+    console.log(`[Encoding Process] Cancelling job ${jobId}`);
+    active.writeLog('[Info] Cancellation requested by user. Stopping ffmpeg process...');
+    active.cancelRequested = true;
+
+    try {
+        // A suspended process still dies on SIGKILL, but resume it first so the
+        // platform's process bookkeeping doesn't leave it lingering.
+        if (active.paused) {
+            const pid = getFfmpegPid(active.command);
+            if (pid) resumeProcess(pid);
+            active.paused = false;
+        }
+        // Before ffmpeg has spawned kill() does nothing; the start and end handlers see cancelRequested instead
+        active.command?.kill('SIGKILL');
+        return { success: true };
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.error(`[Encoding Process] Failed to kill ffmpeg for job ${jobId}:`, error);
+        active.writeLog(`[Error] Failed to stop ffmpeg process: ${errorMsg}`);
+        return { success: false, error: errorMsg };
+    }
+}
+
+/**
+ * fluent-ffmpeg keeps the spawned child on a private field; it is only set once ffmpeg has started.
+ */
+function getFfmpegPid(command: ffmpeg.FfmpegCommand | null): number | undefined {
+    return (command as unknown as { ffmpegProc?: ChildProcess } | null)?.ffmpegProc?.pid;
+}
+
+/**
+ * Points a registered job at the ffmpeg command it is about to run. The entry's cancel
+ * request carries over; the new process starts unpaused at normal priority.
+ */
+function attachEncodingCommand(jobId: string, command: ffmpeg.FfmpegCommand): void {
+    const active = activeEncodings.get(jobId);
+    if (active) {
+        active.command = command;
+        active.paused = false;
+        active.lowPriority = false;
+    }
+}
+
+/**
+ * Suspends the ffmpeg process of a running encoding job. The temp output
+ * is left in place so the job can continue exactly where it stopped.
+ * @param jobId The job ID passed to startEncodingProcess
+ * @param reason Why the encode is paused, for the job log
+ */
+export function pauseEncodingProcess(jobId: string, reason: string = 'by user'): { success: boolean; error?: string } {
+    const active = activeEncodings.get(jobId);
+    if (!active) {
+        console.warn(`[Encoding Process] Pause requested for job ${jobId}, but no running process was found.`);
+        return { success: false, error: `No running encoding process found for job ${jobId}` };
+    }
+    if (active.paused) {
+        return { success: true };
+    }
+
+    const pid = getFfmpegPid(active.command);
+    if (!pid) {
+        return { success: false, error: `ffmpeg has not started yet for job ${jobId}` };
+    }
+
+    try {
+        suspendProcess(pid);
+        active.paused = true;
+        console.log(`[Encoding Process] Paused job ${jobId} (pid ${pid})`);
+        active.writeLog(`[Info] Encoding paused ${reason}.`);
+        return { success: true };
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.error(`[Encoding Process] Failed to pause ffmpeg for job ${jobId}:`, error);
+        active.writeLog(`[Error] Failed to pause ffmpeg process: ${errorMsg}`);
+        return { success: false, error: errorMsg };
+    }
+}
+
+/**
+ * Resumes the ffmpeg process of a job paused with pauseEncodingProcess.
+ * @param jobId The job ID passed to startEncodingProcess
+ * @param reason Why the encode is resumed, for the job log
+ */
+export function resumeEncodingProcess(jobId: string, reason: string = 'by user'): { success: boolean; error?: string } {
+    const active = activeEncodings.get(jobId);
+    if (!active) {
+        console.warn(`[Encoding Process] Resume requested for job ${jobId}, but no running process was found.`);
+        return { success: false, error: `No running encoding process found for job ${jobId}` };
+    }
+    if (!active.paused) {
+        return { success: true };
+    }
+
+    const pid = getFfmpegPid(active.command);
+    if (!pid) {
+        return { success: false, error: `ffmpeg process not found for job ${jobId}` };
+    }
+
+    try {
+        resumeProcess(pid);
+        active.paused = false;
+        console.log(`[Encoding Process] Resumed job ${jobId} (pid ${pid})`);
+        active.writeLog(`[Info] Encoding resumed ${reason}.`);
+        return { success: true };
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.error(`[Encoding Process] Failed to resume ffmpeg for job ${jobId}:`, error);
+        active.writeLog(`[Error] Failed to resume ffmpeg process: ${errorMsg}`);
+        return { success: false, error: errorMsg };
+    }
+}
+
+/**
+ * Lowers (or restores) the scheduling priority of a running job's ffmpeg process
+ * so other programs get the CPU first. Restoring needs elevated rights on Linux
+ * and macOS, so there the process may stay at the lower priority until it exits.
+ * @param jobId The job ID passed to startEncodingProcess
+ */
+export function setEncodingProcessPriority(jobId: string, lowPriority: boolean): { success: boolean; error?: string } {
+    const active = activeEncodings.get(jobId);
+    if (!active) {
+        return { success: false, error: `No running encoding process found for job ${jobId}` };
+    }
+    if (active.lowPriority === lowPriority) {
+        return { success: true };
+    }
+
+    const pid = getFfmpegPid(active.command);
+    if (!pid) {
+        return { success: false, error: `ffmpeg has not started yet for job ${jobId}` };
+    }
+
+    try {
+        os.setPriority(pid, lowPriority ? os.constants.priority.PRIORITY_LOW : os.constants.priority.PRIORITY_NORMAL);
+        active.lowPriority = lowPriority;
+        console.log(`[Encoding Process] ${lowPriority ? 'Lowered' : 'Restored'} priority of job ${jobId} (pid ${pid})`);
+        active.writeLog(`[Info] ${lowPriority ? 'Lowered process priority because of high system load.' : 'Restored normal process priority.'}`);
+        return { success: true };
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.warn(`[Encoding Process] Failed to change priority of ffmpeg for job ${jobId}:`, error);
+        return { success: false, error: errorMsg };
+    }
+}
 
 // Create a wrapper for progress callback to store state
 interface ProgressCallbackWrapper {
@@ -99,6 +301,47 @@ interface ProgressCallbackWrapper {
   timer?: NodeJS.Timeout;
 }
 
+/**
+ * Path ffmpeg writes to while encoding, next to the final target (e.g. movie_tmp.mkv)
+ * @param finalTargetPath Where the finished encode will end up
+ */
+export function getTempOutputPath(finalTargetPath: string): string {
+    const extension = path.extname(finalTargetPath);
+    const basename = path.basename(finalTargetPath, extension);
+    return path.join(path.dirname(finalTargetPath), `${basename}_tmp${extension}`);
+}
+
+/**
+ * Estimates speed (multiple of realtime) and seconds remaining for one progress event.
+ * Prefers frame counts, since ffmpeg's fps is unaffected by time spent paused.
+ */
+function estimateSpeedAndEta(
+    state: ProgressState,
+    fps: number | undefined,
+    frame: number | undefined,
+    currentTime: number | undefined
+): { speed?: number; eta?: number } {
+    let speed: number | undefined;
+    if (fps && state.sourceFps) {
+        speed = fps / state.sourceFps;
+    } else if (currentTime && state.startTime) {
+        const elapsedSeconds = (Date.now() - state.startTime) / 1000;
+        if (elapsedSeconds > 0) speed = currentTime / elapsedSeconds;
+    }
+
+    let eta: number | undefined;
+    if (fps && frame !== undefined && state.totalFrames && state.totalFrames > frame) {
+        eta = (state.totalFrames - frame) / fps;
+    } else if (speed && currentTime !== undefined && state.duration && state.duration > currentTime) {
+        eta = (state.duration - currentTime) / speed;
+    }
+
+    return {
+        speed: speed !== undefined ? Number(speed.toFixed(2)) : undefined,
+        eta: eta !== undefined ? Math.round(eta) : undefined,
+    };
+}
+
 // Improved function to convert ffmpeg timemark (HH:MM:SS.MS) to seconds
 function convertTimemarkToSeconds(timemark: string): number | undefined {
     try {
@@ -120,14 +363,393 @@ function convertTimemarkToSeconds(timemark: string): number | undefined {
     }
 }
 
+type EncoderFamily = 'software' | 'qsv' | 'nvenc' | 'vaapi' | 'amf' | 'other';
+
+function getEncoderFamily(videoCodec: string | undefined): EncoderFamily {
+    if (videoCodec === 'libx264' || videoCodec === 'libx265' || videoCodec === 'libsvtav1' || videoCodec === 'libaom-av1') return 'software';
+    if (videoCodec?.endsWith('_qsv')) return 'qsv';
+    if (videoCodec?.endsWith('_nvenc')) return 'nvenc';
+    if (videoCodec?.endsWith('_vaapi')) return 'vaapi';
+    if (videoCodec?.endsWith('_amf')) return 'amf';
+    return 'other';
+}
+
+/**
+ * Target size on the software encoders runs a separate analysis pass first.
+ * NVENC and QSV do their multipass inside a single run, and ffmpeg's libsvtav1
+ * wrapper has no pass support, so SVT-AV1 aims at the bitrate in one run too.
+ */
+function usesTwoPass(options: EncodingOptions): boolean {
+    return options.rateControlMode === 'target_size'
+        && !!options.videoBitrateKbps
+        && getEncoderFamily(options.videoCodec) === 'software'
+        && options.videoCodec !== 'libsvtav1';
+}
+
+// AMF has three quality levels instead of x264-style preset names
+const AMF_QUALITY_BY_PRESET: Record<string, string> = {
+    veryslow: 'quality', slower: 'quality', slow: 'quality',
+    medium: 'balanced', fast: 'balanced',
+    faster: 'speed', veryfast: 'speed', ultrafast: 'speed',
+};
+
+/**
+ * Speed preset in the form the encoder expects. libaom calls it cpu-used and is
+ * only usable on long files with row multithreading on. VAAPI's speed/quality
+ * trade-off is driver specific, so it is left at the driver default.
+ */
+function getSpeedPresetArgs(options: EncodingOptions): string[] {
+    if (!options.videoPreset) return [];
+    const family = getEncoderFamily(options.videoCodec);
+    if (family === 'vaapi') return [];
+    if (family === 'amf') return ['-quality', AMF_QUALITY_BY_PRESET[options.videoPreset] ?? 'balanced'];
+    if (options.videoCodec === 'libaom-av1') return ['-cpu-used', options.videoPreset, '-row-mt', '1'];
+    return ['-preset:v', options.videoPreset];
+}
+
+const DEFAULT_VAAPI_DEVICE = '/dev/dri/renderD128';
+// Name the VAAPI device is registered under for -hwaccel_device and -filter_hw_device
+const VAAPI_DEVICE_NAME = 'va';
+
+/**
+ * DRM render nodes that can be handed to the VAAPI encoders. Empty on other platforms.
+ */
+export async function listVaapiDevices(): Promise<string[]> {
+    if (process.platform !== 'linux') return [];
+    try {
+        const entries = await fs.readdir('/dev/dri');
+        return entries.filter(name => name.startsWith('renderD')).sort().map(name => `/dev/dri/${name}`);
+    } catch {
+        return [];
+    }
+}
+
+const PCI_VENDOR_IDS: Record<string, string> = { intel: '0x8086', amd: '0x1002', nvidia: '0x10de' };
+
+/**
+ * Render nodes belonging to one GPU vendor, in enumeration order.
+ */
+async function getVendorRenderNodes(vendor: string): Promise<string[]> {
+    const nodes: string[] = [];
+    for (const node of await listVaapiDevices()) {
+        try {
+            const vendorId = (await fs.readFile(`/sys/class/drm/${path.basename(node)}/device/vendor`, 'utf8')).trim();
+            if (vendorId === PCI_VENDOR_IDS[vendor]) nodes.push(node);
+        } catch {
+            // Not backed by a PCI device
+        }
+    }
+    return nodes;
+}
+
+interface GpuSelection {
+    inputOptions: string[];
+    outputOptions: string[];
+    vaapiDevice?: string;
+}
+
+/**
+ * Options that pin decoding and encoding to the GPU the queue assigned. The AMF
+ * encoders pick their adapter themselves, so they have nothing to pin.
+ */
+async function getGpuSelection(options: EncodingOptions): Promise<GpuSelection> {
+    const selection: GpuSelection = { inputOptions: [], outputOptions: [] };
+    if (options.gpuIndex === undefined) return selection;
+    const index = options.gpuIndex;
+
+    switch (getEncoderFamily(options.videoCodec)) {
+        case 'nvenc':
+            selection.outputOptions.push('-gpu', String(index));
+            if (options.hwAccel === 'cuda' || options.hwAccel === 'nvenc') {
+                selection.inputOptions.push('-hwaccel_device', String(index));
+            }
+            break;
+        case 'qsv':
+            if (process.platform === 'win32') {
+                selection.inputOptions.push('-qsv_device', String(index));
+            } else {
+                const node = (await getVendorRenderNodes('intel'))[index];
+                if (node) selection.inputOptions.push('-qsv_device', node);
+            }
+            break;
+        case 'vaapi':
+            // A device pinned on the preset wins over the dispatcher's choice
+            if (!options.vaapiDevice && options.gpuVendor) {
+                selection.vaapiDevice = (await getVendorRenderNodes(options.gpuVendor))[index];
+            }
+            break;
+    }
+    return selection;
+}
+
+/**
+ * VAAPI encoders only take frames in GPU memory. Decoded frames stay in system memory
+ * so the software filters (scaling, tone mapping, side data removal) keep working,
+ * and are converted and uploaded at the end of the chain.
+ */
+function getVaapiVideoFilter(options: EncodingOptions): string {
+    const upload = `format=${options.pixelFormat || 'nv12'},hwupload`;
+    return options.videoFilter ? `${options.videoFilter},${upload}` : upload;
+}
+
+/**
+ * Switches the hardware encoders from constant quality to bitrate-based VBR.
+ */
+function getBitrateModeArgs(family: EncoderFamily): string[] {
+    if (family === 'nvenc') return ['-rc:v', 'vbr'];
+    if (family === 'vaapi') return ['-rc_mode', 'VBR'];
+    if (family === 'amf') return ['-rc', 'vbr_peak'];
+    return [];
+}
+
+/**
+ * Film grain synthesis for the software AV1 encoders: the grain is removed before
+ * encoding and re-synthesised by the decoder, which saves a lot of bits on grainy sources.
+ */
+function getFilmGrainArgs(options: EncodingOptions): string[] {
+    if (!options.filmGrain) return [];
+    if (options.videoCodec === 'libsvtav1') return ['-svtav1-params', `film-grain=${options.filmGrain}`];
+    if (options.videoCodec === 'libaom-av1') return ['-denoise-noise-level', String(options.filmGrain)];
+    return [];
+}
+
+/**
+ * Tells libx264/libx265/libaom-av1 which pass this is and where the stats file lives.
+ */
+function getPassArgs(videoCodec: string, pass: 1 | 2, passLogPrefix: string): string[] {
+    if (videoCodec === 'libx265') {
+        // x265-params is ':'-separated, so the drive letter's colon has to be escaped
+        const statsPath = `${passLogPrefix}.log`.replace(/\\/g, '/').replace(/:/g, '\\:');
+        return ['-x265-params', `pass=${pass}:stats=${statsPath}`];
+    }
+    return ['-pass', String(pass), '-passlogfile', passLogPrefix];
+}
+
+/**
+ * Bitrate/quality options for the job's rate control mode, in the form each
+ * encoder family expects. Modes whose bitrate couldn't be resolved fall back to
+ * constant quality.
+ */
+function getRateControlArgs(options: EncodingOptions, pass?: { number: 1 | 2; logPrefix: string }): string[] {
+    const videoCodec = options.videoCodec!;
+    const family = getEncoderFamily(videoCodec);
+    const quality = options.videoQuality ? String(options.videoQuality) : undefined;
+    const kbps = (value: number) => `${Math.round(value)}k`;
+    const args: string[] = [];
+
+    switch (options.rateControlMode) {
+        case 'average_bitrate':
+            if (!options.videoBitrateKbps) break;
+            args.push(...getBitrateModeArgs(family));
+            args.push('-b:v', kbps(options.videoBitrateKbps));
+            return args;
+        case 'capped_vbr':
+            if (!options.videoMaxBitrateKbps) break;
+            args.push(...getBitrateModeArgs(family));
+            if (options.videoBitrateKbps) {
+                args.push('-b:v', kbps(options.videoBitrateKbps));
+            } else if (family === 'qsv' || family === 'vaapi' || family === 'amf') {
+                // VBR on these encoders needs an average, so aim at the cap
+                args.push('-b:v', kbps(options.videoMaxBitrateKbps));
+            } else if (quality) {
+                // Capped CRF/CQ: constant quality that never exceeds the peak
+                args.push(family === 'nvenc' ? '-cq:v' : '-crf', quality);
+            }
+            args.push('-maxrate:v', kbps(options.videoMaxBitrateKbps));
+            args.push('-bufsize:v', kbps(options.videoBufferSizeKbps || options.videoMaxBitrateKbps * 2));
+            return args;
+        case 'target_size':
+            if (!options.videoBitrateKbps) break;
+            args.push(...getBitrateModeArgs(family));
+            if (family === 'nvenc') args.push('-multipass', 'fullres');
+            args.push('-b:v', kbps(options.videoBitrateKbps));
+            if (family !== 'software') {
+                // Keep peaks near the average so the single run lands close to the target
+                args.push('-maxrate:v', kbps(options.videoBitrateKbps * 1.5), '-bufsize:v', kbps(options.videoBitrateKbps * 3));
+            }
+            if (pass) args.push(...getPassArgs(videoCodec, pass.number, pass.logPrefix));
+            return args;
+    }
+
+    if (quality) {
+        if (family === 'software') {
+            args.push('-crf', quality);
+            // libaom only runs in constant quality mode when the bitrate is zero
+            if (videoCodec === 'libaom-av1') args.push('-b:v', '0');
+        } else if (family === 'qsv') {
+            args.push('-global_quality:v', quality);
+        } else if (family === 'nvenc') {
+            args.push('-rc:v', 'vbr', '-cq:v', quality, '-b:v', '0');
+        } else if (family === 'vaapi') {
+            args.push('-rc_mode', 'CQP', '-qp', quality);
+        } else if (family === 'amf') {
+            args.push('-rc', 'cqp', '-qp_i', quality, '-qp_p', quality);
+            // av1_amf has no B-frame QP
+            if (videoCodec !== 'av1_amf') args.push('-qp_b', quality);
+        }
+    }
+    return args;
+}
+
+/**
+ * Color tags for the output, plus HDR10 static metadata for libx265. The hardware
+ * encoders pick the mastering display metadata up from the decoded frames.
+ */
+function getColorArgs(options: EncodingOptions): string[] {
+    const args: string[] = [];
+    if (options.colorPrimaries) args.push('-color_primaries', options.colorPrimaries);
+    if (options.colorTransfer) args.push('-color_trc', options.colorTransfer);
+    if (options.colorSpace) args.push('-colorspace', options.colorSpace);
+
+    if (options.videoCodec === 'libx265' && options.colorTransfer === 'smpte2084') {
+        const params = ['hdr10=1', 'repeat-headers=1'];
+        if (options.hdrMasterDisplay) params.push(`master-display=${options.hdrMasterDisplay}`);
+        if (options.hdrMaxCll) params.push(`max-cll=${options.hdrMaxCll}`);
+        args.push('-x265-params', params.join(':'));
+    }
+    return args;
+}
+
+let bitstreamFilters: Promise<Set<string>> | null = null;
+
+/**
+ * Bitstream filters the bundled ffmpeg was built with, looked up once.
+ */
+function getBitstreamFilters(): Promise<Set<string>> {
+    if (!bitstreamFilters) {
+        bitstreamFilters = new Promise((resolve) => {
+            execFile(ffmpegStatic as unknown as string, ['-hide_banner', '-bsfs'], { timeout: 10000 }, (error, stdout) => {
+                if (error) return resolve(new Set());
+                resolve(new Set(stdout.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.endsWith(':'))));
+            });
+        });
+    }
+    return bitstreamFilters;
+}
+
+const ENCODER_PARAM_FLAGS = ['-x265-params', '-svtav1-params'];
+
+/**
+ * ffmpeg only honours the last -x265-params/-svtav1-params, so fold every
+ * occurrence of each into one.
+ */
+function mergeEncoderParams(outputOpts: string[]): string[] {
+    const params = new Map<string, string[]>();
+    const merged: string[] = [];
+    for (let i = 0; i < outputOpts.length; i++) {
+        if (ENCODER_PARAM_FLAGS.includes(outputOpts[i]) && i + 1 < outputOpts.length) {
+            const flag = outputOpts[i];
+            params.set(flag, [...(params.get(flag) ?? []), outputOpts[++i]]);
+        } else {
+            merged.push(outputOpts[i]);
+        }
+    }
+    params.forEach((values, flag) => merged.push(flag, values.join(':')));
+    return merged;
+}
+
+/**
+ * Removes the stats files libx264/libx265 leave behind after a two-pass encode.
+ */
+async function removePassLogs(passLogPrefix: string, writeLog: (message: string) => void): Promise<void> {
+    const directory = path.dirname(passLogPrefix);
+    const baseName = path.basename(passLogPrefix);
+    try {
+        const entries = await fs.readdir(directory);
+        await Promise.all(entries
+            .filter(entry => entry.startsWith(baseName))
+            .map(entry => fs.unlink(path.join(directory, entry))));
+    } catch (error) {
+        console.warn(`[Encoding Process] Could not remove two-pass stats files for ${passLogPrefix}:`, error);
+        writeLog(`[Warning] Could not remove two-pass stats files: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Runs the analysis pass of a two-pass encode. Only video is read and nothing but
+ * the stats file is written. Attaches itself to the job's active encoding so it
+ * can be cancelled, and reports progress as the first half of the job.
+ */
+function runAnalysisPass(
+    options: EncodingOptions,
+    passLogPrefix: string,
+    progressState: ProgressState,
+    writeLog: (message: string) => void,
+    onProgress: (progress: EncodingProgress) => void
+): Promise<{ success: boolean; cancelled?: boolean; error?: string }> {
+    return new Promise((resolve) => {
+        const jobId = options.jobId;
+        const command = ffmpeg(options.inputPath);
+        const isCancelRequested = () => jobId ? activeEncodings.get(jobId)?.cancelRequested === true : false;
+        if (jobId) attachEncodingCommand(jobId, command);
+        if (options.seekSeconds) command.seekInput(options.seekSeconds);
+        if (options.duration) command.duration(options.duration);
+
+        const outputOpts: string[] = [];
+        if (options.mapVideo) outputOpts.push('-map', options.mapVideo + '?');
+        outputOpts.push('-c:v', options.videoCodec!);
+        outputOpts.push(...getSpeedPresetArgs(options));
+        outputOpts.push(...getRateControlArgs(options, { number: 1, logPrefix: passLogPrefix }));
+        if (options.pixelFormat) outputOpts.push('-pix_fmt', options.pixelFormat);
+        if (options.resolution) outputOpts.push('-s', options.resolution);
+        if (options.videoFilter) outputOpts.push('-vf', options.videoFilter);
+        outputOpts.push('-an', '-sn', '-f', 'null');
+
+        command
+            .outputOptions(outputOpts)
+            .output(process.platform === 'win32' ? 'NUL' : '/dev/null');
+
+        command.on('start', (commandLine: string) => {
+            writeLog(`[Info] Starting analysis pass (1 of 2)`);
+            writeLog(`[Command] ${commandLine}`);
+            // A cancel sent while ffmpeg was spawning couldn't kill it yet
+            if (isCancelRequested()) command.kill('SIGKILL');
+        });
+        command.on('progress', (progress: { timemark?: string }) => {
+            const currentTime = progress.timemark ? convertTimemarkToSeconds(progress.timemark) : undefined;
+            if (currentTime === undefined || !progressState.duration) return;
+            onProgress({
+                percent: Math.min(50, (currentTime / progressState.duration) * 50),
+                status: 'Analyzing (pass 1 of 2)',
+            });
+        });
+        command.on('end', () => {
+            if (isCancelRequested()) {
+                resolve({ success: false, cancelled: true, error: 'Encoding cancelled by user' });
+                return;
+            }
+            writeLog(`[Info] Analysis pass finished`);
+            resolve({ success: true });
+        });
+        command.on('error', (err: Error) => {
+            if (jobId && activeEncodings.get(jobId)?.cancelRequested) {
+                activeEncodings.delete(jobId);
+                resolve({ success: false, cancelled: true, error: 'Encoding cancelled by user' });
+                return;
+            }
+            if (jobId) activeEncodings.delete(jobId);
+            writeLog(`[Error] Analysis pass failed: ${err.message}`);
+            resolve({ success: false, error: `Analysis pass failed: ${err.message}` });
+        });
+
+        if (isCancelRequested()) {
+            resolve({ success: false, cancelled: true, error: 'Encoding cancelled by user' });
+            return;
+        }
+        command.run();
+    });
+}
+
 export async function startEncodingProcess(options: EncodingOptions): Promise<EncodingResult> {
     // --- Logging Setup ---
     let logStream: WriteStream | null = null;
     const jobId = options.jobId; // Get jobId for easier access
 
-    // Helper defined early to be available everywhere, checks logStream internally
+    // Helper defined early to be available everywhere, checks logStream internally.
+    // Cleanup such as removing two-pass stats files can finish after the log was closed;
+    // writing to an ended stream would raise an unhandled error, so those lines are skipped.
     const writeLog = (message: string) => {
-        if (logStream) {
+        if (logStream && !logStream.writableEnded) {
             logStream.write(`[${new Date().toISOString()}] ${message}\n`, (err) => {
                 if (err) console.error(`[Log Write Error] Job ${jobId}:`, err);
             });
@@ -163,9 +785,7 @@ export async function startEncodingProcess(options: EncodingOptions): Promise<En
     console.log(`[Encoding Process] Starting for: ${options.inputPath}`);
     writeLog(`[Info] Starting process for: ${options.inputPath}`); // Log start
 
-    // Reset global estimates
-    estimatedTotalFrames = undefined;
-    videoDuration = undefined;
+    const progressState: ProgressState = {};
 
     // --- Input Validation & Path Setup ---
     if (!options.inputPath || !options.outputPath) {
@@ -176,17 +796,24 @@ export async function startEncodingProcess(options: EncodingOptions): Promise<En
 
     const overwriteInput = options.overwriteInput ?? false;
     const finalTargetPath = overwriteInput ? options.inputPath : options.outputPath;
-    const extension = path.extname(finalTargetPath);
-    const basename = path.basename(finalTargetPath, extension);
-    const tempOutputPath = path.join(path.dirname(finalTargetPath), `${basename}_tmp${extension}`);
+    const tempOutputPath = getTempOutputPath(finalTargetPath);
 
     writeLog(`[Info] Mode: ${overwriteInput ? 'Overwrite' : 'Save As New'}`);
     writeLog(`[Info] Final Target Path: ${finalTargetPath}`);
     writeLog(`[Info] Temporary Output Path: ${tempOutputPath}`);
 
+    const twoPass = usesTwoPass(options);
+    const passLogPrefix = `${tempOutputPath}.passlog`;
+
+    // Register before any awaited preparation so a cancel that arrives in the meantime is kept
+    if (jobId) {
+        activeEncodings.set(jobId, { command: null, tempOutputPath, writeLog, cancelRequested: false, paused: false, lowPriority: false });
+    }
+
     try {
         await fs.access(options.inputPath, fs.constants.R_OK);
     } catch (err) {
+        if (jobId) activeEncodings.delete(jobId);
         console.error(`[Encoding Process] Input file not found or not readable: ${options.inputPath}`, err);
         const errorMsg = `Input file not found or not readable: ${options.inputPath}`;
         writeLog(`[Error] ${errorMsg}: ${err instanceof Error ? err.message : String(err)}`);
@@ -224,8 +851,10 @@ export async function startEncodingProcess(options: EncodingOptions): Promise<En
                 progressCallbackWrapper.lastFrameUpdate = Date.now();
             }
             
-            // Call the original callback
-            options.progressCallback!(progress);
+            // Call the original callback; the final pass of a two-pass encode is the second half of the job
+            options.progressCallback!(twoPass && progress.percent !== undefined
+                ? { ...progress, percent: 50 + progress.percent / 2 }
+                : progress);
         } : 
         () => {}; // Empty function if no callback
     
@@ -244,7 +873,8 @@ export async function startEncodingProcess(options: EncodingOptions): Promise<En
         writeLog("[Info] ffprobe raw result: " + JSON.stringify(ffprobeResult, null, 2));
 
         if (ffprobeResult && ffprobeResult.format && ffprobeResult.format.duration) {
-            videoDuration = parseFloat(ffprobeResult.format.duration);
+            const videoDuration = parseFloat(ffprobeResult.format.duration);
+            progressState.duration = videoDuration;
             writeLog(`[Info] Video duration found: ${videoDuration}s`);
             
             // Try to estimate fps from video stream
@@ -258,7 +888,7 @@ export async function startEncodingProcess(options: EncodingOptions): Promise<En
                     if (videoStream.nb_frames && parseInt(videoStream.nb_frames, 10) > 0) {
                         nb_frames = parseInt(videoStream.nb_frames, 10);
                         writeLog(`[Info] Frame count from probe: ${nb_frames}`);
-                        estimatedTotalFrames = nb_frames;
+                        progressState.totalFrames = nb_frames;
                     }
                     
                     // Get FPS in any case for estimation if we don't have frame count
@@ -294,10 +924,14 @@ export async function startEncodingProcess(options: EncodingOptions): Promise<En
                     }
                 }
                 
+                if (fps > 0) {
+                    progressState.sourceFps = fps;
+                }
+
                 // Estimate total frames if we don't have it already
-                if (!estimatedTotalFrames && videoDuration > 0 && fps > 0) {
-                    estimatedTotalFrames = Math.round(videoDuration * fps);
-                    writeLog(`[Info] Estimated total frames from duration and FPS: ${estimatedTotalFrames}`);
+                if (!progressState.totalFrames && videoDuration > 0 && fps > 0) {
+                    progressState.totalFrames = Math.round(videoDuration * fps);
+                    writeLog(`[Info] Estimated total frames from duration and FPS: ${progressState.totalFrames}`);
                 }
                 
                 // As an extra backup, use format.bit_rate to get a basic estimation of complexity
@@ -322,10 +956,79 @@ export async function startEncodingProcess(options: EncodingOptions): Promise<En
         writeLog(`[Error] ffprobe failed: ${err instanceof Error ? err.message : String(err)}`);
     }
 
-    return new Promise((resolve) => {
+    // When only part of the input is encoded, progress is measured against that part
+    if (options.duration && progressState.duration) {
+        const encodedSeconds = Math.min(options.duration, Math.max(0, progressState.duration - (options.seekSeconds ?? 0)));
+        if (progressState.totalFrames) {
+            progressState.totalFrames = Math.round(progressState.totalFrames * (encodedSeconds / progressState.duration));
+        }
+        progressState.duration = encodedSeconds;
+        writeLog(`[Info] Encoding ${encodedSeconds}s starting at ${options.seekSeconds ?? 0}s`);
+    }
+
+    // ffmpeg copies the source's Dolby Vision configuration record onto encoded streams,
+    // which tells players to expect RPUs that were stripped. dovi_rpu removes it (HEVC/AV1 only).
+    let stripDoviRecord = false;
+    if (options.stripDynamicHdr && !options.videoCodec?.includes('264')) {
+        stripDoviRecord = (await getBitstreamFilters()).has('dovi_rpu');
+        if (!stripDoviRecord) {
+            writeLog('[Warning] This ffmpeg build has no dovi_rpu filter; the Dolby Vision configuration record may remain in the output');
+        }
+    }
+
+    const gpuSelection = await getGpuSelection(options);
+
+    if (twoPass) {
+        const analysis = await runAnalysisPass(options, passLogPrefix, progressState, writeLog,
+            progress => options.progressCallback?.(progress));
+        if (!analysis.success) {
+            if (jobId) activeEncodings.delete(jobId);
+            await removePassLogs(passLogPrefix, writeLog);
+            logStream?.end();
+            return {
+                success: false,
+                cancelled: analysis.cancelled,
+                error: analysis.error,
+                jobId: options.jobId,
+                logFileId: options.jobId
+            };
+        }
+    }
+    // Pass 2 keeps a renice applied during the analysis pass
+    const keepLowPriority = jobId ? activeEncodings.get(jobId)?.lowPriority ?? false : false;
+    const isCancelRequested = () => jobId ? activeEncodings.get(jobId)?.cancelRequested === true : false;
+
+    const encodeResult = new Promise<EncodingResult>((resolve) => {
+        // Drops whatever was written so it isn't mistaken for a finished encode
+        const resolveCancelled = () => {
+            if (jobId) activeEncodings.delete(jobId);
+            console.log(`[Encoding Process] Encoding cancelled for: ${options.inputPath}`);
+            writeLog(`[Info] Encoding cancelled by user for: ${options.inputPath}`);
+            fs.unlink(tempOutputPath)
+                .then(() => writeLog(`[Info] Removed partial temp file: ${tempOutputPath}`))
+                .catch((unlinkErr: NodeJS.ErrnoException) => {
+                    if (unlinkErr.code !== 'ENOENT') {
+                        writeLog(`[Warning] Could not remove partial temp file: ${unlinkErr.message}`);
+                    }
+                })
+                .finally(() => {
+                    writeLog(`--- Encoding Job ${jobId} Cancelled ---`);
+                    logStream?.end();
+                    resolve({
+                        success: false,
+                        cancelled: true,
+                        error: 'Encoding cancelled by user',
+                        jobId: options.jobId,
+                        logFileId: options.jobId
+                    });
+                });
+        };
+
         try {
             const command = ffmpeg(options.inputPath);
 
+            if (jobId) attachEncodingCommand(jobId, command);
+
             // --- Input Options --- 
             // Check if using Intel GPU codecs
             const isIntelGPU = options.videoCodec && ['hevc_qsv', 'h264_qsv', 'av1_qsv'].includes(options.videoCodec);
@@ -335,10 +1038,23 @@ export async function startEncodingProcess(options: EncodingOptions): Promise<En
                 writeLog(`[Info] Intel GPU acceleration enabled for codec: ${options.videoCodec}`);
             }
             
-            if (options.hwAccel && options.hwAccel !== 'none' && options.hwAccel !== 'auto') {
+            // Tone mapping runs in software filters, so decoded frames have to stay in system memory
+            const keepFramesOnGpu = !options.toneMapHdr;
+            const isVaapi = getEncoderFamily(options.videoCodec) === 'vaapi';
+
+            if (isVaapi) {
+                const vaapiDevice = options.vaapiDevice || gpuSelection.vaapiDevice || DEFAULT_VAAPI_DEVICE;
+                command.inputOption(`-init_hw_device vaapi=${VAAPI_DEVICE_NAME}:${vaapiDevice}`);
+                command.inputOption(`-filter_hw_device ${VAAPI_DEVICE_NAME}`);
+                if (options.hwAccel !== 'none') {
+                    command.inputOption('-hwaccel vaapi');
+                    command.inputOption(`-hwaccel_device ${VAAPI_DEVICE_NAME}`);
+                }
+                writeLog(`[Info] Using VAAPI device ${vaapiDevice}${options.hwAccel !== 'none' ? ' for decoding and encoding' : ' for encoding'}`);
+            } else if (options.hwAccel && options.hwAccel !== 'none' && options.hwAccel !== 'auto') {
                 command.inputOption(`-hwaccel ${options.hwAccel}`);
                 // Add Intel GPU specific options when explicitly using qsv
-                if (options.hwAccel === 'qsv') {
+                if (options.hwAccel === 'qsv' && keepFramesOnGpu) {
                     command.inputOption('-hwaccel_output_format qsv');
                     writeLog(`[Info] Added Intel GPU acceleration: -hwaccel qsv -hwaccel_output_format qsv`);
                 } else {
@@ -347,7 +1063,7 @@ export async function startEncodingProcess(options: EncodingOptions): Promise<En
             } else if (options.hwAccel === 'auto') {
                 command.inputOption('-hwaccel auto');
                 // Add Intel GPU specific options if using Intel codec
-                if (isIntelGPU) {
+                if (isIntelGPU && keepFramesOnGpu) {
                     command.inputOption('-hwaccel_output_format qsv');
                     writeLog(`[Info] Added Intel GPU acceleration with auto: -hwaccel auto -hwaccel_output_format qsv`);
                 } else {
@@ -356,8 +1072,19 @@ export async function startEncodingProcess(options: EncodingOptions): Promise<En
             } else if (isIntelGPU) {
                 // Fallback: Auto-enable Intel GPU acceleration when using Intel codecs but no explicit hwAccel
                 command.inputOption('-hwaccel qsv');
-                command.inputOption('-hwaccel_output_format qsv');
-                writeLog(`[Info] Auto-enabled Intel GPU acceleration for Intel codec: -hwaccel qsv -hwaccel_output_format qsv`);
+                if (keepFramesOnGpu) {
+                    command.inputOption('-hwaccel_output_format qsv');
+                }
+                writeLog(`[Info] Auto-enabled Intel GPU acceleration for Intel codec: -hwaccel qsv${keepFramesOnGpu ? ' -hwaccel_output_format qsv' : ''}`);
+            }
+            if (gpuSelection.inputOptions.length > 0) {
+                command.inputOptions(gpuSelection.inputOptions);
+            }
+            if (options.gpuIndex !== undefined) {
+                writeLog(`[Info] Assigned to GPU ${options.gpuIndex}${options.gpuVendor ? ` (${options.gpuVendor})` : ''}: ${[...gpuSelection.inputOptions, ...gpuSelection.outputOptions].join(' ') || 'no device options needed'}`);
+            }
+            if (options.seekSeconds) {
+                command.seekInput(options.seekSeconds);
             }
             if (options.duration) {
                 command.duration(options.duration); // Duration is handled differently
@@ -424,22 +1151,29 @@ export async function startEncodingProcess(options: EncodingOptions): Promise<En
             // 2. Video Codec & Options
             if (options.videoCodec && options.mapVideo) { 
                 outputOpts.push('-c:v', options.videoCodec);
+                outputOpts.push(...gpuSelection.outputOptions);
                 if (options.videoCodec !== 'copy') { 
                     // Add fps_mode passthrough for Intel GPU codecs
                     if (isIntelGPU) {
                         outputOpts.push('-fps_mode', 'passthrough');
                         writeLog(`[Info] Added -fps_mode passthrough for Intel GPU codec`);
                     }
-                    if (options.videoPreset) outputOpts.push('-preset:v', options.videoPreset); 
-                    if (options.videoQuality) {
-                        if (['libx264', 'libx265'].includes(options.videoCodec)) {
-                            outputOpts.push('-crf', String(options.videoQuality)); 
-                        } else if (['hevc_qsv', 'h264_qsv', 'av1_qsv'].includes(options.videoCodec)) {
-                            outputOpts.push('-global_quality:v', String(options.videoQuality)); 
-                        }
-                    }
+                    outputOpts.push(...getSpeedPresetArgs(options));
+                    outputOpts.push(...getRateControlArgs(options, twoPass ? { number: 2, logPrefix: passLogPrefix } : undefined));
+                    outputOpts.push(...getFilmGrainArgs(options));
                     if (options.lookAhead !== undefined) outputOpts.push('-look_ahead', String(options.lookAhead)); 
-                    if (options.pixelFormat) outputOpts.push('-pix_fmt', options.pixelFormat);
+                    // VAAPI gets its pixel format from the upload filter
+                    if (options.pixelFormat && !isVaapi) outputOpts.push('-pix_fmt', options.pixelFormat);
+                    outputOpts.push(...getColorArgs(options));
+                    if (stripDoviRecord) {
+                        outputOpts.push('-bsf:v', 'dovi_rpu=strip=1');
+                        writeLog(`[Info] Stripping Dolby Vision metadata with dovi_rpu`);
+                    }
+                    if (options.toneMapHdr) {
+                        writeLog(`[Info] Tone-mapping HDR to SDR`);
+                    } else if (options.colorTransfer && options.colorTransfer !== 'bt709') {
+                        writeLog(`[Info] Preserving HDR: transfer=${options.colorTransfer}, master-display=${options.hdrMasterDisplay ?? 'none'}, max-cll=${options.hdrMaxCll ?? 'none'}`);
+                    }
                     
                     // Add Intel GPU specific optimizations
                     if (isIntelGPU) {
@@ -460,18 +1194,20 @@ export async function startEncodingProcess(options: EncodingOptions): Promise<En
                         }
                     }
                     
-                    // Apply resolution setting (takes precedence)
-                    if (options.resolution) {
+                    // Apply resolution setting (takes precedence). -s would scale after the
+                    // VAAPI upload, where the software scaler can't reach the frames.
+                    if (options.resolution && !isVaapi) {
                         outputOpts.push('-s', options.resolution);
                         console.log(`[Encoding Process] Forcing resolution to: ${options.resolution}`);
                         writeLog(`[Info] Forcing resolution to: ${options.resolution}`);
                     }
                     
                     // Apply video filter (may be used in addition to resolution for better scaling)
-                    if (options.videoFilter) {
-                        outputOpts.push('-vf', options.videoFilter);
-                        console.log(`[Encoding Process] Applying video filter: ${options.videoFilter}`);
-                        writeLog(`[Info] Applying video filter: ${options.videoFilter}`);
+                    const videoFilter = isVaapi ? getVaapiVideoFilter(options) : options.videoFilter;
+                    if (videoFilter) {
+                        outputOpts.push('-vf', videoFilter);
+                        console.log(`[Encoding Process] Applying video filter: ${videoFilter}`);
+                        writeLog(`[Info] Applying video filter: ${videoFilter}`);
                     }
                 }
             } else if (options.mapVideo) {
@@ -579,8 +1315,9 @@ export async function startEncodingProcess(options: EncodingOptions): Promise<En
             outputOpts.push('-y'); // Overwrite output (this applies to the *temp* file initially)
 
             // --- Apply ALL output options via outputOptions() ---
-            writeLog("[Info] Applying output options: " + JSON.stringify(outputOpts));
-            command.outputOptions(outputOpts); 
+            const finalOutputOpts = mergeEncoderParams(outputOpts);
+            writeLog("[Info] Applying output options: " + JSON.stringify(finalOutputOpts));
+            command.outputOptions(finalOutputOpts); 
             
             // --- Output File --- 
             command.output(tempOutputPath);
@@ -589,6 +1326,12 @@ export async function startEncodingProcess(options: EncodingOptions): Promise<En
             command.on('start', (commandLine: string) => {
                 console.log(`[Encoding Process] Spawned Ffmpeg command: ${commandLine}`);
                 writeLog(`[FFMPEG Command] ${commandLine}`);
+                // A cancel sent while ffmpeg was spawning couldn't kill it yet
+                if (isCancelRequested()) {
+                    command.kill('SIGKILL');
+                    return;
+                }
+                if (jobId && keepLowPriority) setEncodingProcessPriority(jobId, true);
                 
                 // Send an immediate progress update to indicate the process has started
                 if (progressCallbackWrapper) {
@@ -598,15 +1341,16 @@ export async function startEncodingProcess(options: EncodingOptions): Promise<En
                     });
                     
                     // Set up a timer for regular progress updates even if ffmpeg is quiet
-                    let startTime = Date.now();
-                    let progressTimer = setInterval(() => {
+                    const startTime = Date.now();
+                    progressState.startTime = startTime;
+                    const progressTimer = setInterval(() => {
                         // If we haven't received any frames yet, calculate progress based on time
                         // This ensures progress is shown even if frame information is delayed
                         const elapsedSeconds = (Date.now() - startTime) / 1000;
                         
                         // Only send these fallback updates if we have duration and no frames have been reported yet
-                        if (videoDuration && !progressCallbackWrapper.lastFrameUpdate) {
-                            const estimatedPercent = Math.min(10, (elapsedSeconds / (videoDuration * 0.1)) * 100);
+                        if (progressState.duration && !progressCallbackWrapper.lastFrameUpdate) {
+                            const estimatedPercent = Math.min(10, (elapsedSeconds / (progressState.duration * 0.1)) * 100);
                             
                             progressCallbackWrapper({
                                 status: 'Processing...',
@@ -679,7 +1423,7 @@ export async function startEncodingProcess(options: EncodingOptions): Promise<En
                                 : undefined); // Use currentFps as fallback
                         
                         // Determine total frames, prioritize ffmpeg's report if available
-                        let currentTotalFrames = estimatedTotalFrames; // Start with the initial estimate
+                        let currentTotalFrames = progressState.totalFrames; // Start with the initial estimate
                         if (progress.frames_total && parseInt(String(progress.frames_total), 10) > 0) {
                             currentTotalFrames = parseInt(String(progress.frames_total), 10);
                             console.log(`[ffmpeg] Using total frames from ffmpeg progress: ${currentTotalFrames}`);
@@ -700,16 +1444,17 @@ export async function startEncodingProcess(options: EncodingOptions): Promise<En
                             }
                         }
                         
+                        const currentTime = progress.timemark ? convertTimemarkToSeconds(progress.timemark) : undefined;
+
                         // Ensure we always have some progress value even if calculation fails
                         if (percent === undefined && frame !== undefined && frame > 0) {
                             // Estimate progress based on time if we have time info
-                            if (progress.timemark && videoDuration) {
-                                const currentTime = convertTimemarkToSeconds(progress.timemark) || 0;
-                                const timeBasedPercent = Math.min(99.9, Math.max(0, (currentTime / videoDuration) * 100));
+                            if (currentTime !== undefined && progressState.duration) {
+                                const timeBasedPercent = Math.min(99.9, Math.max(0, (currentTime / progressState.duration) * 100));
                                 percent = Number(timeBasedPercent.toFixed(1));
-                                console.log(`[ffmpeg] Calculated percent from time: ${percent}% (${currentTime}s/${videoDuration}s)`);
-                                status = `Processing ${currentTime.toFixed(1)}s of ${videoDuration.toFixed(1)}s...`;
-                            } else if (frame > 10 && estimatedTotalFrames) {
+                                console.log(`[ffmpeg] Calculated percent from time: ${percent}% (${currentTime}s/${progressState.duration}s)`);
+                                status = `Processing ${currentTime.toFixed(1)}s of ${progressState.duration.toFixed(1)}s...`;
+                            } else if (frame > 10 && progressState.totalFrames) {
                                 // If we have no duration but have processed more than 10 frames, show at least some progress
                                 // This ensures user sees early feedback
                                 const estimatedPercent = Math.min(5, frame / 10); // Max 5% for first 50 frames as a fallback
@@ -727,12 +1472,23 @@ export async function startEncodingProcess(options: EncodingOptions): Promise<En
                             percent = 0.1; // Minimal indicator
                         }
                         
+                        const { speed, eta } = estimateSpeedAndEta(
+                            { ...progressState, totalFrames: currentTotalFrames },
+                            fps,
+                            frame,
+                            currentTime
+                        );
+                        const bitrate = progress.currentKbps > 0 ? Math.round(progress.currentKbps) : undefined;
+
                         // Create progress object to send to UI
                         const progressUpdate: EncodingProgress = {
                             percent, // Keep sending percent if available, UI might use it as fallback
                             fps,
                             frame,
                             totalFrames: currentTotalFrames, // Send the best available total frames count
+                            speed,
+                            bitrate,
+                            eta,
                             status,
                             jobId: options.jobId // Always include the job ID if present
                         };
@@ -749,6 +1505,11 @@ export async function startEncodingProcess(options: EncodingOptions): Promise<En
             });
 
             command.on('end', (stdout: string | null, stderr: string | null) => {
+                if (isCancelRequested()) {
+                    resolveCancelled();
+                    return;
+                }
+                if (jobId) activeEncodings.delete(jobId);
                 console.log(`[Encoding Process] Encoding completed successfully for: ${options.inputPath}`);
                 writeLog(`[Info] Encoding completed successfully for: ${options.inputPath}`);
                 
@@ -820,6 +1581,12 @@ export async function startEncodingProcess(options: EncodingOptions): Promise<En
             });
 
             command.on('error', (err: any) => {
+                if (isCancelRequested()) {
+                    resolveCancelled();
+                    return;
+                }
+                if (jobId) activeEncodings.delete(jobId);
+
                 console.error(`[Encoding Process] Error during encoding:`, err);
                 writeLog(`[Error] Encoding failed: ${err instanceof Error ? err.message : String(err)}`);
                 logStream?.end();
@@ -831,9 +1598,14 @@ export async function startEncodingProcess(options: EncodingOptions): Promise<En
                 });
             });
 
-            // Start encoding
+            // Start encoding, unless the job was cancelled while it was being prepared
+            if (isCancelRequested()) {
+                resolveCancelled();
+                return;
+            }
             command.run();
         } catch (error) {
+            if (jobId) activeEncodings.delete(jobId);
             console.error(`[Encoding Process] Error starting encoding:`, error);
             writeLog(`[Error] Encoding failed: ${error instanceof Error ? error.message : String(error)}`);
             logStream?.end();
@@ -845,4 +1617,123 @@ export async function startEncodingProcess(options: EncodingOptions): Promise<En
             });
         }
     });
-}
\ No newline at end of file
+
+    if (twoPass) {
+        encodeResult.finally(() => removePassLogs(passLogPrefix, writeLog));
+    }
+    return encodeResult;
+}
+// --- Quality Verification ---
+
+export type QualityMetric = 'vmaf' | 'ssim';
+
+export interface QualityMeasureOptions {
+    metric: QualityMetric;
+    durationSeconds?: number; // Source duration, needed for sampling
+    sampled?: boolean; // Score a few short segments instead of the whole file
+    writeLog?: (message: string) => void;
+    jobId?: string; // Registers the scoring ffmpeg like an encode so cancelEncodingProcess can stop it
+    isCancelled?: () => boolean; // Checked before each sample
+}
+
+// Sampled checks score this many segments of this length, spread across the file
+const QUALITY_SAMPLE_COUNT = 3;
+const QUALITY_SAMPLE_SECONDS = 10;
+
+/**
+ * Runs a single libvmaf/ssim comparison of the encoded file against its source
+ * over the given range (or the whole file) and returns the score.
+ */
+function runQualityComparison(
+    encodedPath: string,
+    sourcePath: string,
+    metric: QualityMetric,
+    writeLog: (message: string) => void,
+    range?: { start: number; length: number },
+    jobId?: string
+): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const rangeOptions = range ? ['-ss', range.start.toFixed(3), '-t', range.length.toString()] : [];
+        const metricFilter = metric === 'vmaf' ? 'libvmaf' : 'ssim';
+        // The encode may have been scaled, so bring it back to the source's size before comparing
+        const filterGraph = [
+            '[0:v]format=yuv420p,setpts=PTS-STARTPTS[enc]',
+            '[1:v]format=yuv420p,setpts=PTS-STARTPTS[src]',
+            '[enc][src]scale2ref=flags=bicubic[dist][ref]',
+            `[dist][ref]${metricFilter}`,
+        ].join(';');
+
+        let score: number | undefined;
+        const command = ffmpeg()
+            .input(encodedPath).inputOptions(rangeOptions)
+            .input(sourcePath).inputOptions(rangeOptions)
+            .complexFilter(filterGraph)
+            .outputOptions(['-an', '-sn', '-f', 'null'])
+            .output('-');
+
+        const unregister = () => {
+            if (jobId && activeEncodings.get(jobId)?.command === command) activeEncodings.delete(jobId);
+        };
+        if (jobId) {
+            activeEncodings.set(jobId, { command, tempOutputPath: encodedPath, writeLog, cancelRequested: false, paused: false, lowPriority: false });
+        }
+
+        command.on('start', (commandLine: string) => writeLog(`[Quality Command] ${commandLine}`));
+        command.on('stderr', (line: string) => {
+            const match = metric === 'vmaf'
+                ? line.match(/VMAF score[:=]\s*([\d.]+)/)
+                : line.match(/SSIM .*All:([\d.]+)/);
+            if (match) score = parseFloat(match[1]);
+        });
+        command.on('end', () => {
+            unregister();
+            if (score === undefined || isNaN(score)) {
+                reject(new Error(`ffmpeg finished without reporting a ${metric.toUpperCase()} score`));
+            } else {
+                resolve(score);
+            }
+        });
+        command.on('error', (err: Error) => {
+            const cancelled = jobId ? activeEncodings.get(jobId)?.cancelRequested : false;
+            unregister();
+            reject(cancelled ? new Error('Quality check cancelled') : err);
+        });
+        command.run();
+    });
+}
+
+/**
+ * Scores an encoded file against its source with VMAF (0-100) or SSIM (0-1).
+ * When sampling is requested and the duration is known, a few short segments
+ * are scored and averaged, which is much faster than a full pass.
+ * @param sourcePath The original file
+ * @param encodedPath The encoded file (usually the `_tmp` output)
+ */
+export async function measureQuality(sourcePath: string, encodedPath: string, options: QualityMeasureOptions): Promise<number> {
+    const writeLog = options.writeLog ?? (() => {});
+    const { metric, durationSeconds } = options;
+
+    const canSample = options.sampled && durationSeconds !== undefined && durationSeconds > QUALITY_SAMPLE_COUNT * QUALITY_SAMPLE_SECONDS * 2;
+    if (!canSample) {
+        writeLog(`[Info] Measuring ${metric.toUpperCase()} over the whole file`);
+        const score = await runQualityComparison(encodedPath, sourcePath, metric, writeLog, undefined, options.jobId);
+        writeLog(`[Info] ${metric.toUpperCase()} score: ${score}`);
+        return score;
+    }
+
+    const scores: number[] = [];
+    for (let i = 1; i <= QUALITY_SAMPLE_COUNT; i++) {
+        if (options.isCancelled?.()) {
+            throw new Error('Quality check cancelled');
+        }
+        const start = (durationSeconds * i) / (QUALITY_SAMPLE_COUNT + 1) - QUALITY_SAMPLE_SECONDS / 2;
+        writeLog(`[Info] Measuring ${metric.toUpperCase()} on sample ${i}/${QUALITY_SAMPLE_COUNT} at ${start.toFixed(1)}s`);
+        const score = await runQualityComparison(encodedPath, sourcePath, metric, writeLog, { start, length: QUALITY_SAMPLE_SECONDS }, options.jobId);
+        writeLog(`[Info] Sample ${i} ${metric.toUpperCase()} score: ${score}`);
+        scores.push(score);
+    }
+
+    const average = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    writeLog(`[Info] Average ${metric.toUpperCase()} score: ${average}`);
+    return average;
+}
@@ -1,6 +1,7 @@
 import ffprobeStatic from 'ffprobe-static';
 import { execFile } from 'child_process';
 import path from 'path';
+import type { ProbeData, HdrInfo, StreamInfo } from '../types.js';
 
 /**
  * Probes a media file to get detailed information about its streams and format
@@ -125,11 +126,124 @@ export async function probeFile(filePath: string): Promise<any | null> {
                     }
                 }
                 
-                resolve(probeData);
+                detectHdr(probeData, ffprobePath, filePath)
+                    .then(hdr => { probeData.hdr = hdr; })
+                    .catch(hdrError => console.warn(`[probeFile] HDR detection failed for ${filePath}:`, hdrError))
+                    .finally(() => resolve(probeData));
             } catch (parseError) {
                 console.error(`Error parsing ffprobe output for ${filePath}:`, parseError);
                 resolve(null);
             }
         });
     });
-} 
\ No newline at end of file
+} 
+
+type SideData = NonNullable<StreamInfo['side_data_list']>[number];
+
+/**
+ * Converts an ffprobe rational ("34000/50000") into integer units of 1/scale.
+ */
+function parseRational(value: string | number | undefined, scale: number): number | undefined {
+    if (value === undefined) return undefined;
+    const [num, den] = String(value).split('/').map(Number);
+    const result = den ? (num / den) * scale : num * scale;
+    return isFinite(result) ? Math.round(result) : undefined;
+}
+
+/**
+ * Builds x265's master-display string from mastering display side data.
+ * Chromaticity is in units of 0.00002 and luminance in 0.0001 cd/m².
+ */
+function getMasterDisplay(sideData: SideData): string | undefined {
+    const maxLuminance = parseRational(sideData.max_luminance, 10000);
+    const minLuminance = parseRational(sideData.min_luminance, 10000);
+    if (sideData.red_x === undefined || maxLuminance === undefined || minLuminance === undefined) return undefined;
+    const point = (x: string, y: string) => `(${parseRational(sideData[x], 50000)},${parseRational(sideData[y], 50000)})`;
+    return `G${point('green_x', 'green_y')}B${point('blue_x', 'blue_y')}R${point('red_x', 'red_y')}` +
+        `WP${point('white_point_x', 'white_point_y')}L(${maxLuminance},${minLuminance})`;
+}
+
+function applyHdrSideData(hdr: HdrInfo, sideDataList: SideData[] | undefined): void {
+    for (const sideData of sideDataList ?? []) {
+        const type = sideData.side_data_type ?? '';
+        if (type === 'Mastering display metadata' && !hdr.masterDisplay) {
+            hdr.masterDisplay = getMasterDisplay(sideData);
+        } else if (type === 'Content light level metadata' && !hdr.maxCll) {
+            hdr.maxCll = `${sideData.max_content ?? 0},${sideData.max_average ?? 0}`;
+        } else if (type === 'DOVI configuration record') {
+            hdr.dolbyVision = {
+                profile: Number(sideData.dv_profile),
+                level: sideData.dv_level !== undefined ? Number(sideData.dv_level) : undefined,
+                compatibilityId: sideData.dv_bl_signal_compatibility_id !== undefined ? Number(sideData.dv_bl_signal_compatibility_id) : undefined,
+            };
+        } else if (type.startsWith('HDR Dynamic Metadata SMPTE2094-40')) {
+            hdr.hdr10Plus = true;
+        }
+    }
+}
+
+/**
+ * Reads the side data of the first video frame. MKV and MP4 usually carry the
+ * mastering display metadata on the stream, but some remuxes only have it on frames.
+ */
+function probeFirstFrameSideData(ffprobePath: string, filePath: string): Promise<SideData[]> {
+    const args = [
+        '-v', 'error',
+        '-select_streams', 'v:0',
+        '-read_intervals', '%+#1',          // Only the first frame
+        '-show_entries', 'frame=side_data_list',
+        '-of', 'json',
+        '-i', filePath
+    ];
+    return new Promise((resolve) => {
+        execFile(ffprobePath, args, { timeout: 30000, maxBuffer: 1024 * 1024 }, (error, stdout) => {
+            if (error) return resolve([]);
+            try {
+                resolve(JSON.parse(stdout).frames?.[0]?.side_data_list ?? []);
+            } catch {
+                resolve([]);
+            }
+        });
+    });
+}
+
+/**
+ * Detects HDR10 (PQ), HLG and Dolby Vision video from the first video stream and
+ * collects the static metadata needed to carry HDR10 through a re-encode.
+ * @returns HDR details, or null for SDR sources
+ */
+async function detectHdr(probeData: ProbeData, ffprobePath: string, filePath: string): Promise<HdrInfo | null> {
+    const videoStream = probeData.streams?.find(s => s.codec_type === 'video');
+    if (!videoStream) {
+        return null;
+    }
+    const transfer = videoStream.color_transfer;
+    const hasDoviRecord = videoStream.side_data_list?.some(sd => sd.side_data_type === 'DOVI configuration record');
+    if (transfer !== 'smpte2084' && transfer !== 'arib-std-b67' && !hasDoviRecord) {
+        return null;
+    }
+
+    const hdr: HdrInfo = {
+        format: transfer === 'smpte2084' ? 'hdr10' : transfer === 'arib-std-b67' ? 'hlg' : 'dolby_vision',
+        colorPrimaries: videoStream.color_primaries,
+        colorTransfer: transfer,
+        colorSpace: videoStream.color_space,
+    };
+    applyHdrSideData(hdr, videoStream.side_data_list);
+    if (hdr.format === 'hdr10') {
+        // HDR10+ only lives on the frames, and some remuxes keep the mastering display there too
+        applyHdrSideData(hdr, await probeFirstFrameSideData(ffprobePath, filePath));
+    }
+    console.log(`[probeFile] Detected ${describeHdr(hdr)} video in ${filePath}`);
+    return hdr;
+}
+
+/**
+ * Short label for log and job messages, e.g. "Dolby Vision P8 + HDR10".
+ */
+export function describeHdr(hdr: HdrInfo): string {
+    const parts: string[] = [];
+    if (hdr.dolbyVision) parts.push(`Dolby Vision P${hdr.dolbyVision.profile}`);
+    if (hdr.format !== 'dolby_vision') parts.push(hdr.hdr10Plus ? 'HDR10+' : hdr.format.toUpperCase());
+    return parts.join(' + ');
+}
@@ -4,6 +4,7 @@ import * as path from 'path';
 import Database from 'better-sqlite3';
 import { WatchedFolder, SUPPORTED_EXTENSIONS, addMediaToDb, scanSingleFolder } from './scannerUtils.js';
 import { probeFile } from './ffprobeUtils.js';
+import { runFileAddedWorkflows } from './workflowExecutor.js';
 import * as fs from 'fs/promises';
 import fsSync from 'fs';
 
@@ -24,6 +25,11 @@ interface NetworkDriveStatus {
     error?: string;
 }
 
+// New files are handed to File Added workflows only once their size and modification
+// time stop changing, so a file that is still being copied or downloaded isn't picked up
+const FILE_STABLE_CHECK_INTERVAL_MS = 5000;
+const FILE_STABLE_MAX_WAIT_MS = 60 * 60 * 1000;
+
 // Class to manage file watching operations
 export class FileWatcher {
     private watcher: chokidar.FSWatcher | null = null;
@@ -38,6 +44,7 @@ export class FileWatcher {
     private networkDriveStatus: Map<string, NetworkDriveStatus> = new Map();
     private fileStatsCache: Map<string, FileStats> = new Map();
     private deepScanInProgress = false;
+    private pendingNewFiles: Set<string> = new Set(); // New files waiting to become stable
     
     constructor(db: Database.Database, mainWindow: BrowserWindow | null) {
         this.db = db;
@@ -435,6 +442,20 @@ export class FileWatcher {
                 );
                 
                 if (parentFolder) {
+                    // Writes to a file that is still settling are covered by its 'add' event
+                    if (this.pendingNewFiles.has(filePath)) {
+                        return;
+                    }
+                    if (eventType === 'add') {
+                        this.pendingNewFiles.add(filePath);
+                        try {
+                            const stableStats = await this.waitForStableFile(filePath);
+                            if (!stableStats) return;
+                            stats = stableStats;
+                        } finally {
+                            this.pendingNewFiles.delete(filePath);
+                        }
+                    }
                     if (!stats) {
                         try {
                             stats = await fs.stat(filePath);
@@ -474,6 +495,12 @@ export class FileWatcher {
                                 library: parentFolder.libraryName,
                                 timestamp: new Date().toISOString()
                             });
+
+                            if (eventType === 'add') {
+                                runFileAddedWorkflows(filePath, probeData, this.db, this.mainWindow).catch(error => {
+                                    console.error(`[FileWatcher] Error running File Added workflows for ${filePath}:`, error);
+                                });
+                            }
                         } else {
                             console.warn(`[FileWatcher] Probe failed for file: ${filePath}`);
                         }
@@ -494,6 +521,34 @@ export class FileWatcher {
         }
     }
 
+    /**
+     * Wait until a new file's size and modification time stop changing
+     * @returns The settled stats, or null if the file went away or never settled
+     */
+    private async waitForStableFile(filePath: string): Promise<fsSync.Stats | null> {
+        const startedAt = Date.now();
+        let previous: fsSync.Stats | null = null;
+
+        while (Date.now() - startedAt < FILE_STABLE_MAX_WAIT_MS) {
+            let current: fsSync.Stats;
+            try {
+                current = await fs.stat(filePath);
+            } catch {
+                console.log(`[FileWatcher] New file ${filePath} disappeared before it settled`);
+                return null;
+            }
+
+            if (previous && current.size === previous.size && current.mtimeMs === previous.mtimeMs) {
+                return current;
+            }
+            previous = current;
+            await new Promise(resolve => setTimeout(resolve, FILE_STABLE_CHECK_INTERVAL_MS));
+        }
+
+        console.warn(`[FileWatcher] New file ${filePath} was still changing after ${FILE_STABLE_MAX_WAIT_MS / 60000} minutes, skipping it`);
+        return null;
+    }
+
     /**
      * Process a file deletion
      */
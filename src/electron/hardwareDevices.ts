@@ -0,0 +1,137 @@
+import Database from 'better-sqlite3';
+import si from 'systeminformation';
+import type { HardwareInfo } from '../types.js';
+
+export type GpuVendor = 'intel' | 'nvidia' | 'amd';
+
+// A device a job is running on, as shown on its queue row
+export interface AssignedDevice {
+    id: number; // hardware_info row
+    type: 'CPU' | 'GPU';
+    index: number; // Position among GPUs of the same vendor, used for -gpu/-qsv_device/-hwaccel_device
+    vendor?: GpuVendor;
+    label: string;
+}
+
+// Which devices can run an encoder: a CPU, or a GPU from one of the vendors
+type DeviceRequirement = { type: 'CPU' } | { type: 'GPU'; vendors: GpuVendor[] };
+
+export type DevicePick =
+    | { kind: 'assigned'; device: AssignedDevice }
+    | { kind: 'busy' } // Matching devices exist but all are at their concurrency limit
+    | { kind: 'unmanaged' } // No matching device is recorded, so the job runs without one
+    | { kind: 'disabled'; reason: string };
+
+// CPU encodes use every core, so only one runs at a time by default
+const DEFAULT_CPU_CONCURRENT_JOBS = 1;
+const DEFAULT_GPU_CONCURRENT_JOBS = 2;
+
+export function getGpuVendor(vendor: string | null, model: string | null): GpuVendor | null {
+    const text = `${vendor ?? ''} ${model ?? ''}`.toLowerCase();
+    if (text.includes('intel')) return 'intel';
+    if (text.includes('nvidia')) return 'nvidia';
+    if (text.includes('amd') || text.includes('advanced micro devices') || text.includes('radeon') || text.includes('ati ')) return 'amd';
+    return null;
+}
+
+/**
+ * Detects the CPU and GPUs and records them in hardware_info. Existing rows keep
+ * the user's enabled flag, priority and concurrency limit.
+ */
+export async function refreshHardwareInfo(db: Database.Database): Promise<HardwareInfo[]> {
+    const [cpu, graphics] = await Promise.all([si.cpu(), si.graphics()]);
+    const upsert = db.prepare(`
+        INSERT INTO hardware_info (device_type, vendor, model, device_id, cores_threads, base_clock_mhz, memory_mb, max_concurrent_jobs)
+        VALUES (@device_type, @vendor, @model, @device_id, @cores_threads, @base_clock_mhz, @memory_mb, @max_concurrent_jobs)
+        ON CONFLICT(device_type, model, vendor, device_id) DO UPDATE SET
+            cores_threads = excluded.cores_threads,
+            base_clock_mhz = excluded.base_clock_mhz,
+            memory_mb = excluded.memory_mb,
+            last_updated = CURRENT_TIMESTAMP
+    `);
+
+    // Basic display adapters can't encode
+    const gpus = graphics.controllers.filter(gpu => !gpu.vendor?.includes('Microsoft'));
+    const vendorCounts = new Map<string, number>();
+
+    db.transaction(() => {
+        upsert.run({
+            device_type: 'CPU',
+            vendor: cpu.manufacturer || 'Unknown',
+            model: cpu.brand || 'CPU',
+            device_id: '0',
+            cores_threads: cpu.cores || null,
+            base_clock_mhz: cpu.speed ? Math.round(cpu.speed * 1000) : null,
+            memory_mb: null,
+            max_concurrent_jobs: DEFAULT_CPU_CONCURRENT_JOBS,
+        });
+        for (const gpu of gpus) {
+            const vendorKey = getGpuVendor(gpu.vendor, gpu.model) ?? gpu.vendor ?? 'unknown';
+            const index = vendorCounts.get(vendorKey) ?? 0;
+            vendorCounts.set(vendorKey, index + 1);
+            upsert.run({
+                device_type: 'GPU',
+                vendor: gpu.vendor || 'Unknown',
+                model: gpu.model || 'GPU',
+                device_id: String(index),
+                cores_threads: null,
+                base_clock_mhz: null,
+                memory_mb: gpu.vram ?? null,
+                max_concurrent_jobs: DEFAULT_GPU_CONCURRENT_JOBS,
+            });
+        }
+    })();
+
+    console.log(`[Hardware] Recorded CPU and ${gpus.length} GPU(s) in hardware_info`);
+    return getHardwareInfo(db);
+}
+
+export function getHardwareInfo(db: Database.Database): HardwareInfo[] {
+    return db.prepare('SELECT * FROM hardware_info ORDER BY device_type, priority DESC').all() as HardwareInfo[];
+}
+
+function getDeviceRequirement(videoCodec: string | undefined): DeviceRequirement {
+    if (videoCodec?.endsWith('_qsv')) return { type: 'GPU', vendors: ['intel'] };
+    if (videoCodec?.endsWith('_nvenc')) return { type: 'GPU', vendors: ['nvidia'] };
+    if (videoCodec?.endsWith('_amf')) return { type: 'GPU', vendors: ['amd'] };
+    if (videoCodec?.endsWith('_vaapi')) return { type: 'GPU', vendors: ['intel', 'amd'] };
+    // Software encoders and stream copies
+    return { type: 'CPU' };
+}
+
+function matchesRequirement(device: HardwareInfo, requirement: DeviceRequirement): boolean {
+    if (device.device_type !== requirement.type) return false;
+    if (requirement.type === 'CPU') return true;
+    const vendor = getGpuVendor(device.vendor, device.model);
+    return !!vendor && requirement.vendors.includes(vendor);
+}
+
+/**
+ * Picks the highest-priority enabled device that can run the encoder and still has
+ * room under its concurrency limit. load counts the running jobs per hardware_info id.
+ */
+export function pickDevice(devices: HardwareInfo[], videoCodec: string | undefined, load: Map<number, number>): DevicePick {
+    const requirement = getDeviceRequirement(videoCodec);
+    const candidates = devices
+        .filter(device => matchesRequirement(device, requirement))
+        .sort((a, b) => b.priority - a.priority);
+    if (candidates.length === 0) return { kind: 'unmanaged' };
+
+    const enabled = candidates.filter(device => device.is_enabled);
+    if (enabled.length === 0) {
+        return { kind: 'disabled', reason: `every ${requirement.type === 'CPU' ? 'CPU' : 'matching GPU'} for ${videoCodec} is disabled in hardware settings` };
+    }
+
+    const free = enabled.find(device => (load.get(device.id) ?? 0) < Math.max(1, device.max_concurrent_jobs ?? 1));
+    if (!free) return { kind: 'busy' };
+    return {
+        kind: 'assigned',
+        device: {
+            id: free.id,
+            type: free.device_type,
+            index: parseInt(free.device_id ?? '0', 10) || 0,
+            vendor: getGpuVendor(free.vendor, free.model) ?? undefined,
+            label: free.device_type === 'CPU' ? `CPU (${free.model})` : `GPU ${free.device_id ?? 0}: ${free.model}`,
+        },
+    };
+}
@@ -9,14 +9,19 @@ import { Node, Edge } from 'reactflow'; // For workflow types
 
 import { getStaticData } from "./test.js"; // Assuming this is still relevant
 import { probeFile } from './ffprobeUtils.js';
-import { startEncodingProcess } from './ffmpegUtils.js';
+import { startEncodingProcess, cancelEncodingProcess, pauseEncodingProcess, resumeEncodingProcess, listVaapiDevices } from './ffmpegUtils.js';
 import { WatchedFolder, scanMediaFolders, scanSingleFolder } from './scannerUtils.js';
 import { getLogBuffer } from './logger.js';
 import { getPresets, savePreset, deletePreset } from './presetDatabase.js';
 import { FileWatcher } from './fileWatcherUtils.js'; // For type if needed
 import TaskScheduler from './schedulerUtils.js'; // For type
-import { getDbInstance, updateMediaAfterEncoding as updateMediaDb } from './dbUtils.js'; // For DB operations
+import { getDbInstance, getEncodingHistory, encodingHistoryToCsv } from './dbUtils.js'; // For DB operations
+import { getEncodingQueue, finalizeEncodedFile, NewEncodingJob, QueueConfig } from './queueUtils.js';
 import { executeWorkflow } from './workflowExecutor.js'; // Import the workflow executor
+import { runPreviewEncode, discardPreview } from './previewUtils.js';
+import { probeEncoderCapabilities } from './encoderCapabilities.js';
+import { getHardwareInfo, refreshHardwareInfo } from './hardwareDevices.js';
+import type { PreviewEncodeRequest, SavingsEstimateFile, EncodingHistoryFilters } from '../types.js';
 
 // Types that might be shared or defined here if specific to IPC
 interface GpuInfo { vendor: string; model: string; memoryTotal: number | null };
@@ -145,10 +150,15 @@ export function registerAppIpcHandlers(
     ipcMainInstance.handle('force-rescan-all', async () => { if (fileWatcherRef.instance) { await fileWatcherRef.instance.forceRescan(); return { status: 'Force rescan of all watched folders triggered' }; } return { status: 'FileWatcher not available, rescan not triggered' }; });
     
     // Hardware Info
-    ipcMainInstance.handle('get-hardware-info', async () => getDbInstance().prepare('SELECT * FROM hardware_info ORDER BY device_type, priority DESC').all());
-    ipcMainInstance.handle('update-hardware-priority', async (_event, deviceId: number, priority: number) => getDbInstance().prepare('UPDATE hardware_info SET priority = ? WHERE id = ?').run(priority, deviceId));
-    ipcMainInstance.handle('update-hardware-enabled', async (_event, deviceId: number, isEnabled: boolean) => getDbInstance().prepare('UPDATE hardware_info SET is_enabled = ? WHERE id = ?').run(isEnabled, deviceId));
-    ipcMainInstance.handle('refresh-hardware-info', async () => getDbInstance().prepare('SELECT * FROM hardware_info ORDER BY device_type, priority DESC').all());
+    ipcMainInstance.handle('get-hardware-info', async () => getHardwareInfo(getDbInstance()));
+    // Device changes can free up slots, so let the dispatcher look again
+    ipcMainInstance.handle('update-hardware-priority', async (_event, deviceId: number, priority: number) => { getDbInstance().prepare('UPDATE hardware_info SET priority = ? WHERE id = ?').run(priority, deviceId); getEncodingQueue().ensureProcessing(); });
+    ipcMainInstance.handle('update-hardware-enabled', async (_event, deviceId: number, isEnabled: boolean) => { getDbInstance().prepare('UPDATE hardware_info SET is_enabled = ? WHERE id = ?').run(isEnabled ? 1 : 0, deviceId); getEncodingQueue().ensureProcessing(); });
+    ipcMainInstance.handle('update-hardware-max-jobs', async (_event, deviceId: number, maxJobs: number) => { getDbInstance().prepare('UPDATE hardware_info SET max_concurrent_jobs = ? WHERE id = ?').run(Math.max(1, Math.floor(maxJobs)), deviceId); getEncodingQueue().ensureProcessing(); });
+    ipcMainInstance.handle('refresh-hardware-info', async () => refreshHardwareInfo(getDbInstance()));
+    ipcMainInstance.handle('get-vaapi-devices', async () => listVaapiDevices());
+    ipcMainInstance.handle('get-encoder-capabilities', async () => probeEncoderCapabilities(getDbInstance()));
+    ipcMainInstance.handle('refresh-encoder-capabilities', async () => probeEncoderCapabilities(getDbInstance(), true));
 
     // FFprobe
     ipcMainInstance.handle('probe-file', async (_event, filePath: string) => { if (!filePath) { console.warn("Probe request no path."); return null; } try { await fs.access(filePath, fs.constants.R_OK); const data = await probeFile(filePath); console.log(`Probe successful: ${filePath}`); return data; } catch (e) { console.error(`Error probing ${filePath}:`, e); return null; } });
@@ -180,6 +190,27 @@ export function registerAppIpcHandlers(
         } catch (e) { console.error('Error in start-encoding-process:', e); return { success: false, error: e instanceof Error ? e.message : String(e), jobId: options.jobId }; }
     });
 
+    ipcMainInstance.handle('cancel-encoding', async (_event, jobId: string) => {
+        if (!jobId) { console.warn("cancel-encoding no Job ID."); return { success: false, error: 'Missing job ID' }; }
+        const result = cancelEncodingProcess(jobId);
+        if (result.success) mainWindowInstance?.webContents.send('encodingProgress', { jobId, status: 'Cancelling...' });
+        return result;
+    });
+
+    ipcMainInstance.handle('pause-encoding', async (_event, jobId: string) => {
+        if (!jobId) { console.warn("pause-encoding no Job ID."); return { success: false, error: 'Missing job ID' }; }
+        const result = pauseEncodingProcess(jobId);
+        if (result.success) mainWindowInstance?.webContents.send('encodingProgress', { jobId, status: 'Paused' });
+        return result;
+    });
+
+    ipcMainInstance.handle('resume-encoding', async (_event, jobId: string) => {
+        if (!jobId) { console.warn("resume-encoding no Job ID."); return { success: false, error: 'Missing job ID' }; }
+        const result = resumeEncodingProcess(jobId);
+        if (result.success) mainWindowInstance?.webContents.send('encodingProgress', { jobId, status: 'Resuming...' });
+        return result;
+    });
+
     ipcMainInstance.handle('get-encoding-log', async (_event, jobId: string) => {
         if (!jobId) { console.warn("get-encoding-log no Job ID."); return null; }
         const logFilePath = path.join(logDirInstance, `${jobId}.log`);
@@ -201,10 +232,39 @@ export function registerAppIpcHandlers(
     ipcMainInstance.handle('save-preset', async (_event, preset: any) => savePreset(getDbInstance(), preset));
     ipcMainInstance.handle('delete-preset', async (_event, id: string) => deletePreset(getDbInstance(), id));
 
-    // Queue Handlers
-    const queueDataPath = path.join(appGetPath('userData'), 'queue.json');
-    ipcMainInstance.handle('load-queue-data', async () => { try { await fs.access(queueDataPath, fs.constants.R_OK); const data = await fs.readFile(queueDataPath, 'utf-8'); return JSON.parse(data); } catch (e) { console.log(`Queue data file not found or error:`, e); return { jobs: [] }; } });
-    ipcMainInstance.handle('save-queue-data', async (_event, data) => { if (!data || typeof data !== 'object' || !Array.isArray(data.jobs)) { data = { jobs: [] }; console.warn("Invalid queue data, created empty.");} try { await fs.writeFile(queueDataPath, JSON.stringify(data, null, 2), 'utf-8'); return { success: true }; } catch (e) { console.error(`Error saving queue data:`, e); return { success: false, error: String(e) }; } });
+    // Queue Handlers (the queue itself lives in queueUtils.ts; the renderer mirrors it via 'queue-event')
+    ipcMainInstance.handle('queue:getState', async () => getEncodingQueue().getState());
+    ipcMainInstance.handle('queue:addJob', async (_event, job: NewEncodingJob) => getEncodingQueue().addJob(job));
+    ipcMainInstance.handle('queue:removeJob', async (_event, jobId: string) => getEncodingQueue().removeJob(jobId));
+    ipcMainInstance.handle('queue:cancelJob', async (_event, jobId: string) => getEncodingQueue().cancelJob(jobId));
+    ipcMainInstance.handle('queue:pauseJob', async (_event, jobId: string) => getEncodingQueue().pauseJob(jobId));
+    ipcMainInstance.handle('queue:resumeJob', async (_event, jobId: string) => getEncodingQueue().resumeJob(jobId));
+    ipcMainInstance.handle('queue:start', async () => getEncodingQueue().startProcessing());
+    ipcMainInstance.handle('queue:pause', async () => getEncodingQueue().pauseProcessing());
+    ipcMainInstance.handle('queue:ensureProcessing', async () => getEncodingQueue().ensureProcessing());
+    ipcMainInstance.handle('queue:clear', async () => getEncodingQueue().clearQueue());
+    ipcMainInstance.handle('queue:clearHistory', async () => getEncodingQueue().clearCompletedAndFailedJobs());
+    ipcMainInstance.handle('queue:updateConfig', async (_event, config: Partial<QueueConfig>) => getEncodingQueue().updateConfig(config));
+    ipcMainInstance.handle('queue:getRecoverySummary', async () => getEncodingQueue().takeRecoverySummary());
+    ipcMainInstance.handle('queue:estimateSavings', async (_event, presetId: string, files: SavingsEstimateFile[]) => getEncodingQueue().estimateSavings(presetId, files));
+
+    // Encoding History
+    ipcMainInstance.handle('history:get', async (_event, filters?: EncodingHistoryFilters) => getEncodingHistory(getDbInstance(), filters));
+    ipcMainInstance.handle('history:exportCsv', async (_event, filters?: EncodingHistoryFilters) => {
+        try {
+            if (!mainWindowInstance) throw new Error('Main window N/A');
+            const result = await dialog.showSaveDialog(mainWindowInstance, { defaultPath: `encoding-history-${new Date().toISOString().slice(0, 10)}.csv`, filters: [{ name: 'CSV Files', extensions: ['csv'] }] });
+            if (result.canceled || !result.filePath) return { success: false, canceled: true };
+            await fs.writeFile(result.filePath, encodingHistoryToCsv(getEncodingHistory(getDbInstance(), filters)), 'utf-8');
+            return { success: true, filePath: result.filePath };
+        } catch (e) { console.error(`Error exporting encoding history:`, e); return { success: false, error: String(e) }; }
+    });
+
+    // Preview Encodes (sampled segments, see previewUtils.ts)
+    ipcMainInstance.handle('preview:run', async (_event, request: PreviewEncodeRequest) => { try { return await runPreviewEncode(request, path.join(appGetPath('userData'), 'previews'), progress => { if (mainWindowInstance && !mainWindowInstance.isDestroyed()) mainWindowInstance.webContents.send('preview-progress', progress); }); } catch (e) { console.error(`Error running preview encode:`, e); return { success: false, error: String(e) }; } });
+    ipcMainInstance.handle('preview:discard', async () => discardPreview());
+    ipcMainInstance.handle('preview:openSegment', async (_event, filePath: string) => { const error = await shell.openPath(filePath); return error ? { success: false, error } : { success: true }; });
+
     ipcMainInstance.handle('get-file-size', async (_event, filePath) => { if (!filePath) { console.error("get-file-size no path"); return undefined; } try { await fs.access(filePath, fs.constants.R_OK); const stats = await fs.stat(filePath); if (!stats.isFile()) return undefined; return stats.size; } catch (e) { console.error(`Error getting file size ${filePath}:`, e); return undefined; } });
     ipcMainInstance.handle('start-encoding', async (_event, opts: EncodingOptions) => { try { return await startEncodingProcess(opts); } catch (e) { console.error(`Error starting encoding from queue:`, e); return { success: false, error: String(e), jobId: opts.jobId }; } });
     ipcMainInstance.handle('open-encoding-log', async (_event, jobId) => { try { const logFilePath = path.join(logDirInstance, `${jobId}.log`); await fs.access(logFilePath, fs.constants.R_OK); await shell.openPath(logFilePath); return { success: true }; } catch (e) { console.error(`Error opening log file for ${jobId}:`, e); return { success: false, error: String(e) }; } });
@@ -249,29 +309,7 @@ export function registerAppIpcHandlers(
     });
     ipcMainInstance.handle('delete-file', async (_event, filePath: string): Promise<boolean> => { try { if (fsSync.existsSync(filePath)) { await fs.unlink(filePath); return true; } return false; } catch (e) { console.error(`Error deleting ${filePath}:`, e); return false; } });
     
-    ipcMainInstance.handle('finalize-encoded-file', async (_event, params: { tempFilePath: string, finalFilePath: string, jobId: string, isOverwrite: boolean, originalFilePath?: string }) => {
-        console.log(`Finalizing: temp=${params.tempFilePath}, final=${params.finalFilePath}, job=${params.jobId}`);
-        try {
-            if (!params.tempFilePath || !params.finalFilePath) return { success: false, error: "Missing file paths" };
-            const tempStats = await fs.stat(params.tempFilePath);
-            if (!tempStats.isFile() || tempStats.size === 0) return { success: false, error: `Temp file invalid: ${params.tempFilePath}` };
-            const probeData = await probeFile(params.tempFilePath);
-            if (!probeData) return { success: false, error: "Failed to probe temp file" };
-            let success = false;
-            if (params.tempFilePath !== params.finalFilePath) {
-                // Using simplified move for now, ensure robust logic is in place if this is used
-                await fs.copyFile(params.tempFilePath, params.finalFilePath);
-                await fs.unlink(params.tempFilePath);
-                success = true;
-            } else success = true;
-            if (success && params.isOverwrite) {
-                const dbPathToUse = params.originalFilePath || params.finalFilePath;
-                try { await updateMediaDb(getDbInstance(), probeData, params.jobId, dbPathToUse); }
-                catch (dbError) { console.error(`DB update failed post-finalize:`, dbError); }
-            }
-            return { success: true, finalPath: params.finalFilePath, probeData, message: `Finalized: ${params.finalFilePath}` };
-        } catch (e) { console.error(`Error finalizing file:`, e); return { success: false, error: `Finalize error: ${e instanceof Error ? e.message : String(e)}` }; }
-    });
+    ipcMainInstance.handle('finalize-encoded-file', async (_event, params: { tempFilePath: string, finalFilePath: string, jobId: string, isOverwrite: boolean, originalFilePath?: string }) => finalizeEncodedFile(getDbInstance(), params));
 
     // File Watcher Status & Control
     ipcMainInstance.handle('get-file-watcher-status', async () => { if (!fileWatcherRef.instance) return { isActive: false, isReady: false, isScanning: false, lastScanTime: null, watchedFolders: storeInstance.get('watchedFolders', []) as WatchedFolder[], watchedFolderCount: 0, networkDriveStatus: [] }; const status = fileWatcherRef.instance.getWatcherStatus(); return { ...status, watchedFolders: storeInstance.get('watchedFolders', []) as WatchedFolder[] }; });
@@ -297,8 +335,8 @@ export function registerAppIpcHandlers(
             }
             const insertNode = currentDb.prepare('INSERT INTO workflow_nodes (workflow_id, node_id, node_type, label, description, position_x, position_y, data) VALUES (?, ?, ?, ?, ?, ?, ?, ?)');
             for (const node of nodes) insertNode.run(id, node.id, node.type || 'default', node.data?.label || '', node.data?.description || '', node.position.x, node.position.y, JSON.stringify(node.data || {}));
-            const insertEdge = currentDb.prepare('INSERT INTO workflow_edges (workflow_id, edge_id, source_node_id, target_node_id) VALUES (?, ?, ?, ?)');
-            for (const edge of edges) insertEdge.run(id, edge.id, edge.source, edge.target);
+            const insertEdge = currentDb.prepare('INSERT INTO workflow_edges (workflow_id, edge_id, source_node_id, target_node_id, source_handle) VALUES (?, ?, ?, ?, ?)');
+            for (const edge of edges) insertEdge.run(id, edge.id, edge.source, edge.target, edge.sourceHandle ?? null);
             return { success: true, id };
         })();
         
@@ -321,8 +359,8 @@ export function registerAppIpcHandlers(
         const workflow = currentDb.prepare('SELECT id, name, description, created_at, updated_at, is_active FROM workflows WHERE id = ?').get(workflowId);
         if (!workflow) return { id: workflowId, name: 'New Workflow', description: '', nodes: [], edges: [] };
         const nodes = currentDb.prepare('SELECT node_id, node_type, label, description, position_x, position_y, data FROM workflow_nodes WHERE workflow_id = ?').all(workflowId);
-        const edges = currentDb.prepare('SELECT edge_id, source_node_id, target_node_id FROM workflow_edges WHERE workflow_id = ?').all(workflowId);
-        return { ...workflow, nodes: nodes.map((n: any) => ({ id: n.node_id, type: n.node_type, position: { x: n.position_x, y: n.position_y }, data: JSON.parse(n.data) })), edges: edges.map((e: any) => ({ id: e.edge_id, source: e.source_node_id, target: e.target_node_id })) };
+        const edges = currentDb.prepare('SELECT edge_id, source_node_id, target_node_id, source_handle FROM workflow_edges WHERE workflow_id = ?').all(workflowId);
+        return { ...workflow, nodes: nodes.map((n: any) => ({ id: n.node_id, type: n.node_type, position: { x: n.position_x, y: n.position_y }, data: JSON.parse(n.data) })), edges: edges.map((e: any) => ({ id: e.edge_id, source: e.source_node_id, target: e.target_node_id, sourceHandle: e.source_handle || undefined })) };
     });
     ipcMainInstance.handle('delete-workflow', async (_event, workflowId: string) => {
         const currentDb = getDbInstance();
@@ -0,0 +1,41 @@
+import type { SystemStats } from '../types.js';
+
+// What happens to running encodes while the system stays overloaded
+export type LoadThrottleAction = 'renice' | 'pause';
+
+export interface LoadThrottle {
+    enabled: boolean;
+    cpuThreshold: number; // Percent; 0 ignores the resource
+    gpuThreshold: number;
+    memoryThreshold: number;
+    sustainedSeconds: number; // How long load must stay over (or under) the thresholds before running jobs are throttled (or released)
+    action: LoadThrottleAction;
+}
+
+export const DEFAULT_LOAD_THROTTLE: LoadThrottle = {
+    enabled: false,
+    cpuThreshold: 95,
+    gpuThreshold: 90,
+    memoryThreshold: 90,
+    sustainedSeconds: 60,
+    action: 'renice',
+};
+
+/**
+ * Describes the first resource over its threshold, e.g. "GPU load 92%", or null
+ * when the sample is within every limit. Missing readings never hold the queue.
+ */
+export function getLoadHoldReason(stats: SystemStats, throttle: LoadThrottle): string | null {
+    if (!throttle.enabled || stats.error) return null;
+    const checks: [string, number | null, number][] = [
+        ['CPU load', stats.cpuLoad, throttle.cpuThreshold],
+        ['GPU load', stats.gpuLoad, throttle.gpuThreshold],
+        ['Memory use', stats.memLoad, throttle.memoryThreshold],
+    ];
+    for (const [label, value, threshold] of checks) {
+        if (threshold > 0 && value !== null && value >= threshold) {
+            return `${label} ${Math.round(value)}%`;
+        }
+    }
+    return null;
+}
@@ -24,6 +24,11 @@ import TaskScheduler from './schedulerUtils.js';
 import { initializeDatabase, getDbInstance, registerDbIpcHandlers, updateMediaAfterEncoding as updateMediaDb } from './dbUtils.js';
 import { registerAppIpcHandlers } from './ipcHandlers.js';
 import { initializeSystemUtils, startSystemStatsPolling, stopSystemStatsPolling } from './systemUtils.js';
+import { initializeEncodingQueue } from './queueUtils.js';
+import { initializeWorkflowActions } from './workflowActions.js';
+import { registerPreviewScheme, registerPreviewProtocol } from './previewUtils.js';
+import { probeEncoderCapabilities } from './encoderCapabilities.js';
+import { refreshHardwareInfo } from './hardwareDevices.js';
 import type { GpuInfo, SystemStats, HardwareInfo, EncodingProgress, EncodingResult, EncodingOptions } from '../types.js'; // Import types
 
 // Local type definitions removed, now imported from ../types.js
@@ -108,8 +113,12 @@ function unwatchPath(folderPath: string) { if (fileWatcher) fileWatcher.unwatchP
 
 // runPsCommand, findGpu, getSystemStats, pollSystemStats, and systemStatsTimer are moved to systemUtils.ts
 
+// Custom schemes have to be registered before the app is ready
+registerPreviewScheme();
+
 app.on("ready", async () => {
     captureConsoleLogs();
+    registerPreviewProtocol();
     if (!dialog || typeof dialog.showMessageBox !== 'function') console.error("dialog API is not properly initialized!");
     else console.log("dialog API is available and properly initialized");
 
@@ -140,11 +149,21 @@ app.on("ready", async () => {
 
     try {
         initializeSystemUtils(store); // Initialize system utils with the store
+        initializeWorkflowActions(store);
 
         await initializeDatabase(name => app.getPath(name)); // Correctly pass app.getPath
         registerDbIpcHandlers(ipcMain);
         console.log("[Main Process] Database initialized and IPC handlers registered via dbUtils.");
 
+        // Record the CPU/GPUs, then find out which encoders actually work, in the background.
+        // Jobs are dispatched to the recorded devices and checked against the probe result.
+        refreshHardwareInfo(getDbInstance())
+            .catch(err => console.error('Failed to refresh hardware info:', err))
+            .finally(() => probeEncoderCapabilities(getDbInstance()).catch(err => console.error('Failed to probe encoder capabilities:', err)));
+
+        // Initialize the encoding queue before the renderer loads so it can fetch the queue state
+        await initializeEncodingQueue(getDbInstance(), mainWindow, path.join(app.getPath('userData'), 'queue.json'), logDir);
+
         // Initialize Task Scheduler
         taskScheduler = new TaskScheduler(getDbInstance(), mainWindow);
         await taskScheduler.initialize().catch(err => console.error('Failed to initialize task scheduler:', err));
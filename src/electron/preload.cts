@@ -8,9 +8,18 @@ import type {
     SystemStats, 
     GpuInfo, 
     HardwareInfo, 
+    EncoderCapabilities,
     // Workflow,  // Removed
     // WorkflowDetails,  // Removed
     StaticData,
+    EncodingJobData,
+    NewEncodingJobData,
+    QueueStateData,
+    QueueEventData,
+    QueueConfigData,
+    QueueRecoverySummaryData,
+    SavingsEstimateFile,
+    SavingsEstimate,
     // LogEntry // Add LogEntry if defined in types.d.ts - Removed
 } from "../types.js" assert { "resolution-mode": "import" }; 
 import { Node, Edge } from 'reactflow'; // Keep reactflow types if needed
@@ -76,6 +85,9 @@ interface EncodingProgress {
     elapsed?: number; // in seconds
     frame?: number;
     totalFrames?: number;
+    speed?: number;
+    bitrate?: number;
+    eta?: number;
     status?: string;
 }
 
@@ -96,6 +108,22 @@ interface EncodingOptions {
     mapVideo?: string; 
     mapAudio?: string; 
     audioOptions?: string[];
+    seekSeconds?: number;
+    rateControlMode?: 'quality' | 'average_bitrate' | 'capped_vbr' | 'target_size';
+    videoBitrateKbps?: number;
+    videoMaxBitrateKbps?: number;
+    videoBufferSizeKbps?: number;
+    colorPrimaries?: string;
+    colorTransfer?: string;
+    colorSpace?: string;
+    hdrMasterDisplay?: string;
+    hdrMaxCll?: string;
+    toneMapHdr?: boolean;
+    stripDynamicHdr?: boolean;
+    filmGrain?: number;
+    vaapiDevice?: string;
+    gpuIndex?: number;
+    gpuVendor?: 'intel' | 'nvidia' | 'amd';
     duration?: number; 
     progressCallback?: (progress: EncodingProgress) => void;
 }
@@ -108,6 +136,9 @@ interface EncodingResult {
     finalSizeMB?: number;
     reductionPercent?: number;
     jobId?: string;
+    cancelled?: boolean;
+    qualityMetric?: 'vmaf' | 'ssim';
+    qualityScore?: number;
 }
 
 interface DialogOptions {
@@ -180,7 +211,11 @@ type LocalElectronApi = {
     getHardwareInfo: () => Promise<HardwareInfo[]>;
     updateHardwarePriority: (deviceId: number, priority: number) => Promise<void>;
     updateHardwareEnabled: (deviceId: number, isEnabled: boolean) => Promise<void>;
+    updateHardwareMaxJobs: (deviceId: number, maxJobs: number) => Promise<void>;
     refreshHardwareInfo: () => Promise<HardwareInfo[]>;
+    getVaapiDevices: () => Promise<string[]>;
+    getEncoderCapabilities: () => Promise<EncoderCapabilities>;
+    refreshEncoderCapabilities: () => Promise<EncoderCapabilities>;
     
     // Add scheduler-related methods
     getAllScheduledTasks: () => Promise<any[]>;
@@ -217,6 +252,9 @@ type LocalElectronApi = {
     // --- Encoding Methods --- 
     probeFile: (filePath: string) => Promise<any>;
     startEncodingProcess: (options: EncodingOptions) => Promise<any>;
+    cancelEncoding: (jobId: string) => Promise<{ success: boolean; error?: string }>;
+    pauseEncoding: (jobId: string) => Promise<{ success: boolean; error?: string }>;
+    resumeEncoding: (jobId: string) => Promise<{ success: boolean; error?: string }>;
     getEncodingLog: (jobId: string) => Promise<string | null>;
     subscribeEncodingProgress: (callback: (data: { progress?: number; status?: string; fps?: number; elapsed?: number; frame?: number; totalFrames?: number, jobId?: string }) => void) => UnsubscribeFunction;
     unsubscribeEncodingProgress: () => void;
@@ -232,8 +270,27 @@ type LocalElectronApi = {
     showConfirmationDialog: (options: DialogOptions) => Promise<DialogResult>;
 
     // --- Queue Methods ---
-    loadQueueData: () => Promise<any>;
-    saveQueueData: (data: any) => Promise<{ success: boolean }>;
+    getQueueState: () => Promise<QueueStateData>;
+    addQueueJob: (job: NewEncodingJobData) => Promise<EncodingJobData>;
+    removeQueueJob: (jobId: string) => Promise<boolean>;
+    cancelQueueJob: (jobId: string) => Promise<boolean>;
+    pauseQueueJob: (jobId: string) => Promise<boolean>;
+    resumeQueueJob: (jobId: string) => Promise<boolean>;
+    startQueue: () => Promise<void>;
+    pauseQueue: () => Promise<void>;
+    ensureQueueProcessing: () => Promise<void>;
+    clearQueue: () => Promise<void>;
+    clearQueueHistory: () => Promise<void>;
+    updateQueueConfig: (config: Partial<QueueConfigData>) => Promise<void>;
+    getQueueRecoverySummary: () => Promise<QueueRecoverySummaryData | null>;
+    estimateQueueSavings: (presetId: string, files: SavingsEstimateFile[]) => Promise<SavingsEstimate>;
+    getEncodingHistory: (filters?: any) => Promise<any[]>;
+    exportEncodingHistoryCsv: (filters?: any) => Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }>;
+    runPreviewEncode: (request: any) => Promise<any>;
+    discardPreviewEncode: () => Promise<void>;
+    openPreviewSegment: (filePath: string) => Promise<{ success: boolean; error?: string }>;
+    subscribePreviewProgress: (callback: (progress: any) => void) => UnsubscribeFunction;
+    subscribeQueueEvents: (callback: (event: QueueEventData) => void) => UnsubscribeFunction;
     getFileSize: (filePath: string) => Promise<number | undefined>;
     startEncoding: (options: any) => Promise<any>;
     openEncodingLog: (jobId: string) => Promise<{ success: boolean; error?: string }>;
@@ -269,7 +326,11 @@ electron.contextBridge.exposeInMainWorld("electron", {
     getHardwareInfo: () => ipcInvoke("get-hardware-info"),
     updateHardwarePriority: (deviceId, priority) => ipcInvoke("update-hardware-priority", deviceId, priority),
     updateHardwareEnabled: (deviceId, isEnabled) => ipcInvoke("update-hardware-enabled", deviceId, isEnabled),
+    updateHardwareMaxJobs: (deviceId, maxJobs) => ipcInvoke("update-hardware-max-jobs", deviceId, maxJobs),
     refreshHardwareInfo: () => ipcInvoke("refresh-hardware-info"),
+    getVaapiDevices: () => ipcInvoke("get-vaapi-devices"),
+    getEncoderCapabilities: () => ipcInvoke("get-encoder-capabilities"),
+    refreshEncoderCapabilities: () => ipcInvoke("refresh-encoder-capabilities"),
     
     // Add scheduler-related methods
     getAllScheduledTasks: () => ipcInvoke('scheduler:getAllTasks'),
@@ -306,6 +367,9 @@ electron.contextBridge.exposeInMainWorld("electron", {
     // --- Implementations for New Methods ---
     probeFile: (filePath: string) => ipcInvoke('probe-file', filePath),
     startEncodingProcess: (options: EncodingOptions) => ipcInvoke('start-encoding-process', options), 
+    cancelEncoding: (jobId: string) => ipcInvoke('cancel-encoding', jobId),
+    pauseEncoding: (jobId: string) => ipcInvoke('pause-encoding', jobId),
+    resumeEncoding: (jobId: string) => ipcInvoke('resume-encoding', jobId),
     getEncodingLog: (jobId: string) => ipcInvoke('get-encoding-log', jobId),
     subscribeEncodingProgress: (callback: (data: { progress?: number; status?: string; fps?: number; elapsed?: number; frame?: number; totalFrames?: number }) => void) => {
         const listener = (_event: Electron.IpcRendererEvent, data: any) => {
@@ -335,8 +399,27 @@ electron.contextBridge.exposeInMainWorld("electron", {
     showConfirmationDialog: (options: DialogOptions) => ipcInvoke('show-confirmation-dialog', options),
 
     // --- Queue Methods ---
-    loadQueueData: () => ipcInvoke('load-queue-data'),
-    saveQueueData: (data) => ipcInvoke('save-queue-data', data),
+    getQueueState: () => ipcInvoke('queue:getState'),
+    addQueueJob: (job) => ipcInvoke('queue:addJob', job),
+    removeQueueJob: (jobId) => ipcInvoke('queue:removeJob', jobId),
+    cancelQueueJob: (jobId) => ipcInvoke('queue:cancelJob', jobId),
+    pauseQueueJob: (jobId) => ipcInvoke('queue:pauseJob', jobId),
+    resumeQueueJob: (jobId) => ipcInvoke('queue:resumeJob', jobId),
+    startQueue: () => ipcInvoke('queue:start'),
+    pauseQueue: () => ipcInvoke('queue:pause'),
+    ensureQueueProcessing: () => ipcInvoke('queue:ensureProcessing'),
+    clearQueue: () => ipcInvoke('queue:clear'),
+    clearQueueHistory: () => ipcInvoke('queue:clearHistory'),
+    updateQueueConfig: (config) => ipcInvoke('queue:updateConfig', config),
+    getQueueRecoverySummary: () => ipcInvoke('queue:getRecoverySummary'),
+    estimateQueueSavings: (presetId, files) => ipcInvoke('queue:estimateSavings', presetId, files),
+    getEncodingHistory: (filters) => ipcInvoke('history:get', filters),
+    exportEncodingHistoryCsv: (filters) => ipcInvoke('history:exportCsv', filters),
+    runPreviewEncode: (request) => ipcInvoke('preview:run', request),
+    discardPreviewEncode: () => ipcInvoke('preview:discard'),
+    openPreviewSegment: (filePath) => ipcInvoke('preview:openSegment', filePath),
+    subscribePreviewProgress: (callback) => ipcOn('preview-progress', callback),
+    subscribeQueueEvents: (callback) => ipcOn('queue-event', callback),
     getFileSize: (filePath) => ipcInvoke('get-file-size', filePath),
     startEncoding: (options) => ipcInvoke('start-encoding', options),
     openEncodingLog: (jobId) => ipcInvoke('open-encoding-log', jobId),
@@ -367,7 +450,7 @@ function ipcOn<T = any>(channel: string, callback: (payload: T) => void): Unsubs
 
 // --- Add EncodingPreset type locally if not imported ---
 // (Copied from Presets.tsx for preload context)
-const VIDEO_CODECS = ['hevc_qsv', 'h264_qsv', 'av1_qsv', 'libx265', 'libx264', 'copy'] as const;
+const VIDEO_CODECS = ['hevc_qsv', 'h264_qsv', 'av1_qsv', 'libx265', 'libx264', 'libsvtav1', 'libaom-av1', 'hevc_vaapi', 'h264_vaapi', 'av1_vaapi', 'hevc_amf', 'h264_amf', 'av1_amf', 'copy'] as const;
 type VideoCodec = typeof VIDEO_CODECS[number];
 const VIDEO_PRESETS = ['veryslow', 'slower', 'slow', 'medium', 'fast', 'faster', 'veryfast', 'ultrafast'] as const;
 type VideoPreset = typeof VIDEO_PRESETS[number];
@@ -377,7 +460,7 @@ const AUDIO_CODECS_CONVERT = ['libopus', 'aac', 'eac3'] as const;
 type AudioCodecConvert = typeof AUDIO_CODECS_CONVERT[number];
 const SUBTITLE_CODECS_CONVERT = ['srt', 'mov_text'] as const;
 type SubtitleCodecConvert = typeof SUBTITLE_CODECS_CONVERT[number];
-const HW_ACCEL_OPTIONS = ['auto', 'qsv', 'nvenc', 'cuda', 'none'] as const;
+const HW_ACCEL_OPTIONS = ['auto', 'qsv', 'nvenc', 'cuda', 'vaapi', 'none'] as const;
 type HwAccel = typeof HW_ACCEL_OPTIONS[number];
 const AUDIO_LAYOUT_OPTIONS = ['stereo', 'mono', 'surround5_1'] as const;
 type AudioLayout = typeof AUDIO_LAYOUT_OPTIONS[number];
@@ -9,6 +9,11 @@
 import Database from 'better-sqlite3';
 import { EncodingPreset } from '../types.js';
 
+// Boolean preset settings without a default, stored as INTEGER columns
+const OPTIONAL_BOOLEAN_FIELDS = ['verificationSampled', 'guardRequireAudioStreams', 'guardRequireSubtitleStreams'] as const;
+// Optional array settings, stored as JSON text
+const OPTIONAL_ARRAY_FIELDS = ['fallbackEncoders'] as const;
+
 /**
  * Get all presets from the database
  */
@@ -95,6 +100,23 @@ export const getPresets = async (db: Database.Database): Promise<EncodingPreset[
                 result.removeAllSubtitles = false;
             }
 
+            // Handle optional flags (stored as INTEGER in DB, convert to boolean)
+            OPTIONAL_BOOLEAN_FIELDS.forEach(field => {
+                if (typeof result[field] === 'number') {
+                    result[field] = Boolean(result[field]);
+                }
+            });
+
+            OPTIONAL_ARRAY_FIELDS.forEach(field => {
+                if (typeof result[field] !== 'string') return;
+                try {
+                    result[field] = JSON.parse(result[field]);
+                } catch (e) {
+                    console.error(`Error parsing ${field} for preset ${preset.id}:`, e);
+                    result[field] = undefined;
+                }
+            });
+
             // Clean up old fields from the result sent to UI
             delete result.preferredAudioLanguages;
             delete result.keepOriginalAudio;
@@ -127,6 +149,18 @@ export const savePreset = async (db: Database.Database, preset: any): Promise<En
     } else if (removeAllSubtitles === undefined || removeAllSubtitles === null) {
         processedSettings.removeAllSubtitles = 0; // Default to false (0)
     }
+
+    // SQLite can't bind booleans
+    OPTIONAL_BOOLEAN_FIELDS.forEach(field => {
+        if (typeof processedSettings[field] === 'boolean') {
+            processedSettings[field] = processedSettings[field] ? 1 : 0;
+        }
+    });
+    OPTIONAL_ARRAY_FIELDS.forEach(field => {
+        if (Array.isArray(processedSettings[field])) {
+            processedSettings[field] = JSON.stringify(processedSettings[field]);
+        }
+    });
     
     // Serialize array fields to JSON strings
     let serializedAudioOrder: string | null = null;
@@ -311,6 +345,32 @@ export const initializePresetTable = async (db: Database.Database): Promise<void
         if (!presetsColumns.includes('subtitleTypeOrder')) presetMigrations.push(`ALTER TABLE encoding_presets ADD COLUMN subtitleTypeOrder TEXT`);
         // Add migration for the removeAllSubtitles column
         if (!presetsColumns.includes('removeAllSubtitles')) presetMigrations.push(`ALTER TABLE encoding_presets ADD COLUMN removeAllSubtitles INTEGER`);
+        // Add migrations for the rate control columns
+        if (!presetsColumns.includes('rateControlMode')) presetMigrations.push(`ALTER TABLE encoding_presets ADD COLUMN rateControlMode TEXT`);
+        if (!presetsColumns.includes('videoBitrateKbps')) presetMigrations.push(`ALTER TABLE encoding_presets ADD COLUMN videoBitrateKbps INTEGER`);
+        if (!presetsColumns.includes('videoMaxBitrateKbps')) presetMigrations.push(`ALTER TABLE encoding_presets ADD COLUMN videoMaxBitrateKbps INTEGER`);
+        if (!presetsColumns.includes('videoBufferSizeKbps')) presetMigrations.push(`ALTER TABLE encoding_presets ADD COLUMN videoBufferSizeKbps INTEGER`);
+        if (!presetsColumns.includes('targetSizeMB')) presetMigrations.push(`ALTER TABLE encoding_presets ADD COLUMN targetSizeMB REAL`);
+        // Add migrations for the software AV1 columns
+        if (!presetsColumns.includes('av1Preset')) presetMigrations.push(`ALTER TABLE encoding_presets ADD COLUMN av1Preset INTEGER`);
+        if (!presetsColumns.includes('filmGrain')) presetMigrations.push(`ALTER TABLE encoding_presets ADD COLUMN filmGrain INTEGER`);
+        // Add migration for the VAAPI device column
+        if (!presetsColumns.includes('vaapiDevice')) presetMigrations.push(`ALTER TABLE encoding_presets ADD COLUMN vaapiDevice TEXT`);
+        // Add migrations for the HDR policy columns
+        if (!presetsColumns.includes('hdrPolicy')) presetMigrations.push(`ALTER TABLE encoding_presets ADD COLUMN hdrPolicy TEXT`);
+        if (!presetsColumns.includes('dynamicHdrPolicy')) presetMigrations.push(`ALTER TABLE encoding_presets ADD COLUMN dynamicHdrPolicy TEXT`);
+        // Add migrations for the quality verification columns
+        if (!presetsColumns.includes('verificationMetric')) presetMigrations.push(`ALTER TABLE encoding_presets ADD COLUMN verificationMetric TEXT`);
+        if (!presetsColumns.includes('verificationThreshold')) presetMigrations.push(`ALTER TABLE encoding_presets ADD COLUMN verificationThreshold REAL`);
+        if (!presetsColumns.includes('verificationSampled')) presetMigrations.push(`ALTER TABLE encoding_presets ADD COLUMN verificationSampled INTEGER`);
+        // Add migrations for the guard rule columns
+        if (!presetsColumns.includes('guardMinReductionPercent')) presetMigrations.push(`ALTER TABLE encoding_presets ADD COLUMN guardMinReductionPercent REAL`);
+        if (!presetsColumns.includes('guardMaxSizeRatio')) presetMigrations.push(`ALTER TABLE encoding_presets ADD COLUMN guardMaxSizeRatio REAL`);
+        if (!presetsColumns.includes('guardDurationToleranceSeconds')) presetMigrations.push(`ALTER TABLE encoding_presets ADD COLUMN guardDurationToleranceSeconds REAL`);
+        if (!presetsColumns.includes('guardRequireAudioStreams')) presetMigrations.push(`ALTER TABLE encoding_presets ADD COLUMN guardRequireAudioStreams INTEGER`);
+        if (!presetsColumns.includes('guardRequireSubtitleStreams')) presetMigrations.push(`ALTER TABLE encoding_presets ADD COLUMN guardRequireSubtitleStreams INTEGER`);
+        // Add migration for the encoder fallback chain column
+        if (!presetsColumns.includes('fallbackEncoders')) presetMigrations.push(`ALTER TABLE encoding_presets ADD COLUMN fallbackEncoders TEXT`);
 
         if (presetMigrations.length > 0) {
             console.log('Starting database migration transaction for encoding_presets table...');
@@ -0,0 +1,204 @@
+import { protocol, net } from 'electron';
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { pathToFileURL } from 'url';
+import type { PreviewEncodeRequest, PreviewEncodeResult, PreviewSegmentResult } from '../types.js';
+import { startEncodingProcess, cancelEncodingProcess, EncodingProgress } from './ffmpegUtils.js';
+import { buildEncodingOptions } from './encodingUtils.js';
+
+// Custom scheme used to stream preview files into <video> elements. Only
+// files registered by the current preview can be fetched through it.
+export const PREVIEW_SCHEME = 'recodarr-preview';
+
+const DEFAULT_SAMPLE_COUNT = 3;
+const DEFAULT_SAMPLE_SECONDS = 10;
+
+export interface PreviewProgress {
+    percent: number;
+    segmentIndex: number;
+    segmentCount: number;
+}
+
+interface ActivePreview {
+    id: string;
+    directory: string;
+    runningJobId?: string;
+    cancelled: boolean;
+}
+
+let activePreview: ActivePreview | null = null;
+// token -> absolute file path served by the preview protocol
+const servedFiles = new Map<string, string>();
+
+/**
+ * Registers the preview scheme as privileged. Must run before the app is ready.
+ */
+export function registerPreviewScheme(): void {
+    protocol.registerSchemesAsPrivileged([
+        { scheme: PREVIEW_SCHEME, privileges: { standard: true, secure: true, stream: true, supportFetchAPI: true } }
+    ]);
+}
+
+/**
+ * Serves registered preview files, forwarding Range headers so the renderer can seek.
+ */
+export function registerPreviewProtocol(): void {
+    protocol.handle(PREVIEW_SCHEME, (request) => {
+        const token = new URL(request.url).pathname.replace(/^\//, '');
+        const filePath = servedFiles.get(token);
+        if (!filePath) {
+            return new Response('Not found', { status: 404 });
+        }
+        return net.fetch(pathToFileURL(filePath).toString(), { headers: request.headers });
+    });
+}
+
+function serveFile(filePath: string): string {
+    const token = crypto.randomUUID();
+    servedFiles.set(token, filePath);
+    return `${PREVIEW_SCHEME}://media/${token}`;
+}
+
+/**
+ * Picks evenly spaced sample windows, skipping the very start and end of the file
+ * where intros and credits would skew the estimate.
+ */
+function pickSampleStarts(duration: number, count: number, length: number): number[] {
+    if (duration <= count * length) {
+        return [0];
+    }
+    const starts: number[] = [];
+    for (let i = 0; i < count; i++) {
+        const center = (duration * (i + 1)) / (count + 1);
+        starts.push(Math.max(0, Math.min(duration - length, center - length / 2)));
+    }
+    return starts;
+}
+
+/**
+ * Stops any running preview encode and removes its files.
+ */
+export async function discardPreview(): Promise<void> {
+    const preview = activePreview;
+    if (!preview) return;
+    activePreview = null;
+    preview.cancelled = true;
+    if (preview.runningJobId) {
+        cancelEncodingProcess(preview.runningJobId);
+    }
+    servedFiles.clear();
+    try {
+        await fs.rm(preview.directory, { recursive: true, force: true });
+    } catch (error) {
+        console.warn(`[Preview] Could not remove preview directory ${preview.directory}:`, error);
+    }
+}
+
+/**
+ * Encodes a few short segments of the input with the given preset and projects
+ * the full-file size from them. Only one preview exists at a time; starting a
+ * new one discards the previous preview's files.
+ */
+export async function runPreviewEncode(
+    request: PreviewEncodeRequest,
+    previewRoot: string,
+    onProgress: (progress: PreviewProgress) => void
+): Promise<PreviewEncodeResult> {
+    await discardPreview();
+    // Also clears samples left behind if the app quit while a preview was open
+    await fs.rm(previewRoot, { recursive: true, force: true });
+
+    const duration = parseFloat(String(request.probeData.format?.duration ?? ''));
+    if (!duration || !isFinite(duration)) {
+        return { success: false, error: 'Could not determine the duration of the input file.' };
+    }
+
+    let sourceSize: number;
+    try {
+        sourceSize = (await fs.stat(request.inputPath)).size;
+    } catch (error) {
+        return { success: false, error: `Input file not readable: ${error instanceof Error ? error.message : String(error)}` };
+    }
+
+    const preview: ActivePreview = {
+        id: crypto.randomUUID(),
+        directory: '',
+        cancelled: false,
+    };
+    preview.directory = path.join(previewRoot, preview.id);
+    activePreview = preview;
+    await fs.mkdir(preview.directory, { recursive: true });
+
+    const sampleSeconds = request.sampleSeconds || DEFAULT_SAMPLE_SECONDS;
+    const starts = pickSampleStarts(duration, request.sampleCount || DEFAULT_SAMPLE_COUNT, sampleSeconds);
+    const extension = path.extname(request.inputPath) || '.mkv';
+    const segments: PreviewSegmentResult[] = [];
+
+    for (let i = 0; i < starts.length; i++) {
+        const start = starts[i];
+        const length = Math.min(sampleSeconds, duration - start);
+        const segmentPath = path.join(preview.directory, `segment_${i + 1}${extension}`);
+        const jobId = `preview-${preview.id}-${i + 1}`;
+
+        const options = buildEncodingOptions(
+            request.inputPath,
+            segmentPath,
+            false,
+            request.probeData,
+            request.preset,
+            request.trackSelections.audio,
+            request.trackSelections.subtitle
+        );
+        preview.runningJobId = jobId;
+        const result = await startEncodingProcess({
+            ...options,
+            jobId,
+            seekSeconds: start,
+            duration: length,
+            progressCallback: (progress: EncodingProgress) => {
+                onProgress({
+                    percent: ((i + (progress.percent ?? 0) / 100) / starts.length) * 100,
+                    segmentIndex: i,
+                    segmentCount: starts.length,
+                });
+            },
+        });
+        preview.runningJobId = undefined;
+
+        if (preview.cancelled) {
+            return { success: false, cancelled: true, error: 'Preview was cancelled.' };
+        }
+        if (!result.success || !result.outputPath) {
+            await discardPreview();
+            return { success: false, error: result.error || `Encoding sample ${i + 1} failed.` };
+        }
+
+        await fs.rename(result.outputPath, segmentPath);
+        const encodedBytes = (await fs.stat(segmentPath)).size;
+        segments.push({
+            index: i + 1,
+            startSeconds: start,
+            durationSeconds: length,
+            sourceBytesEstimate: Math.round((sourceSize * length) / duration),
+            encodedBytes,
+            outputPath: segmentPath,
+            encodedUrl: serveFile(segmentPath),
+        });
+    }
+
+    const sampledSeconds = segments.reduce((sum, s) => sum + s.durationSeconds, 0);
+    const encodedBytes = segments.reduce((sum, s) => sum + s.encodedBytes, 0);
+    const projectedBytes = Math.round((encodedBytes / sampledSeconds) * duration);
+
+    onProgress({ percent: 100, segmentIndex: segments.length - 1, segmentCount: segments.length });
+
+    return {
+        success: true,
+        sourceBytes: sourceSize,
+        projectedBytes,
+        projectedReductionPercent: parseFloat((((sourceSize - projectedBytes) / sourceSize) * 100).toFixed(2)),
+        sourceUrl: serveFile(request.inputPath),
+        segments,
+    };
+}
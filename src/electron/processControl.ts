@@ -0,0 +1,76 @@
+import koffi from 'koffi';
+
+// Win32 access right required by NtSuspendProcess/NtResumeProcess
+const PROCESS_SUSPEND_RESUME = 0x0800;
+
+type NativeFunction = ReturnType<koffi.IKoffiLib['func']>;
+
+interface WindowsProcessApi {
+    OpenProcess: NativeFunction;
+    CloseHandle: NativeFunction;
+    NtSuspendProcess: NativeFunction;
+    NtResumeProcess: NativeFunction;
+}
+
+let windowsApi: WindowsProcessApi | null = null;
+
+/**
+ * Lazily binds the native Windows functions used to suspend and resume a process.
+ * Windows has no SIGSTOP/SIGCONT, so the (undocumented but stable) ntdll calls are used instead.
+ */
+function getWindowsApi(): WindowsProcessApi {
+    if (!windowsApi) {
+        const kernel32 = koffi.load('kernel32.dll');
+        const ntdll = koffi.load('ntdll.dll');
+        const HANDLE = koffi.pointer('HANDLE', koffi.opaque());
+
+        windowsApi = {
+            OpenProcess: kernel32.func('__stdcall', 'OpenProcess', HANDLE, ['uint32', 'int', 'uint32']),
+            CloseHandle: kernel32.func('__stdcall', 'CloseHandle', 'int', [HANDLE]),
+            NtSuspendProcess: ntdll.func('__stdcall', 'NtSuspendProcess', 'long', [HANDLE]),
+            NtResumeProcess: ntdll.func('__stdcall', 'NtResumeProcess', 'long', [HANDLE]),
+        };
+    }
+    return windowsApi;
+}
+
+function callWithProcessHandle(pid: number, fnName: 'NtSuspendProcess' | 'NtResumeProcess'): void {
+    const api = getWindowsApi();
+    const handle = api.OpenProcess(PROCESS_SUSPEND_RESUME, 0, pid);
+    if (!handle) {
+        throw new Error(`Unable to open process ${pid}`);
+    }
+
+    try {
+        const status = api[fnName](handle) as number;
+        if (status !== 0) {
+            throw new Error(`${fnName} failed for process ${pid} (NTSTATUS 0x${(status >>> 0).toString(16)})`);
+        }
+    } finally {
+        api.CloseHandle(handle);
+    }
+}
+
+/**
+ * Suspends a running process so it stops consuming CPU/GPU time until resumed.
+ * @param pid The process ID to suspend
+ */
+export function suspendProcess(pid: number): void {
+    if (process.platform === 'win32') {
+        callWithProcessHandle(pid, 'NtSuspendProcess');
+    } else {
+        process.kill(pid, 'SIGSTOP');
+    }
+}
+
+/**
+ * Resumes a process previously suspended with suspendProcess.
+ * @param pid The process ID to resume
+ */
+export function resumeProcess(pid: number): void {
+    if (process.platform === 'win32') {
+        callWithProcessHandle(pid, 'NtResumeProcess');
+    } else {
+        process.kill(pid, 'SIGCONT');
+    }
+}
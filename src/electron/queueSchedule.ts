@@ -0,0 +1,73 @@
+// Allowed encoding hours for one weekday. A window whose end is before its start runs
+// past midnight into the next day, e.g. 22 -> 7; equal start and end means all day.
+export interface DayWindow {
+    enabled: boolean;
+    startHour: number; // 0-23
+    endHour: number; // 0-24
+}
+
+export interface QueueSchedule {
+    enabled: boolean;
+    days: DayWindow[]; // Indexed like Date.getDay(): 0 is Sunday
+    outsideWindowMaxJobs: number; // Parallel jobs allowed outside the windows; 0 holds new jobs
+    pauseOutsideWindow: boolean; // Pause running jobs over that limit when a window closes
+}
+
+// Where the schedule stands right now, as shown on the Queue page and Dashboard
+export interface QueueWindowState {
+    enabled: boolean;
+    inWindow: boolean;
+    maxParallelJobs: number; // The limit processQueue applies right now
+    nextChangeAt: string | null; // When inWindow next flips, null if it never does
+}
+
+export const DEFAULT_QUEUE_SCHEDULE: QueueSchedule = {
+    enabled: false,
+    days: Array.from({ length: 7 }, () => ({ enabled: true, startHour: 22, endHour: 7 })),
+    outsideWindowMaxJobs: 0,
+    pauseOutsideWindow: false,
+};
+
+// Windows start and end on the hour, so checking each hour boundary finds every change
+const HOUR_MS = 60 * 60 * 1000;
+const LOOKAHEAD_HOURS = 8 * 24;
+
+export function isInWindow(schedule: QueueSchedule, date: Date): boolean {
+    if (!schedule.enabled) return true;
+    const hour = date.getHours() + date.getMinutes() / 60;
+    const today = schedule.days[date.getDay()];
+    const yesterday = schedule.days[(date.getDay() + 6) % 7];
+
+    if (yesterday?.enabled && yesterday.endHour < yesterday.startHour && hour < yesterday.endHour) return true;
+    if (!today?.enabled) return false;
+    if (today.startHour === today.endHour) return true; // All day
+    if (today.endHour < today.startHour) return hour >= today.startHour;
+    return hour >= today.startHour && hour < today.endHour;
+}
+
+/**
+ * Works out whether the queue is inside an encoding window and how many jobs
+ * it may run in parallel right now.
+ */
+export function getQueueWindowState(schedule: QueueSchedule, maxParallelJobs: number, now: Date = new Date()): QueueWindowState {
+    const inWindow = isInWindow(schedule, now);
+    let nextChangeAt: string | null = null;
+    if (schedule.enabled) {
+        const nextHour = new Date(now);
+        nextHour.setMinutes(0, 0, 0);
+        for (let i = 1; i <= LOOKAHEAD_HOURS; i++) {
+            const candidate = new Date(nextHour.getTime() + i * HOUR_MS);
+            if (isInWindow(schedule, candidate) !== inWindow) {
+                nextChangeAt = candidate.toISOString();
+                break;
+            }
+        }
+    }
+
+    return {
+        enabled: schedule.enabled,
+        inWindow,
+        maxParallelJobs: inWindow ? maxParallelJobs : Math.min(maxParallelJobs, Math.max(0, schedule.outsideWindowMaxJobs)),
+        nextChangeAt,
+    };
+}
@@ -0,0 +1,1427 @@
+import { BrowserWindow } from 'electron';
+import Database from 'better-sqlite3';
+import fs from 'fs/promises';
+import fsSync from 'fs';
+import path from 'path';
+import type { EncodingPreset, ProbeData, EncodingResult, SavingsEstimateFile, SavingsEstimate, SystemStats, EncodingJobData, EncodingJobStatus, NewEncodingJobData } from '../types.js';
+import { startEncodingProcess, cancelEncodingProcess, pauseEncodingProcess, resumeEncodingProcess, setEncodingProcessPriority, getTempOutputPath, measureQuality, EncodingProgress, QualityMetric } from './ffmpegUtils.js';
+import { probeFile, describeHdr } from './ffprobeUtils.js';
+import { updateMediaAfterEncoding, insertEncodingHistory, getEncodingHistory } from './dbUtils.js';
+import { buildEncodingOptions, TrackAction } from './encodingUtils.js';
+import { collectSavingsSamples, estimateSavings } from './savingsEstimator.js';
+import { getEncoderUnavailableReason } from './encoderCapabilities.js';
+import { getHardwareInfo, pickDevice } from './hardwareDevices.js';
+import { createFallbackPreset, getNextFallbackEncoder, isHardwareEncoder } from './encoderFallback.js';
+import { classifyError, getRetryDelaySeconds, DEFAULT_RETRY_POLICY, RetryPolicy } from './retryPolicy.js';
+import { getQueueWindowState, DEFAULT_QUEUE_SCHEDULE, QueueSchedule, QueueWindowState } from './queueSchedule.js';
+import { getLoadHoldReason, DEFAULT_LOAD_THROTTLE, LoadThrottle } from './loadThrottle.js';
+import { onSystemStats } from './systemUtils.js';
+
+// Minimum scores used when a preset enables verification without setting a threshold
+const DEFAULT_QUALITY_THRESHOLDS: Record<QualityMetric, number> = {
+    vmaf: 93,
+    ssim: 0.98,
+};
+
+// Jobs are shared with the renderer (see EncodingJobData in src/types.d.ts)
+export type JobStatus = EncodingJobStatus;
+export type EncodingJob = EncodingJobData;
+export type NewEncodingJob = NewEncodingJobData;
+
+// Queue configuration
+export interface QueueConfig {
+    maxParallelJobs: number;
+    autoStart: boolean;
+    recoverInterruptedJobs: boolean; // Re-queue jobs cut off by a crash/restart instead of failing them
+    retryPolicy: RetryPolicy;
+    schedule: QueueSchedule;
+    loadThrottle: LoadThrottle;
+}
+
+// What crash recovery did on the last startup, shown to the user once
+export interface QueueRecoverySummary {
+    requeuedJobIds: string[];
+    removedTempFiles: string[];
+    keptTempFiles: string[]; // Finished encodes of jobs interrupted while verifying, left for the user
+}
+
+// Snapshot handed to the renderer when it (re)connects
+export interface QueueState {
+    jobs: EncodingJob[];
+    config: QueueConfig;
+    isProcessing: boolean;
+    window: QueueWindowState;
+    loadHold: string | null;
+}
+
+// Events pushed to the renderer on the 'queue-event' channel
+export type QueueEvent =
+    | { type: 'jobAdded' | 'jobStarted' | 'jobProgress' | 'jobCompleted' | 'jobFailed' | 'jobCancelled' | 'jobPaused' | 'jobResumed'; job: EncodingJob }
+    | { type: 'jobRemoved'; jobId: string }
+    | { type: 'queueStarted' | 'queuePaused' | 'queueEmpty' }
+    | { type: 'jobsReplaced'; jobs: EncodingJob[] }
+    | { type: 'configChanged'; config: QueueConfig }
+    | { type: 'windowChanged'; window: QueueWindowState }
+    | { type: 'loadHoldChanged'; loadHold: string | null };
+
+interface FinalizeEncodedFileParams {
+    tempFilePath: string;
+    finalFilePath: string;
+    jobId: string;
+    isOverwrite: boolean;
+    originalFilePath?: string;
+}
+
+interface FinalizeEncodedFileResult {
+    success: boolean;
+    finalPath?: string;
+    probeData?: ProbeData;
+    message?: string;
+    error?: string;
+}
+
+/**
+ * Moves a finished encode from its temporary file to the final destination and,
+ * when the source file was overwritten, refreshes its media record.
+ */
+export async function finalizeEncodedFile(db: Database.Database, params: FinalizeEncodedFileParams): Promise<FinalizeEncodedFileResult> {
+    console.log(`Finalizing: temp=${params.tempFilePath}, final=${params.finalFilePath}, job=${params.jobId}`);
+    try {
+        if (!params.tempFilePath || !params.finalFilePath) return { success: false, error: "Missing file paths" };
+        const tempStats = await fs.stat(params.tempFilePath);
+        if (!tempStats.isFile() || tempStats.size === 0) return { success: false, error: `Temp file invalid: ${params.tempFilePath}` };
+        const probeData = await probeFile(params.tempFilePath);
+        if (!probeData) return { success: false, error: "Failed to probe temp file" };
+        if (params.tempFilePath !== params.finalFilePath) {
+            // Using simplified move for now, ensure robust logic is in place if this is used
+            await fs.copyFile(params.tempFilePath, params.finalFilePath);
+            await fs.unlink(params.tempFilePath);
+        }
+        if (params.isOverwrite) {
+            const dbPathToUse = params.originalFilePath || params.finalFilePath;
+            try { await updateMediaAfterEncoding(db, probeData, params.jobId, dbPathToUse); }
+            catch (dbError) { console.error(`DB update failed post-finalize:`, dbError); }
+        }
+        return { success: true, finalPath: params.finalFilePath, probeData, message: `Finalized: ${params.finalFilePath}` };
+    } catch (e) {
+        console.error(`Error finalizing file:`, e);
+        return { success: false, error: `Finalize error: ${e instanceof Error ? e.message : String(e)}` };
+    }
+}
+
+/**
+ * The encoding queue: owns job state, scheduling and persistence in the main
+ * process so encodes keep running across renderer reloads and while the window
+ * is hidden. The renderer mirrors its state through 'queue-event' messages.
+ */
+export class EncodingQueue {
+    private queue: EncodingJob[] = [];
+    private processing: Set<string> = new Set(); // Set of job IDs holding a parallel slot
+    private verificationCancels: Set<string> = new Set(); // Verifying jobs the user cancelled; handleJobCompletion discards their output
+    private config: QueueConfig = {
+        maxParallelJobs: 2, // Default to 2 parallel jobs
+        autoStart: true,
+        recoverInterruptedJobs: false,
+        retryPolicy: DEFAULT_RETRY_POLICY,
+        schedule: DEFAULT_QUEUE_SCHEDULE,
+        loadThrottle: DEFAULT_LOAD_THROTTLE
+    };
+    private isProcessing: boolean = false;
+    private saveTimeout: NodeJS.Timeout | null = null;
+    private retryTimer: NodeJS.Timeout | null = null;
+    private windowTimer: NodeJS.Timeout | null = null;
+    private windowState: QueueWindowState | null = null;
+    private loadHold: string | null = null; // Why new jobs are held back by system load, e.g. "GPU load 92%"
+    private loadPressureSince: number | null = null;
+    private loadCalmSince: number | null = null;
+    private recoverySummary: QueueRecoverySummary | null = null;
+    private jobWaiters: Map<string, ((job: EncodingJob | null) => void)[]> = new Map();
+
+    constructor(
+        private db: Database.Database,
+        private mainWindow: BrowserWindow | null,
+        private queueDataPath: string,
+        private logDir: string
+    ) {}
+
+    /**
+     * Load the saved queue and resume processing if autoStart is enabled
+     */
+    public async initialize(): Promise<void> {
+        try {
+            console.log('[Queue] Loading saved queue data');
+            const data = await fs.readFile(this.queueDataPath, 'utf-8').catch(() => null);
+            const savedData = data ? JSON.parse(data) : null;
+
+            if (savedData?.config) {
+                this.config = {
+                    ...this.config,
+                    ...savedData.config,
+                    retryPolicy: { ...DEFAULT_RETRY_POLICY, ...savedData.config.retryPolicy },
+                    schedule: { ...DEFAULT_QUEUE_SCHEDULE, ...savedData.config.schedule },
+                    loadThrottle: { ...DEFAULT_LOAD_THROTTLE, ...savedData.config.loadThrottle },
+                };
+                console.log('[Queue] Restored queue configuration', this.config);
+            }
+
+            if (savedData && Array.isArray(savedData.jobs)) {
+                this.queue = savedData.jobs.map((job: EncodingJob) => ({ ...job, addedAt: new Date(job.addedAt) }));
+                console.log(`[Queue] Restored ${this.queue.length} jobs (including historical)`);
+
+                // A job that was running when the app exited can't be picked back up where it left off
+                const interrupted = this.queue.filter(job => job.status === 'processing' || job.status === 'paused' || job.status === 'verifying');
+                if (interrupted.length > 0) {
+                    if (this.config.recoverInterruptedJobs) {
+                        await this.recoverInterruptedJobs(interrupted);
+                    } else {
+                        for (const job of interrupted) {
+                            console.warn(`[Queue] Job ${job.id} (was ${job.status}) marked as failed due to restart.`);
+                            job.status = 'failed';
+                            job.error = job.error ? `${job.error}; Job was interrupted due to application restart.` : 'Job was interrupted due to application restart.';
+                        }
+                    }
+                    this.saveQueueState();
+                }
+            }
+        } catch (error) {
+            console.error('[Queue] Error loading saved queue data:', error);
+        }
+
+        this.sortQueue();
+        this.applyQueueWindow();
+        onSystemStats(stats => this.handleSystemStats(stats));
+
+        if (this.config.autoStart && this.queue.some(job => job.status === 'queued')) {
+            console.log('[Queue] Auto-starting queue with restored jobs');
+            this.startProcessing();
+        }
+    }
+
+    /**
+     * Re-queue jobs interrupted by a crash or restart at their original priority.
+     * Partial `_tmp` outputs of jobs cut off mid-encode are deleted; a job cut off while
+     * verifying already has a complete encode in its temp file (and, when overwriting,
+     * may have been part-way through replacing the original), so it is failed instead
+     * and its temp file is left for the user to inspect.
+     */
+    private async recoverInterruptedJobs(jobs: EncodingJob[]): Promise<void> {
+        const summary: QueueRecoverySummary = { requeuedJobIds: [], removedTempFiles: [], keptTempFiles: [] };
+
+        for (const job of jobs) {
+            const finalTargetPath = job.overwriteInput ? job.inputPath : job.outputPath;
+            const tempPath = getTempOutputPath(finalTargetPath);
+            const tempExists = await fs.stat(tempPath).then(stats => stats.isFile()).catch(() => false);
+
+            if (job.status === 'verifying') {
+                job.status = 'failed';
+                job.error = tempExists
+                    ? `Job was interrupted while finalizing; the encoded file was kept at ${tempPath}`
+                    : 'Job was interrupted while finalizing; check the output file.';
+                if (tempExists) summary.keptTempFiles.push(tempPath);
+                console.warn(`[Queue] Job ${job.id} was interrupted while verifying; not re-queued.`);
+                continue;
+            }
+
+            // Never touch anything that isn't the job's own temp file
+            if (tempExists && tempPath !== job.inputPath && tempPath !== finalTargetPath) {
+                try {
+                    await fs.unlink(tempPath);
+                    summary.removedTempFiles.push(tempPath);
+                    console.log(`[Queue] Removed partial output ${tempPath} of interrupted job ${job.id}`);
+                } catch (error) {
+                    console.error(`[Queue] Could not remove partial output ${tempPath}:`, error);
+                }
+            }
+
+            job.status = 'queued';
+            job.progress = 0;
+            job.error = undefined;
+            job.fps = undefined;
+            job.frame = undefined;
+            job.speed = undefined;
+            job.bitrate = undefined;
+            job.eta = undefined;
+            // Whatever paused it is gone with the old process; leaving these set would let the
+            // schedule or load release later resume a pause the user made
+            job.pausedBySchedule = undefined;
+            job.pausedByLoad = undefined;
+            job.lowPriority = undefined;
+            job.nextRetryAt = undefined;
+            summary.requeuedJobIds.push(job.id);
+            console.log(`[Queue] Re-queued interrupted job ${job.id} at priority ${job.priority}`);
+        }
+
+        this.recoverySummary = summary;
+    }
+
+    /**
+     * Returns what crash recovery did at startup, once; later calls return null
+     */
+    public takeRecoverySummary(): QueueRecoverySummary | null {
+        const summary = this.recoverySummary;
+        this.recoverySummary = null;
+        return summary;
+    }
+
+    private emit(event: QueueEvent): void {
+        if (this.mainWindow && !this.mainWindow.isDestroyed()) {
+            this.mainWindow.webContents.send('queue-event', event);
+        }
+        this.notifyJobWaiters(event);
+    }
+
+    /**
+     * Resolves once a job completes, fails or is cancelled, after any retries and
+     * encoder fallbacks; null when the job is unknown or removed from the queue
+     */
+    public waitForJob(jobId: string): Promise<EncodingJob | null> {
+        const job = this.getJob(jobId);
+        if (!job) return Promise.resolve(null);
+        if (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') return Promise.resolve(job);
+        return new Promise(resolve => {
+            this.jobWaiters.set(jobId, [...(this.jobWaiters.get(jobId) ?? []), resolve]);
+        });
+    }
+
+    private notifyJobWaiters(event: QueueEvent): void {
+        if (this.jobWaiters.size === 0) return;
+        const resolveWaiters = (jobId: string, job: EncodingJob | null) => {
+            this.jobWaiters.get(jobId)?.forEach(resolve => resolve(job));
+            this.jobWaiters.delete(jobId);
+        };
+
+        if (event.type === 'jobCompleted' || event.type === 'jobFailed' || event.type === 'jobCancelled') {
+            resolveWaiters(event.job.id, event.job);
+        } else if (event.type === 'jobRemoved') {
+            resolveWaiters(event.jobId, null);
+        } else if (event.type === 'jobsReplaced') {
+            [...this.jobWaiters.keys()].filter(jobId => !this.getJob(jobId)).forEach(jobId => resolveWaiters(jobId, null));
+        }
+    }
+
+    /**
+     * Save the current queue state (all jobs, for history) to disk
+     */
+    private async saveQueueState(): Promise<void> {
+        if (this.saveTimeout) {
+            clearTimeout(this.saveTimeout);
+            this.saveTimeout = null;
+        }
+        try {
+            const dataToSave = {
+                jobs: this.queue,
+                config: this.config,
+                savedAt: new Date().toISOString()
+            };
+            await fs.writeFile(this.queueDataPath, JSON.stringify(dataToSave, null, 2), 'utf-8');
+        } catch (error) {
+            console.error('[Queue] Error saving queue state:', error);
+        }
+    }
+
+    // Progress updates arrive several times a second; batch their saves
+    private debouncedSaveState(): void {
+        if (this.saveTimeout) clearTimeout(this.saveTimeout);
+        this.saveTimeout = setTimeout(() => {
+            this.saveTimeout = null;
+            this.saveQueueState();
+        }, 2000);
+    }
+
+    public getState(): QueueState {
+        return { jobs: this.getAllJobs(), config: this.getConfig(), isProcessing: this.isProcessing, window: this.getWindowState(), loadHold: this.loadHold };
+    }
+
+    public getConfig(): QueueConfig {
+        return { ...this.config };
+    }
+
+    /**
+     * Update queue configuration
+     */
+    public updateConfig(config: Partial<QueueConfig>): void {
+        this.config = {
+            ...this.config,
+            ...config,
+            retryPolicy: { ...this.config.retryPolicy, ...config.retryPolicy },
+            schedule: { ...this.config.schedule, ...config.schedule },
+            loadThrottle: { ...this.config.loadThrottle, ...config.loadThrottle },
+        };
+        this.saveQueueState();
+        this.emit({ type: 'configChanged', config: this.getConfig() });
+
+        // The parallel limit or encoding windows may have changed
+        this.processQueue();
+    }
+
+    private getWindowState(): QueueWindowState {
+        return getQueueWindowState(this.config.schedule, this.config.maxParallelJobs);
+    }
+
+    /**
+     * Apply the encoding windows: pause running jobs over the current limit when the
+     * schedule asks for it, resume the ones it paused once there is room again, and
+     * wake up again when the window next opens or closes
+     */
+    private applyQueueWindow(): void {
+        const state = this.getWindowState();
+        const previous = this.windowState;
+        this.windowState = state;
+        if (!previous || previous.inWindow !== state.inWindow || previous.maxParallelJobs !== state.maxParallelJobs
+            || previous.enabled !== state.enabled || previous.nextChangeAt !== state.nextChangeAt) {
+            if (previous && previous.inWindow !== state.inWindow) {
+                console.log(`[Queue] Encoding window ${state.inWindow ? 'opened' : 'closed'}, allowing ${state.maxParallelJobs} parallel job(s)`);
+            }
+            this.emit({ type: 'windowChanged', window: state });
+        }
+
+        const running = this.queue
+            .filter(job => job.status === 'processing')
+            .sort((a, b) => (b.processingStartTime ?? '').localeCompare(a.processingStartTime ?? ''));
+        if (this.config.schedule.pauseOutsideWindow && running.length > state.maxParallelJobs) {
+            // Newest first, so the jobs closest to finishing keep going
+            for (const job of running.slice(0, running.length - state.maxParallelJobs)) {
+                if (this.pauseJob(job.id)) job.pausedBySchedule = true;
+            }
+        } else {
+            let room = this.config.schedule.pauseOutsideWindow ? state.maxParallelJobs - running.length : Infinity;
+            for (const job of this.queue.filter(job => job.status === 'paused' && job.pausedBySchedule)) {
+                if (room <= 0) break;
+                if (this.resumeJob(job.id)) room--;
+            }
+        }
+
+        if (this.windowTimer) clearTimeout(this.windowTimer);
+        this.windowTimer = null;
+        if (state.nextChangeAt) {
+            this.windowTimer = setTimeout(() => {
+                this.windowTimer = null;
+                this.processQueue();
+            }, Math.max(0, new Date(state.nextChangeAt).getTime() - Date.now()));
+        }
+    }
+
+    /**
+     * Hold new jobs while a system stats sample is over the load thresholds, and once
+     * the load has stayed high for the configured time throttle running jobs one step
+     * further each period (renicing them, or pausing the newest). Steps are undone the
+     * same way once the load has stayed under the thresholds for as long.
+     */
+    private handleSystemStats(stats: SystemStats): void {
+        const throttle = this.config.loadThrottle;
+        const reason = getLoadHoldReason(stats, throttle);
+        const wasHeld = this.loadHold !== null;
+        if (reason !== this.loadHold) {
+            this.loadHold = reason;
+            this.emit({ type: 'loadHoldChanged', loadHold: reason });
+        }
+
+        const now = Date.now();
+        if (reason) {
+            this.loadCalmSince = null;
+            this.loadPressureSince ??= now;
+        } else {
+            this.loadPressureSince = null;
+            this.loadCalmSince ??= now;
+        }
+
+        const sustainedMs = Math.max(0, throttle.sustainedSeconds) * 1000;
+        if (!throttle.enabled) {
+            this.releaseLoadThrottle(true);
+        } else if (this.loadPressureSince !== null && now - this.loadPressureSince >= sustainedMs) {
+            console.log(`[Queue] Sustained high system load (${reason}), throttling running jobs`);
+            this.applyLoadThrottle(throttle);
+            this.loadPressureSince = now;
+        } else if (this.loadCalmSince !== null && now - this.loadCalmSince >= sustainedMs) {
+            this.releaseLoadThrottle(false);
+            this.loadCalmSince = now;
+        }
+
+        if (wasHeld && !reason) {
+            this.processQueue();
+        }
+    }
+
+    private applyLoadThrottle(throttle: LoadThrottle): void {
+        const running = this.queue.filter(job => job.status === 'processing');
+        if (throttle.action === 'renice') {
+            for (const job of running.filter(job => !job.lowPriority)) {
+                if (setEncodingProcessPriority(job.id, true).success) {
+                    job.lowPriority = true;
+                    this.emit({ type: 'jobProgress', job });
+                }
+            }
+            return;
+        }
+
+        // Newest first, so the jobs closest to finishing keep going
+        const newest = running.sort((a, b) => (b.processingStartTime ?? '').localeCompare(a.processingStartTime ?? ''))[0];
+        if (newest && this.pauseJob(newest.id, 'because of high system load')) {
+            newest.pausedByLoad = true;
+            this.saveQueueState();
+        }
+    }
+
+    /**
+     * Undo load throttling: resume one load-paused job (or all of them when releasing
+     * everything), then restore the priority of reniced jobs once none are left paused
+     */
+    private releaseLoadThrottle(all: boolean): void {
+        const paused = this.queue.filter(job => job.status === 'paused' && job.pausedByLoad);
+        for (const job of all ? paused : paused.slice(0, 1)) {
+            this.resumeJob(job.id, 'now that system load has eased');
+        }
+        if (!all && paused.length > 0) return;
+
+        for (const job of this.queue.filter(job => job.lowPriority && job.status === 'processing')) {
+            setEncodingProcessPriority(job.id, false);
+            // Restoring may be refused by the OS; either way the throttle is off
+            job.lowPriority = undefined;
+            this.emit({ type: 'jobProgress', job });
+        }
+    }
+
+    /**
+     * Predict sizes and encode times for files from the preset's completed jobs
+     */
+    public estimateSavings(presetId: string, files: SavingsEstimateFile[]): SavingsEstimate {
+        const history = getEncodingHistory(this.db, { status: 'completed', presetId });
+        return estimateSavings(collectSavingsSamples(history), presetId, files);
+    }
+
+    public getAllJobs(): EncodingJob[] {
+        return [...this.queue];
+    }
+
+    public getJob(jobId: string): EncodingJob | undefined {
+        return this.queue.find(job => job.id === jobId);
+    }
+
+    /**
+     * Add a job to the encoding queue
+     */
+    public addJob(newJob: NewEncodingJob): EncodingJob {
+        const id = newJob.id || `job_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+        if (this.getJob(id)) {
+            console.warn(`[Queue] Job ${id} is already queued, ignoring duplicate add`);
+            return this.getJob(id)!;
+        }
+
+        const unavailableReason = getEncoderUnavailableReason(newJob.preset?.videoCodec);
+        if (unavailableReason) {
+            throw new Error(`Preset "${newJob.preset?.name}" uses ${newJob.preset?.videoCodec}, which is not available: ${unavailableReason}`);
+        }
+
+        const job: EncodingJob = {
+            id,
+            inputPath: newJob.inputPath,
+            outputPath: newJob.outputPath,
+            overwriteInput: newJob.overwriteInput,
+            preset: newJob.preset,
+            probeData: newJob.probeData,
+            trackSelections: newJob.trackSelections,
+            status: 'queued',
+            progress: 0,
+            priority: newJob.priority ?? 0,
+            addedAt: new Date(),
+            mediaId: newJob.mediaId
+        };
+
+        this.queue.push(job);
+        this.sortQueue();
+        this.saveQueueState();
+        this.emit({ type: 'jobAdded', job });
+
+        if (this.config.autoStart) {
+            console.log(`[Queue] Auto-starting queue after adding job ${id}`);
+            this.startProcessing();
+        }
+
+        return job;
+    }
+
+    /**
+     * Remove a job from the queue, stopping its encode if it is running
+     */
+    public removeJob(jobId: string): boolean {
+        const jobIndex = this.queue.findIndex(job => job.id === jobId);
+        if (jobIndex === -1) {
+            return false;
+        }
+
+        const job = this.queue[jobIndex];
+        if (job.status === 'processing' || job.status === 'paused') {
+            cancelEncodingProcess(jobId);
+            this.processing.delete(jobId);
+        }
+
+        this.queue.splice(jobIndex, 1);
+        this.saveQueueState();
+        this.emit({ type: 'jobRemoved', jobId });
+
+        if (this.isProcessing) {
+            this.processQueue();
+        }
+        return true;
+    }
+
+    /**
+     * Cancel a job, keeping it in the history with the 'cancelled' status
+     * Running jobs have their ffmpeg process killed; the final state change
+     * happens in handleJobCompletion once the encoding result comes back
+     */
+    public cancelJob(jobId: string): boolean {
+        const job = this.getJob(jobId);
+        if (!job) {
+            console.warn(`[Queue] Cannot cancel job ${jobId} - not found in queue`);
+            return false;
+        }
+
+        if (job.status === 'processing' || job.status === 'paused') {
+            console.log(`[Queue] Requesting cancellation of ${job.status} job ${jobId}`);
+            const result = cancelEncodingProcess(jobId);
+            if (result.success) {
+                return true;
+            }
+            // No running process - fall through and cancel directly
+            console.warn(`[Queue] Could not stop ffmpeg for job ${jobId}: ${result.error}`);
+        } else if (job.status === 'verifying') {
+            // The encode is done; stop any quality pass and let handleJobCompletion discard the output
+            console.log(`[Queue] Requesting cancellation of verifying job ${jobId}`);
+            this.verificationCancels.add(jobId);
+            cancelEncodingProcess(jobId);
+            return true;
+        } else if (job.status !== 'queued') {
+            console.warn(`[Queue] Cannot cancel job ${jobId} - status is ${job.status}`);
+            return false;
+        }
+
+        this.markJobCancelled(job, 'Cancelled by user');
+        return true;
+    }
+
+    /**
+     * Pause a processing job by suspending its ffmpeg process
+     * The job keeps its parallel slot while paused, since the suspended
+     * process still holds its memory and any hardware encoder session
+     */
+    public pauseJob(jobId: string, reason?: string): boolean {
+        const job = this.getJob(jobId);
+        if (!job || job.status !== 'processing') {
+            console.warn(`[Queue] Cannot pause job ${jobId} - ${job ? `status is ${job.status}` : 'not found in queue'}`);
+            return false;
+        }
+
+        const result = pauseEncodingProcess(jobId, reason);
+        if (!result.success) {
+            console.warn(`[Queue] Could not pause job ${jobId}: ${result.error}`);
+            return false;
+        }
+
+        console.log(`[Queue] Paused job ${jobId}`);
+        job.status = 'paused';
+        this.saveQueueState();
+        this.emit({ type: 'jobPaused', job });
+        return true;
+    }
+
+    /**
+     * Resume a paused job by continuing its ffmpeg process
+     */
+    public resumeJob(jobId: string, reason?: string): boolean {
+        const job = this.getJob(jobId);
+        if (!job || job.status !== 'paused') {
+            console.warn(`[Queue] Cannot resume job ${jobId} - ${job ? `status is ${job.status}` : 'not found in queue'}`);
+            return false;
+        }
+
+        const result = resumeEncodingProcess(jobId, reason);
+        if (!result.success) {
+            console.warn(`[Queue] Could not resume job ${jobId}: ${result.error}`);
+            return false;
+        }
+
+        console.log(`[Queue] Resumed job ${jobId}`);
+        job.status = 'processing';
+        job.pausedBySchedule = undefined;
+        job.pausedByLoad = undefined;
+        this.saveQueueState();
+        this.emit({ type: 'jobResumed', job });
+        return true;
+    }
+
+    /**
+     * Start processing the queue
+     */
+    public startProcessing(): void {
+        if (!this.isProcessing) {
+            console.log('[Queue] Starting queue processing');
+            this.isProcessing = true;
+            this.emit({ type: 'queueStarted' });
+        }
+        this.processQueue();
+    }
+
+    /**
+     * Pause processing the queue
+     * This doesn't stop currently processing jobs, but prevents new ones from starting
+     */
+    public pauseProcessing(): void {
+        this.isProcessing = false;
+        this.emit({ type: 'queuePaused' });
+    }
+
+    /**
+     * Make sure the queue is running (unless autoStart is disabled) and pick up queued jobs
+     */
+    public ensureProcessing(): void {
+        if (!this.config.autoStart) {
+            console.log('[Queue] Queue autoStart is disabled, not starting');
+            return;
+        }
+        this.startProcessing();
+    }
+
+    /**
+     * Clear all queued jobs that aren't currently running
+     */
+    public clearQueue(): void {
+        this.queue = this.queue.filter(job => job.status === 'processing' || job.status === 'paused');
+        this.saveQueueState();
+        this.emit({ type: 'jobsReplaced', jobs: this.getAllJobs() });
+
+        if (this.queue.length === 0) {
+            this.emit({ type: 'queueEmpty' });
+        }
+    }
+
+    /**
+     * Clear all completed, failed, and cancelled jobs from the queue
+     */
+    public clearCompletedAndFailedJobs(): void {
+        const initialCount = this.queue.length;
+        this.queue = this.queue.filter(job =>
+            job.status === 'queued' ||
+            job.status === 'processing' ||
+            job.status === 'paused' ||
+            job.status === 'verifying'
+        );
+        const removedCount = initialCount - this.queue.length;
+
+        if (removedCount > 0) {
+            console.log(`[Queue] Cleared ${removedCount} completed, failed, or cancelled jobs from history.`);
+            this.saveQueueState();
+            this.emit({ type: 'jobsReplaced', jobs: this.getAllJobs() });
+        }
+    }
+
+    /**
+     * Sort the queue by status, priority and then by add time
+     */
+    private sortQueue(): void {
+        this.queue.sort((a, b) => {
+            // Keep running jobs, including paused ones, at the front
+            const aRunning = a.status === 'processing' || a.status === 'paused';
+            const bRunning = b.status === 'processing' || b.status === 'paused';
+            if (aRunning && !bRunning) return -1;
+            if (!aRunning && bRunning) return 1;
+
+            // Then sort by priority (higher priority first)
+            if (a.priority !== b.priority) return b.priority - a.priority;
+
+            // Then sort by add time (older first)
+            return a.addedAt.getTime() - b.addedAt.getTime();
+        });
+    }
+
+    /**
+     * Count the parallel slots currently in use
+     * Paused jobs still occupy a slot, so pausing a job never starts another one,
+     * and so do verifying jobs while their guard rules and quality pass run
+     */
+    private getOccupiedSlotCount(): number {
+        let occupied = 0;
+        this.processing.forEach(jobId => {
+            const job = this.getJob(jobId);
+            if (job && (job.status === 'processing' || job.status === 'paused' || job.status === 'verifying')) {
+                occupied++;
+            } else {
+                // Stale entry - the job finished or was removed
+                this.processing.delete(jobId);
+            }
+        });
+        return occupied;
+    }
+
+    /**
+     * The preset a job encodes with: its own, or a fallback copy once its encoder has failed
+     */
+    private getJobPreset(job: EncodingJob): EncodingPreset | undefined {
+        const encoder = job.encoderAttempts?.[job.encoderAttempts.length - 1];
+        return job.preset && encoder ? createFallbackPreset(job.preset, encoder) : job.preset;
+    }
+
+    /**
+     * Count the running (or paused) jobs on each hardware_info device
+     */
+    private getDeviceLoad(): Map<number, number> {
+        const load = new Map<number, number>();
+        this.processing.forEach(jobId => {
+            const device = this.getJob(jobId)?.device;
+            if (device) load.set(device.id, (load.get(device.id) ?? 0) + 1);
+        });
+        return load;
+    }
+
+    /**
+     * Start as many queued jobs as the free parallel slots allow, each on the
+     * highest-priority enabled device that can run its encoder and has room
+     */
+    private processQueue(): void {
+        this.applyQueueWindow();
+        if (!this.isProcessing) {
+            return;
+        }
+
+        const maxParallelJobs = this.windowState?.maxParallelJobs ?? this.config.maxParallelJobs;
+        const occupiedSlots = this.getOccupiedSlotCount();
+        if (occupiedSlots >= maxParallelJobs) {
+            return;
+        }
+
+        const queuedJobs = this.queue
+            .filter(job => job.status === 'queued')
+            .sort((a, b) => {
+                if (a.priority !== b.priority) return b.priority - a.priority;
+                return a.addedAt.getTime() - b.addedAt.getTime();
+            });
+
+        if (queuedJobs.length === 0) {
+            if (occupiedSlots === 0) {
+                console.log('[Queue] Queue is empty, no processing jobs');
+                this.emit({ type: 'queueEmpty' });
+            }
+            return;
+        }
+
+        // Picked up again by handleSystemStats once the load drops
+        if (this.loadHold) {
+            return;
+        }
+
+        const now = Date.now();
+        const readyJobs = queuedJobs.filter(job => !job.nextRetryAt || new Date(job.nextRetryAt).getTime() <= now);
+        this.scheduleRetryWakeup();
+
+        const devices = getHardwareInfo(this.db);
+        const deviceLoad = this.getDeviceLoad();
+        const jobsToProcess: EncodingJob[] = [];
+        const jobsWithoutDevice: [EncodingJob, string][] = [];
+        for (const job of readyJobs) {
+            if (occupiedSlots + jobsToProcess.length >= maxParallelJobs) break;
+            const pick = pickDevice(devices, this.getJobPreset(job)?.videoCodec, deviceLoad);
+            // A later job may need a different device that still has room
+            if (pick.kind === 'busy') continue;
+            if (pick.kind === 'disabled') {
+                jobsWithoutDevice.push([job, pick.reason]);
+                continue;
+            }
+            job.device = pick.kind === 'assigned' ? pick.device : undefined;
+            if (job.device) deviceLoad.set(job.device.id, (deviceLoad.get(job.device.id) ?? 0) + 1);
+            jobsToProcess.push(job);
+        }
+        console.log(`[Queue] Starting ${jobsToProcess.length} new job(s) with ${occupiedSlots} slot(s) already in use`);
+
+        for (const job of jobsToProcess) {
+            job.status = 'processing';
+            job.progress = 0;
+            job.processingStartTime = new Date().toISOString();
+            job.attempts = (job.attempts ?? 0) + 1;
+            job.nextRetryAt = undefined;
+            job.error = undefined;
+            job.lowPriority = undefined;
+            job.pausedBySchedule = undefined;
+            job.pausedByLoad = undefined;
+            this.processing.add(job.id);
+            if (job.device) console.log(`[Queue] Job ${job.id} assigned to ${job.device.label}`);
+            this.emit({ type: 'jobStarted', job });
+            this.startEncodingJob(job);
+        }
+        this.saveQueueState();
+
+        // Failing a job re-runs the dispatcher, so only do it once this pass is done
+        for (const [job, reason] of jobsWithoutDevice) {
+            this.markJobFailed(job, `Not started: ${reason}`);
+        }
+    }
+
+    /**
+     * Wake the dispatcher when the earliest job waiting out a retry backoff becomes ready
+     */
+    private scheduleRetryWakeup(): void {
+        if (this.retryTimer) clearTimeout(this.retryTimer);
+        this.retryTimer = null;
+
+        const now = Date.now();
+        const retryTimes = this.queue
+            .filter(job => job.status === 'queued' && job.nextRetryAt)
+            .map(job => new Date(job.nextRetryAt!).getTime())
+            .filter(time => time > now);
+        if (retryTimes.length === 0) return;
+
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            this.processQueue();
+        }, Math.min(...retryTimes) - now);
+    }
+
+    /**
+     * Build the ffmpeg options for a job and run the encode
+     */
+    private async startEncodingJob(job: EncodingJob): Promise<void> {
+        console.log(`[Queue] Starting encoding job ${job.id}`);
+        const hdrSkipReason = this.getHdrSkipReason(job);
+        if (hdrSkipReason) {
+            this.markJobFailed(job, `Skipped: ${hdrSkipReason}`);
+            return;
+        }
+
+        let result: EncodingResult;
+        try {
+            const options = buildEncodingOptions(
+                job.inputPath,
+                job.outputPath,
+                job.overwriteInput,
+                job.probeData,
+                this.getJobPreset(job),
+                job.trackSelections.audio,
+                job.trackSelections.subtitle
+            );
+            result = await startEncodingProcess({
+                ...options,
+                gpuIndex: job.device?.type === 'GPU' ? job.device.index : undefined,
+                gpuVendor: job.device?.vendor,
+                jobId: job.id,
+                logDirectoryPath: this.logDir,
+                progressCallback: (progress) => this.handleProgressUpdate(job.id, progress)
+            });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.error(`[Queue] Error running encoding job ${job.id}:`, error);
+            result = { success: false, error: errorMessage, jobId: job.id };
+        }
+
+        await this.handleJobCompletion(job.id, result);
+    }
+
+    /**
+     * Why the job's preset won't encode its HDR source, or null when it will
+     */
+    private getHdrSkipReason(job: EncodingJob): string | null {
+        const hdr = job.probeData?.hdr;
+        const preset = job.preset;
+        if (!hdr || !preset || preset.videoCodec === 'copy') return null;
+
+        if (hdr.dolbyVision || hdr.hdr10Plus) {
+            const policy = preset.dynamicHdrPolicy || 'skip';
+            if (policy === 'skip') {
+                return `the source is ${describeHdr(hdr)} and preset "${preset.name}" skips Dolby Vision/HDR10+ files`;
+            }
+            // The video is copied untouched, so the HDR policy doesn't come into play
+            if (policy === 'copy_video') return null;
+            if (hdr.format === 'dolby_vision') {
+                return `the source is ${describeHdr(hdr)}, which has no HDR10 or SDR base layer to keep`;
+            }
+        }
+        if (preset.hdrPolicy === 'skip') {
+            return `the source is ${describeHdr(hdr)} and preset "${preset.name}" skips HDR files`;
+        }
+        return null;
+    }
+
+    /**
+     * Apply an ffmpeg progress update to its job
+     */
+    private handleProgressUpdate(jobId: string, data: EncodingProgress): void {
+        // Keep feeding the raw progress channel for any direct listeners
+        if (this.mainWindow && !this.mainWindow.isDestroyed()) {
+            this.mainWindow.webContents.send('encodingProgress', { ...data, jobId });
+        }
+
+        const job = this.getJob(jobId);
+        if (!job || (job.status !== 'processing' && job.status !== 'paused')) {
+            return;
+        }
+
+        let hasChanges = false;
+        if (data.percent !== undefined) { job.progress = data.percent; hasChanges = true; }
+        if (data.fps !== undefined) { job.fps = data.fps; hasChanges = true; }
+        if (data.frame !== undefined) { job.frame = data.frame; hasChanges = true; }
+        if (data.totalFrames !== undefined) { job.totalFrames = data.totalFrames; hasChanges = true; }
+        if (data.speed !== undefined) { job.speed = data.speed; hasChanges = true; }
+        if (data.bitrate !== undefined) { job.bitrate = data.bitrate; hasChanges = true; }
+        if (data.eta !== undefined) { job.eta = data.eta; hasChanges = true; }
+
+        if (hasChanges) {
+            this.emit({ type: 'jobProgress', job });
+            this.debouncedSaveState();
+        }
+    }
+
+    /**
+     * Clear the encodingJobId marker on a job's media record after a failure or cancellation
+     */
+    private clearMediaJobReference(job: EncodingJob): void {
+        if (!job.mediaId) return;
+        try {
+            this.db.prepare('UPDATE media SET encodingJobId = NULL WHERE id = ?').run(job.mediaId);
+            console.log(`[Queue] Cleared encodingJobId for job ${job.id}, media ID ${job.mediaId}`);
+        } catch (dbError) {
+            console.error(`[Queue] Failed to clear encodingJobId for job ${job.id}:`, dbError);
+        }
+    }
+
+    /**
+     * Store a finished job's outcome in the encoding_history table
+     */
+    private recordHistory(job: EncodingJob, outputProbeData?: ProbeData): void {
+        // Jobs cancelled while still queued never ran, so there is nothing to record
+        if (!job.processingStartTime) return;
+        if (job.status !== 'completed' && job.status !== 'failed' && job.status !== 'cancelled') return;
+
+        const sourceVideo = job.probeData?.streams?.find(s => s.codec_type === 'video');
+        const sourceAudio = job.probeData?.streams?.find(s => s.codec_type === 'audio');
+        const originalSize = job.probeData?.format?.size ? parseInt(job.probeData.format.size, 10) : null;
+        const finalSize = outputProbeData?.format?.size ? parseInt(outputProbeData.format.size, 10) : null;
+        const encodeDurationSeconds = job.processingStartTime && job.processingEndTime
+            ? (new Date(job.processingEndTime).getTime() - new Date(job.processingStartTime).getTime()) / 1000
+            : null;
+        const averageFps = job.totalFrames && encodeDurationSeconds && job.status === 'completed'
+            ? job.totalFrames / encodeDurationSeconds
+            : job.fps ?? null;
+
+        insertEncodingHistory(this.db, {
+            jobId: job.id,
+            mediaId: job.mediaId ?? null,
+            inputPath: job.inputPath,
+            outputPath: job.status === 'completed' ? job.outputPath : null,
+            status: job.status,
+            presetId: job.preset?.id ?? null,
+            presetName: job.preset?.name ?? null,
+            presetSnapshot: job.preset ?? null,
+            sourceVideoCodec: sourceVideo?.codec_name ?? null,
+            sourceAudioCodec: sourceAudio?.codec_name ?? null,
+            sourceWidth: sourceVideo?.width ?? null,
+            sourceHeight: sourceVideo?.height ?? null,
+            targetVideoCodec: outputProbeData?.streams?.find(s => s.codec_type === 'video')?.codec_name ?? null,
+            targetAudioCodec: outputProbeData?.streams?.find(s => s.codec_type === 'audio')?.codec_name ?? null,
+            originalSize,
+            finalSize,
+            reductionPercent: originalSize && finalSize ? parseFloat((((originalSize - finalSize) / originalSize) * 100).toFixed(2)) : null,
+            mediaDurationSeconds: job.probeData?.format?.duration ? parseFloat(job.probeData.format.duration) : null,
+            encodeDurationSeconds,
+            averageFps: averageFps !== null ? parseFloat(averageFps.toFixed(2)) : null,
+            hwAccel: this.getJobPreset(job)?.hwAccel ?? null,
+            videoEncoder: this.getJobPreset(job)?.videoCodec ?? null,
+            qualityMetric: job.result?.qualityMetric ?? null,
+            qualityScore: job.result?.qualityScore ?? null,
+            error: job.error ?? null,
+            startedAt: job.processingStartTime ?? null,
+            finishedAt: job.processingEndTime ?? new Date().toISOString(),
+        });
+    }
+
+    /**
+     * Move a job to the cancelled state and let the queue continue
+     */
+    private markJobCancelled(job: EncodingJob, reason: string): void {
+        job.status = 'cancelled';
+        job.error = reason;
+        job.processingEndTime = new Date().toISOString();
+        this.processing.delete(job.id);
+        this.clearMediaJobReference(job);
+        this.recordHistory(job);
+        this.saveQueueState();
+        this.emit({ type: 'jobCancelled', job });
+        this.processQueue();
+    }
+
+    /**
+     * Mark a job as failed and let the queue continue
+     */
+    private markJobFailed(job: EncodingJob, error: string): void {
+        job.status = 'failed';
+        job.error = error;
+        job.processingEndTime = job.processingEndTime || new Date().toISOString();
+        this.processing.delete(job.id);
+        this.verificationCancels.delete(job.id);
+        console.error(`[Queue] Job ${job.id} failed:`, error);
+        this.clearMediaJobReference(job);
+        this.recordHistory(job);
+        this.saveQueueState();
+        this.emit({ type: 'jobFailed', job });
+        this.processQueue();
+    }
+
+    /**
+     * Re-queue a job whose hardware encode failed on the next encoder in its preset's
+     * fallback chain. Returns false when there is nothing left to fall back to.
+     */
+    private retryWithFallbackEncoder(job: EncodingJob, error: string): boolean {
+        const failedEncoder = this.getJobPreset(job)?.videoCodec;
+        if (!job.preset || !failedEncoder || !isHardwareEncoder(failedEncoder)) return false;
+
+        const attempts = job.encoderAttempts ?? [failedEncoder];
+        const nextEncoder = getNextFallbackEncoder(job.preset, failedEncoder, attempts);
+        if (!nextEncoder) return false;
+
+        const quality = createFallbackPreset(job.preset, nextEncoder).videoQuality;
+        this.writeJobLog(job.id, `[Warning] ${failedEncoder} failed: ${error}`);
+        this.writeJobLog(job.id, `[Info] Falling back to ${nextEncoder}${quality !== undefined ? ` at quality ${quality}` : ''}`);
+        console.warn(`[Queue] Job ${job.id} failed on ${failedEncoder}, retrying with ${nextEncoder}`);
+
+        job.encoderAttempts = [...attempts, nextEncoder];
+        // The new encoder gets the full retry budget
+        job.attempts = 0;
+        job.error = undefined;
+        this.requeueJob(job);
+        return true;
+    }
+
+    /**
+     * Put a failed job back in the queue to run again, keeping its place
+     */
+    private requeueJob(job: EncodingJob): void {
+        job.status = 'queued';
+        job.progress = 0;
+        job.result = undefined;
+        job.device = undefined;
+        job.fps = undefined;
+        job.frame = undefined;
+        job.speed = undefined;
+        job.bitrate = undefined;
+        job.eta = undefined;
+        job.processingEndTime = undefined;
+        this.processing.delete(job.id);
+        this.saveQueueState();
+        this.emit({ type: 'jobProgress', job });
+        this.processQueue();
+    }
+
+    /**
+     * Decide what happens to a job whose encode or finalize step failed: retry it after
+     * a backoff when the error looks transient, else move on to a fallback encoder when
+     * the encoder itself failed, else fail it.
+     */
+    private handleJobError(job: EncodingJob, error: string, canFallBack: boolean): void {
+        if (this.scheduleRetry(job, error)) return;
+        if (canFallBack && this.retryWithFallbackEncoder(job, error)) return;
+        this.markJobFailed(job, error);
+    }
+
+    /**
+     * Re-queue the job with a backoff delay if the retry policy covers its error.
+     * Returns false when the error isn't retryable or the attempts are used up.
+     */
+    private scheduleRetry(job: EncodingJob, error: string): boolean {
+        const policy = this.config.retryPolicy;
+        const errorClass = classifyError(error);
+        const attempt = job.attempts ?? 1;
+        if (!errorClass || !policy.retryableErrors.includes(errorClass) || attempt >= policy.maxAttempts) return false;
+
+        const delaySeconds = getRetryDelaySeconds(policy, attempt);
+        this.writeJobLog(job.id, `[Warning] Attempt ${attempt} of ${policy.maxAttempts} failed (${errorClass}): ${error}`);
+        this.writeJobLog(job.id, `[Info] Retrying in ${delaySeconds}s`);
+        console.warn(`[Queue] Job ${job.id} hit a ${errorClass} error, retrying in ${delaySeconds}s (attempt ${attempt + 1} of ${policy.maxAttempts})`);
+
+        // Kept on the job so the queue can show why it is waiting
+        job.error = `Attempt ${attempt} failed, retrying: ${error}`;
+        job.nextRetryAt = new Date(Date.now() + delaySeconds * 1000).toISOString();
+        this.requeueJob(job);
+        return true;
+    }
+
+    /**
+     * Append a line to a job's encoding log (the file ffmpegUtils writes while encoding)
+     */
+    private writeJobLog(jobId: string, message: string): void {
+        try {
+            fsSync.appendFileSync(path.join(this.logDir, `${jobId}.log`), `[${new Date().toISOString()}] ${message}\n`);
+        } catch (error) {
+            console.error(`[Queue] Failed to write to log for job ${jobId}:`, error);
+        }
+    }
+
+    /**
+     * Check a finished encode against the guard rules on its preset.
+     * Returns every violated rule; an empty list means the encode may be finalized.
+     */
+    private async checkGuardRules(job: EncodingJob, tempPath: string): Promise<string[]> {
+        const preset = job.preset;
+        if (!preset) return [];
+
+        const violations: string[] = [];
+
+        if (typeof preset.guardMinReductionPercent === 'number' || typeof preset.guardMaxSizeRatio === 'number') {
+            const [sourceStats, outputStats] = await Promise.all([fs.stat(job.inputPath), fs.stat(tempPath)]);
+            const sizeRatio = sourceStats.size > 0 ? outputStats.size / sourceStats.size : 1;
+            const reductionPercent = (1 - sizeRatio) * 100;
+
+            if (typeof preset.guardMinReductionPercent === 'number' && reductionPercent < preset.guardMinReductionPercent) {
+                violations.push(`size reduced by ${reductionPercent.toFixed(1)}%, preset requires at least ${preset.guardMinReductionPercent}%`);
+            }
+            if (typeof preset.guardMaxSizeRatio === 'number' && sizeRatio > preset.guardMaxSizeRatio) {
+                violations.push(`output is ${sizeRatio.toFixed(2)}x the source size, preset allows at most ${preset.guardMaxSizeRatio}x`);
+            }
+        }
+
+        const needsProbe = typeof preset.guardDurationToleranceSeconds === 'number' || preset.guardRequireAudioStreams || preset.guardRequireSubtitleStreams;
+        if (!needsProbe) return violations;
+
+        const outputProbe = await probeFile(tempPath);
+        if (!outputProbe) {
+            violations.push('the encoded file could not be probed');
+            return violations;
+        }
+
+        if (typeof preset.guardDurationToleranceSeconds === 'number') {
+            const sourceDuration = parseFloat(job.probeData?.format?.duration ?? '');
+            const outputDuration = parseFloat(outputProbe.format?.duration ?? '');
+            if (isNaN(outputDuration)) {
+                violations.push('the encoded file has no duration');
+            } else if (!isNaN(sourceDuration) && Math.abs(outputDuration - sourceDuration) > preset.guardDurationToleranceSeconds) {
+                violations.push(`duration ${outputDuration.toFixed(1)}s differs from the source's ${sourceDuration.toFixed(1)}s by more than ${preset.guardDurationToleranceSeconds}s`);
+            }
+        }
+
+        // Tracks marked keep/convert are the ones buildEncodingOptions maps into the output
+        const countStreams = (probe: ProbeData, type: string) => (probe.streams ?? []).filter(s => s.codec_type === type).length;
+        const countSelected = (type: string, selections: { [index: number]: TrackAction }) =>
+            (job.probeData?.streams ?? []).filter(s => s.codec_type === type && (selections[s.index] === 'keep' || selections[s.index] === 'convert')).length;
+
+        if (preset.guardRequireAudioStreams) {
+            const expected = countSelected('audio', job.trackSelections.audio);
+            const actual = countStreams(outputProbe, 'audio');
+            if (actual < expected) violations.push(`output has ${actual} audio stream(s) but ${expected} were selected`);
+        }
+        if (preset.guardRequireSubtitleStreams) {
+            const expected = countSelected('subtitle', job.trackSelections.subtitle);
+            const actual = countStreams(outputProbe, 'subtitle');
+            if (actual < expected) violations.push(`output has ${actual} subtitle stream(s) but ${expected} were selected`);
+        }
+
+        return violations;
+    }
+
+    /**
+     * Finish cancelling a job the user cancelled while it was verifying: discard the
+     * encoded output and keep the original. Returns false when no cancel is pending.
+     */
+    private async discardCancelledVerification(job: EncodingJob, tempPath: string): Promise<boolean> {
+        if (!this.verificationCancels.delete(job.id)) return false;
+        this.writeJobLog(job.id, `[Info] Cancelled during verification; discarding ${tempPath}`);
+        try {
+            await fs.unlink(tempPath);
+        } catch (unlinkError) {
+            console.error(`[Queue] Failed to remove cancelled encode ${tempPath}:`, unlinkError);
+        }
+        this.markJobCancelled(job, 'Cancelled by user');
+        return true;
+    }
+
+    /**
+     * Discard a rejected encode's temp file and fail the job with the given reason
+     */
+    private async rejectEncode(job: EncodingJob, tempPath: string, reason: string): Promise<void> {
+        this.writeJobLog(job.id, `[Error] ${reason}; discarding ${tempPath}`);
+        try {
+            await fs.unlink(tempPath);
+        } catch (unlinkError) {
+            console.error(`[Queue] Failed to remove rejected encode ${tempPath}:`, unlinkError);
+        }
+        this.markJobFailed(job, `${reason}. The original file was kept.`);
+    }
+
+    /**
+     * Score the encoded output against its source when the job's preset asks for it.
+     * Returns false if the score is below the preset threshold or can't be measured, in
+     * which case the encode is discarded and the original file is left untouched.
+     */
+    private async verifyEncodeQuality(job: EncodingJob, result: EncodingResult, tempPath: string): Promise<boolean> {
+        const metric = job.preset?.verificationMetric;
+        if (!metric || metric === 'none') return true;
+
+        const threshold = job.preset?.verificationThreshold ?? DEFAULT_QUALITY_THRESHOLDS[metric];
+        const label = metric.toUpperCase();
+        const writeLog = (message: string) => this.writeJobLog(job.id, message);
+        writeLog(`--- Verifying quality of Job ${job.id} with ${label} (threshold ${threshold}) ---`);
+
+        let score: number;
+        try {
+            const duration = job.probeData?.format?.duration ? parseFloat(job.probeData.format.duration) : undefined;
+            score = await measureQuality(job.inputPath, tempPath, {
+                metric,
+                durationSeconds: duration,
+                sampled: job.preset?.verificationSampled ?? false,
+                writeLog,
+                jobId: job.id,
+                isCancelled: () => this.verificationCancels.has(job.id)
+            });
+        } catch (error) {
+            if (await this.discardCancelledVerification(job, tempPath)) return false;
+            // The preset asked for a quality gate, so an encode that couldn't be scored never replaces anything
+            const message = error instanceof Error ? error.message : String(error);
+            console.warn(`[Queue] Quality check for job ${job.id} could not run: ${message}`);
+            await this.rejectEncode(job, tempPath, `Quality check could not run: ${message}`);
+            return false;
+        }
+
+        result.qualityMetric = metric;
+        result.qualityScore = Number(score.toFixed(metric === 'vmaf' ? 2 : 4));
+
+        if (score < threshold) {
+            await this.rejectEncode(job, tempPath, `Quality check failed: ${label} ${result.qualityScore} is below the preset threshold of ${threshold}`);
+            return false;
+        }
+
+        writeLog(`[Info] ${label} ${result.qualityScore} meets the threshold of ${threshold}`);
+        return true;
+    }
+
+    /**
+     * Handle the result of a finished encode: finalize the output file and update the job
+     */
+    private async handleJobCompletion(jobId: string, result: EncodingResult): Promise<void> {
+        const job = this.getJob(jobId);
+        if (!job) {
+            // Removed from the queue while encoding
+            console.log(`[Queue] Job ${jobId} finished but is no longer in the queue`);
+            this.processing.delete(jobId);
+            this.processQueue();
+            return;
+        }
+
+        job.result = result;
+
+        // cancelJob already cancelled the job because no process could be stopped; just drop the output
+        if (job.status === 'cancelled') {
+            console.log(`[Queue] Job ${jobId} was already cancelled; discarding its output`);
+            if (result.outputPath) {
+                await fs.unlink(result.outputPath).catch(error => console.error(`[Queue] Failed to remove output of cancelled job ${jobId}:`, error));
+            }
+            this.processing.delete(jobId);
+            this.processQueue();
+            return;
+        }
+
+        // Cancelled encodes keep their last progress value and go to the cancelled state
+        if (result.cancelled) {
+            console.log(`[Queue] Job ${jobId} was cancelled`);
+            this.markJobCancelled(job, result.error || 'Cancelled by user');
+            return;
+        }
+
+        job.processingEndTime = new Date().toISOString();
+        if (!result.success) {
+            this.handleJobError(job, result.error || 'Unknown error occurred during encoding', true);
+            return;
+        }
+
+        job.progress = 100;
+        job.eta = undefined;
+        job.status = 'verifying';
+        this.emit({ type: 'jobProgress', job });
+
+        if (result.outputPath) {
+            let violations: string[];
+            try {
+                violations = await this.checkGuardRules(job, result.outputPath);
+            } catch (error) {
+                violations = [`guard rules could not be checked: ${error instanceof Error ? error.message : String(error)}`];
+            }
+            if (await this.discardCancelledVerification(job, result.outputPath)) return;
+            if (violations.length > 0) {
+                await this.rejectEncode(job, result.outputPath, `Guard rule failed: ${violations.join('; ')}`);
+                return;
+            }
+
+            if (!(await this.verifyEncodeQuality(job, result, result.outputPath))) {
+                return;
+            }
+            if (await this.discardCancelledVerification(job, result.outputPath)) return;
+        }
+        // Past this point the file is being moved into place, so a late cancel is ignored
+        this.verificationCancels.delete(jobId);
+
+        // ffmpeg writes to a temporary file next to the final target; move it into place
+        const finalPath = job.overwriteInput ? job.inputPath : job.outputPath;
+        const finalizeResult = result.outputPath
+            ? await finalizeEncodedFile(this.db, {
+                tempFilePath: result.outputPath,
+                finalFilePath: finalPath,
+                jobId,
+                isOverwrite: job.overwriteInput,
+                originalFilePath: job.inputPath
+            })
+            : { success: false, error: 'Encoding result did not include an output file' };
+
+        if (!finalizeResult.success) {
+            this.handleJobError(job, finalizeResult.error || 'Failed to finalize encoded file', false);
+            return;
+        }
+
+        job.outputPath = finalPath;
+        job.status = 'completed';
+        this.processing.delete(jobId);
+
+        if (job.mediaId) {
+            try {
+                this.db.prepare('UPDATE media SET encodingJobId = ? WHERE id = ?').run(job.id, job.mediaId);
+            } catch (dbError) {
+                console.error(`[Queue] Failed to update media record for job ${jobId}:`, dbError);
+            }
+        }
+
+        if (result.qualityScore !== undefined && (job.mediaId || job.overwriteInput)) {
+            try {
+                this.db.prepare('UPDATE media SET qualityMetric = ?, qualityScore = ? WHERE id = ? OR filePath = ?')
+                    .run(result.qualityMetric, result.qualityScore, job.mediaId ?? null, job.overwriteInput ? job.inputPath : null);
+            } catch (dbError) {
+                console.error(`[Queue] Failed to store quality score for job ${jobId}:`, dbError);
+            }
+        }
+
+        if (job.encoderAttempts) {
+            const failed = job.encoderAttempts.slice(0, -1).join(', ');
+            this.writeJobLog(jobId, `[Info] Encoded with ${job.encoderAttempts[job.encoderAttempts.length - 1]} after ${failed} failed`);
+        }
+        this.recordHistory(job, finalizeResult.probeData);
+        console.log(`[Queue] Job ${jobId} completed: ${finalPath}`);
+        this.saveQueueState();
+        this.emit({ type: 'jobCompleted', job });
+        this.processQueue();
+    }
+}
+
+let encodingQueue: EncodingQueue | null = null;
+
+/**
+ * Create the main-process encoding queue and restore its saved jobs
+ */
+export async function initializeEncodingQueue(
+    db: Database.Database,
+    mainWindow: BrowserWindow | null,
+    queueDataPath: string,
+    logDir: string
+): Promise<EncodingQueue> {
+    encodingQueue = new EncodingQueue(db, mainWindow, queueDataPath, logDir);
+    await encodingQueue.initialize();
+    return encodingQueue;
+}
+
+export function getEncodingQueue(): EncodingQueue {
+    if (!encodingQueue) {
+        throw new Error("Encoding queue has not been initialized. Call initializeEncodingQueue first.");
+    }
+    return encodingQueue;
+}
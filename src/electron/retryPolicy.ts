@@ -0,0 +1,44 @@
+// Kinds of failure that tend to go away on their own
+export type RetryableErrorClass = 'file_locked' | 'network' | 'disk_full' | 'hardware';
+
+export interface RetryPolicy {
+    maxAttempts: number; // Total tries per encoder, including the first; 1 disables retries
+    backoffSeconds: number; // Wait before the first retry
+    backoffMultiplier: number; // Each later retry waits this many times longer
+    retryableErrors: RetryableErrorClass[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    backoffSeconds: 30,
+    backoffMultiplier: 2,
+    retryableErrors: ['file_locked', 'network'],
+};
+
+const MAX_RETRY_DELAY_SECONDS = 3600;
+
+// Matched against ffmpeg's stderr tail (in fluent-ffmpeg's error message) and Node fs error messages
+const ERROR_PATTERNS: [RetryableErrorClass, RegExp][] = [
+    ['disk_full', /ENOSPC|No space left on device|disk quota exceeded|There is not enough space/i],
+    ['file_locked', /EBUSY|EPERM|EACCES|resource busy|being used by another process|Permission denied|sharing violation|locked/i],
+    ['network', /ETIMEDOUT|ECONNRESET|ECONNREFUSED|ENETUNREACH|EHOSTUNREACH|ENETDOWN|ESTALE|EIO\b|Input\/output error|Stale file handle|Connection (timed out|reset|refused)|network (name|path)|Network is unreachable/i],
+    ['hardware', /OpenEncodeSessionEx failed|No capable devices found|out of memory|MFX_ERR_DEVICE_FAILED|MFX_ERR_DEVICE_LOST|device (lost|removed|reset)|Failed to (initialise|initialize|create) (VAAPI|the encoder|device)|CUDA_ERROR|Error initializing output stream/i],
+];
+
+/**
+ * Works out which retryable class a failure belongs to, or null for errors
+ * retrying won't fix (bad input, unsupported options, guard rules).
+ */
+export function classifyError(message: string | undefined): RetryableErrorClass | null {
+    if (!message) return null;
+    const match = ERROR_PATTERNS.find(([, pattern]) => pattern.test(message));
+    return match ? match[0] : null;
+}
+
+/**
+ * Seconds to wait before the retry that follows the given (1-based) failed attempt.
+ */
+export function getRetryDelaySeconds(policy: RetryPolicy, failedAttempt: number): number {
+    const delay = policy.backoffSeconds * Math.pow(Math.max(1, policy.backoffMultiplier), failedAttempt - 1);
+    return Math.min(MAX_RETRY_DELAY_SECONDS, Math.max(0, Math.round(delay)));
+}
@@ -0,0 +1,106 @@
+import type { SavingsEstimateFile, SavingsEstimate, SavingsEstimateMatch, EncodingHistoryEntry } from '../types.js';
+
+// A finished encode reduced to what the estimator needs
+export interface SavingsSample {
+    presetId: string;
+    videoCodec: string;
+    resolution: string;
+    sizeRatio: number; // final / original
+    encodeSecondsPerGB?: number;
+}
+
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+
+/**
+ * Buckets a frame height so 1916x1036 and 1920x1080 sources share history.
+ */
+export function getResolutionClass(height: number | null | undefined): string {
+    if (!height) return 'unknown';
+    if (height <= 576) return 'sd';
+    if (height <= 720) return '720p';
+    if (height <= 1080) return '1080p';
+    if (height <= 1440) return '1440p';
+    return '2160p';
+}
+
+/**
+ * Extracts size and timing samples from completed history entries that recorded both sizes.
+ */
+export function collectSavingsSamples(entries: EncodingHistoryEntry[]): SavingsSample[] {
+    const samples: SavingsSample[] = [];
+    for (const entry of entries) {
+        if (entry.status !== 'completed' || !entry.presetId || !entry.originalSize || !entry.finalSize) continue;
+
+        const sample: SavingsSample = {
+            presetId: entry.presetId,
+            videoCodec: entry.sourceVideoCodec?.toLowerCase() || 'unknown',
+            resolution: getResolutionClass(entry.sourceHeight),
+            sizeRatio: entry.finalSize / entry.originalSize,
+        };
+        if (entry.encodeDurationSeconds && entry.encodeDurationSeconds > 0) {
+            sample.encodeSecondsPerGB = entry.encodeDurationSeconds / (entry.originalSize / BYTES_PER_GB);
+        }
+        samples.push(sample);
+    }
+    return samples;
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Predicts output size and encode time for each file from past results of the same preset.
+ * Uses the most specific history available: same source codec and resolution, then same
+ * codec, then anything encoded with the preset. Files with no history get no estimate.
+ */
+export function estimateSavings(samples: SavingsSample[], presetId: string, files: SavingsEstimateFile[]): SavingsEstimate {
+    const presetSamples = samples.filter(s => s.presetId === presetId);
+    const estimate: SavingsEstimate = {
+        files: [],
+        totalOriginalBytes: 0,
+        totalEstimatedBytes: 0,
+        totalEstimatedSavingsBytes: 0,
+        totalEncodeSeconds: 0,
+        estimatedFileCount: 0,
+        historySampleCount: presetSamples.length,
+    };
+
+    for (const file of files) {
+        const codec = file.videoCodec?.toLowerCase() || 'unknown';
+        const resolution = getResolutionClass(file.resolutionHeight);
+        const candidates: [SavingsEstimateMatch, SavingsSample[]][] = [
+            ['exact', presetSamples.filter(s => s.videoCodec === codec && s.resolution === resolution)],
+            ['codec', presetSamples.filter(s => s.videoCodec === codec)],
+            ['preset', presetSamples],
+        ];
+        const [match, matched] = candidates.find(([, group]) => group.length > 0) ?? ['none', []];
+
+        estimate.totalOriginalBytes += file.size;
+        if (match === 'none') {
+            estimate.files.push({ id: file.id, match, sampleCount: 0 });
+            continue;
+        }
+
+        const estimatedBytes = Math.round(file.size * median(matched.map(s => s.sizeRatio)));
+        const timings = matched.map(s => s.encodeSecondsPerGB).filter((t): t is number => t !== undefined);
+        const encodeSeconds = timings.length > 0 ? Math.round(median(timings) * (file.size / BYTES_PER_GB)) : undefined;
+
+        estimate.files.push({
+            id: file.id,
+            match,
+            sampleCount: matched.length,
+            estimatedBytes,
+            estimatedSavingsBytes: file.size - estimatedBytes,
+            estimatedEncodeSeconds: encodeSeconds,
+        });
+        estimate.estimatedFileCount++;
+        estimate.totalEstimatedBytes += estimatedBytes;
+        estimate.totalEstimatedSavingsBytes += file.size - estimatedBytes;
+        estimate.totalEncodeSeconds += encodeSeconds ?? 0;
+    }
+
+    return estimate;
+}
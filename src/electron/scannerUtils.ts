@@ -45,6 +45,9 @@ export async function addMediaToDb(
     let resolutionWidth: number | null = null;
     let resolutionHeight: number | null = null;
     let audioChannels: number | null = null;
+    const isHdr = probeData.hdr ? 1 : 0;
+    const dolbyVisionProfile = probeData.hdr?.dolbyVision?.profile ?? null;
+    const hdr10Plus = probeData.hdr?.hdr10Plus ? 1 : 0;
 
     if (probeData.streams && Array.isArray(probeData.streams)) {
         const videoStream = probeData.streams.find((s: any) => s.codec_type === 'video');
@@ -79,13 +82,16 @@ export async function addMediaToDb(
                     resolutionWidth = ?,
                     resolutionHeight = ?,
                     audioChannels = ?,
+                    isHdr = ?,
+                    dolbyVisionProfile = ?,
+                    hdr10Plus = ?,
                     encodingJobId = ? 
                 WHERE id = ?
             `;
             const updateStmt = db.prepare(updateSql);
             // Only update encodingJobId if it's newly determined or if the existing one is null
             const finalEncodingJobId = determinedEncodingJobId ?? existingFile.encodingJobId;
-            updateStmt.run(fileSize, videoCodec, audioCodec, resolutionWidth, resolutionHeight, audioChannels, finalEncodingJobId, existingFile.id);
+            updateStmt.run(fileSize, videoCodec, audioCodec, resolutionWidth, resolutionHeight, audioChannels, isHdr, dolbyVisionProfile, hdr10Plus, finalEncodingJobId, existingFile.id);
             console.log(`Updated existing file: ${title} - encodingJobId set to: ${finalEncodingJobId}`);
         } else {
             // Insert new file with both originalSize and currentSize set to the current size
@@ -93,8 +99,8 @@ export async function addMediaToDb(
                 INSERT INTO media (
                     title, filePath, originalSize, currentSize,
                     videoCodec, audioCodec, libraryName, libraryType,
-                    resolutionWidth, resolutionHeight, audioChannels, encodingJobId
-                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                    resolutionWidth, resolutionHeight, audioChannels, isHdr, dolbyVisionProfile, hdr10Plus, encodingJobId
+                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
             `;
             const insertStmt = db.prepare(insertSql);
             const info = insertStmt.run(
@@ -109,6 +115,9 @@ export async function addMediaToDb(
                 resolutionWidth,
                 resolutionHeight,
                 audioChannels,
+                isHdr,
+                dolbyVisionProfile,
+                hdr10Plus,
                 determinedEncodingJobId // Use the determined value here
             );
             if (info.changes > 0) {
@@ -39,6 +39,9 @@ let performanceDataBuffer: Array<{
 }> = [];
 let performanceAveragingTimer: NodeJS.Timeout | null = null;
 
+// Main-process consumers of the UI samples (the encoding queue's load throttling)
+const systemStatsListeners = new Set<(stats: SystemStats) => void>();
+
 // Constants used by system utils - these should match what's in main.ts or be passed in
 const SELECTED_GPU_KEY = 'selectedGpuModel';
 const MANUAL_GPU_VRAM_MB_KEY = 'manualGpuVramMb';
@@ -236,6 +239,13 @@ export function startSystemStatsPolling(window: BrowserWindow | null) {
         if (window && !window.isDestroyed()) {
             window.webContents.send("system-stats-update", stats);
         }
+        systemStatsListeners.forEach(listener => {
+            try {
+                listener(stats);
+            } catch (error) {
+                console.error("[SystemUtils] Error in system stats listener:", error);
+            }
+        });
     }, 2000);
 
     console.log("[SystemUtils] Starting performance data collection (every 15 seconds for 1-minute averaging).");
@@ -310,6 +320,15 @@ export function startSystemStatsPolling(window: BrowserWindow | null) {
     }, 60000);
 }
 
+/**
+ * Calls the listener with every system stats sample sent to the UI
+ * @returns A function that removes the listener
+ */
+export function onSystemStats(listener: (stats: SystemStats) => void): () => void {
+    systemStatsListeners.add(listener);
+    return () => systemStatsListeners.delete(listener);
+}
+
 export function stopSystemStatsPolling() {
     if (systemStatsTimer) {
         clearInterval(systemStatsTimer);
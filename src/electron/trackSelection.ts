@@ -0,0 +1,231 @@
+import type { EncodingPreset, StreamInfo, TrackActionData } from '../types.js';
+
+// Preset-based track selection and subtitle ordering, shared by the renderer
+// (src/utils/presetUtil.ts) and the main process. Keep this free of Node and
+// Electron imports so both sides can load it.
+
+/**
+ * Apply track selection based on preset
+ */
+export const getAudioTrackActions = (
+    streams: StreamInfo[],
+    preset: EncodingPreset | undefined
+): { [index: number]: TrackActionData } => {
+    const audioStreams = streams.filter(s => s.codec_type === 'audio');
+    const audioDefaults: { [index: number]: TrackActionData } = {};
+
+    console.log(`[Preset Track Select] Processing ${audioStreams.length} audio streams`);
+    audioStreams.forEach(stream => {
+        const lang = stream.tags?.language?.toLowerCase() || 'unknown';
+        console.log(`  - Stream ${stream.index}: ${lang} (${stream.codec_name})`);
+    });
+
+    if (!preset || !Array.isArray(preset.audioLanguageOrder) || preset.audioLanguageOrder.length === 0) {
+        // Default selection for custom mode (or invalid preset): convert first audio track, discard others
+        let firstAudioFound = false;
+        audioStreams.forEach((stream: StreamInfo) => {
+            audioDefaults[stream.index] = !firstAudioFound ? 'convert' : 'discard';
+            firstAudioFound = true;
+        });
+        console.log(`[Preset Track Select] No preset audio order, using default (first track convert)`);
+        return audioDefaults;
+    }
+
+    console.log(`[Preset Track Select] Using preset audio order: [${preset.audioLanguageOrder.join(', ')}]`);
+
+    // Apply preset-based audio track selection
+    const presetLangsLower = preset.audioLanguageOrder.map((lang: string) => lang.toLowerCase());
+    const selectedIndices: number[] = [];
+    
+    // Track which preset languages have been matched
+    const matchedPresetLangs = new Set<string>();
+
+    // Process each language in the preset's order
+    for (const langCode of presetLangsLower) {
+        if (langCode === 'original') {
+            // Find the audio stream with the lowest index (the true "first" track in the file)
+            const firstAudioStream = audioStreams.reduce<StreamInfo | undefined>((lowest, current) =>
+                (lowest && lowest.index < current.index) ? lowest : current
+            , undefined);
+            
+            if (firstAudioStream) {
+                const originalLang = firstAudioStream.tags?.language?.toLowerCase() || 'unknown';
+                console.log(`[Preset Track Select] Processing "original" track - Index ${firstAudioStream.index} (${originalLang})`);
+                
+                // Always include the original track (first audio stream by index), even if already selected
+                if (!selectedIndices.includes(firstAudioStream.index)) {
+                    console.log(`[Preset Track Select] Adding "original" track: Index ${firstAudioStream.index} (${originalLang})`);
+                    selectedIndices.push(firstAudioStream.index);
+                } else {
+                    console.log(`[Preset Track Select] "original" track (Index ${firstAudioStream.index}, ${originalLang}) already selected by previous language match`);
+                }
+                matchedPresetLangs.add(langCode);
+            } else {
+                console.log(`[Preset Track Select] No audio streams found for "original"`);
+            }
+            continue;
+        }
+
+        // Find streams for the current language code that haven't already been selected
+        const foundStreams = audioStreams.filter(stream => 
+            !selectedIndices.includes(stream.index) && 
+            stream.tags?.language?.toLowerCase() === langCode
+        );
+
+        if (foundStreams.length > 0) {
+            console.log(`[Preset Track Select] Found ${foundStreams.length} match(es) for "${langCode}"`);
+            foundStreams.forEach((streamToSelect: StreamInfo) => {
+                if (!selectedIndices.includes(streamToSelect.index)) {
+                    selectedIndices.push(streamToSelect.index);
+                    console.log(`  - Adding ${langCode} track: Index ${streamToSelect.index}`);
+                }
+            });
+            matchedPresetLangs.add(langCode);
+        } else {
+            console.log(`[Preset Track Select] No available tracks found for "${langCode}" (might be selected already or doesn't exist)`);
+        }
+    }
+
+    console.log(`[Preset Track Select] Selected track indices: [${selectedIndices.join(', ')}]`);
+
+    // Set track actions based on the found indices
+    audioStreams.forEach((stream: StreamInfo) => {
+        // Mark tracks in selectedIndices for conversion, others for discard
+        audioDefaults[stream.index] = selectedIndices.includes(stream.index) ? 'convert' : 'discard';
+        console.log(`[Preset Track Select] Stream ${stream.index}: ${audioDefaults[stream.index]}`);
+    });
+
+    return audioDefaults;
+};
+
+/**
+ * Apply subtitle track selection based on preset
+ */
+export const getSubtitleTrackActions = (
+    streams: StreamInfo[],
+    preset: EncodingPreset | undefined
+): { [index: number]: TrackActionData } => {
+    const subtitleDefaults: { [index: number]: TrackActionData } = {};
+    const subtitleStreams = streams.filter(s => s.codec_type === 'subtitle');
+
+    // If preset specifies to remove all subtitles, discard all subtitle streams
+    if (preset?.removeAllSubtitles) {
+        subtitleStreams.forEach((stream: StreamInfo) => {
+            subtitleDefaults[stream.index] = 'discard';
+            console.log(`[Preset Track Select] Setting subtitle ${stream.index} to 'discard' - removeAllSubtitles enabled`);
+        });
+        return subtitleDefaults;
+    }
+
+    if (!preset || !Array.isArray(preset.subtitleLanguageOrder) || preset.subtitleLanguageOrder.length === 0) {
+        // Default selection for custom mode (or invalid preset): keep English subtitles
+        subtitleStreams.forEach((stream: StreamInfo) => {
+            subtitleDefaults[stream.index] = (stream.tags?.language?.toLowerCase() === 'eng') ? 'keep' : 'discard';
+        });
+        return subtitleDefaults;
+    }
+
+    // Apply preset-based subtitle track selection
+    const presetSubLangsLower = preset.subtitleLanguageOrder.map((lang: string) => lang.toLowerCase());
+    
+    subtitleStreams.forEach((stream: StreamInfo) => {
+        const langLower = stream.tags?.language?.toLowerCase() || 'unknown';
+        
+        // Keep subtitles whose language is in the preset's order
+        if (presetSubLangsLower.includes(langLower)) {
+            subtitleDefaults[stream.index] = 'keep';
+            console.log(`[Preset Track Select] Setting subtitle ${stream.index} (${langLower}) to 'keep' based on preset.`);
+        } else {
+            subtitleDefaults[stream.index] = 'discard';
+            console.log(`[Preset Track Select] Setting subtitle ${stream.index} (${langLower}) to 'discard' as it's not in preset order.`);
+        }
+    });
+
+    return subtitleDefaults;
+};
+
+/**
+ * Get subtitle type based on stream info
+ */
+export const getSubtitleType = (stream: StreamInfo): string => {
+    // Default to 'normal'
+    const type = 'normal';
+    
+    // Check for 'forced' in disposition
+    if (stream.disposition?.forced) {
+        return 'forced';
+    }
+    
+    // Check for SDH/CC indicators in title
+    const title = stream.tags?.title?.toLowerCase() || '';
+    
+    if (title.includes('sdh') || title.includes('hearing')) {
+        return 'sdh';
+    }
+    
+    if (title.includes('cc') || title.includes('caption')) {
+        return 'cc';
+    }
+    
+    // Check for signs/songs
+    if (title.includes('sign') || title.includes('text')) {
+        return 'signs';
+    }
+    
+    if (title.includes('song') || title.includes('lyric') || title.includes('karaoke')) {
+        return 'song';
+    }
+    
+    return type;
+};
+
+/**
+ * Position of the first matching entry in a preset order list, or a high rank
+ * when nothing matches so unlisted entries sort last
+ */
+const orderRank = (order: string[] | undefined, matches: (entry: string) => boolean): number => {
+    const index = order?.findIndex(matches) ?? -1;
+    return index === -1 ? 999 : index;
+};
+
+/**
+ * Order subtitle streams according to preset priorities
+ * @param subtitleStreams The subtitle streams with metadata
+ * @param preset The active preset with language and type ordering
+ * @returns Ordered list of subtitle streams
+ */
+export const orderSubtitlesByPreset = <T extends { language: string; type: string }>(
+    subtitleStreams: T[],
+    preset: EncodingPreset | undefined
+): T[] => {
+    if (!preset || !preset.subtitleLanguageOrder || !preset.subtitleTypeOrder) {
+        return subtitleStreams;
+    }
+
+    // Create a copy of the streams array for sorting
+    const streamsToSort = [...subtitleStreams];
+    
+    // Order streams by preset language order first, then by type order
+    return streamsToSort.sort((a, b) => {
+        const langA = a.language.toLowerCase();
+        const langB = b.language.toLowerCase();
+        
+        // Get rank in the language order (unlisted languages go last)
+        const langIndexA = orderRank(preset.subtitleLanguageOrder, (l: string) => l.toLowerCase() === langA);
+        const langIndexB = orderRank(preset.subtitleLanguageOrder, (l: string) => l.toLowerCase() === langB);
+        
+        // Compare language priority first
+        if (langIndexA !== langIndexB) {
+            return langIndexA - langIndexB;
+        }
+        
+        // If same language, sort by type priority
+        const typeA = a.type;
+        const typeB = b.type;
+        
+        const typeIndexA = orderRank(preset.subtitleTypeOrder, (t: string) => t === typeA);
+        const typeIndexB = orderRank(preset.subtitleTypeOrder, (t: string) => t === typeB);
+        
+        return typeIndexA - typeIndexB;
+    });
+};
@@ -0,0 +1,438 @@
+import Database from 'better-sqlite3';
+import Store from 'electron-store';
+import { shell } from 'electron';
+import path from 'path';
+import fs from 'fs/promises';
+import fsSync from 'fs';
+import type { ProbeData } from '../types.js';
+import type { WorkflowFile } from './workflowExecutor.js';
+import type { WatchedFolder } from './scannerUtils.js';
+import { getPresets } from './presetDatabase.js';
+import { probeFile } from './ffprobeUtils.js';
+import { getAudioTrackActions, getSubtitleTrackActions } from './trackSelection.js';
+import { getEncodingQueue } from './queueUtils.js';
+
+export interface FileActionResult {
+    files: WorkflowFile[]; // The subject files after the action, e.g. at their new paths
+    errors: string[]; // One per file the action failed on
+}
+
+export interface EncodeFileResult extends FileActionResult {
+    jobIds: string[];
+}
+
+// What Move and Rename do when the target path is already taken
+export type CollisionPolicy = 'fail' | 'skip' | 'overwrite' | 'increment';
+
+const COLLISION_POLICIES: CollisionPolicy[] = ['fail', 'skip', 'overwrite', 'increment'];
+
+// Paths workflows wrote, so the watcher's File Added trigger doesn't run workflows on their own output
+const WORKFLOW_OUTPUT_TTL_MS = 24 * 60 * 60 * 1000;
+const workflowOutputPaths = new Map<string, number>();
+
+let storeInstance: Store | null = null;
+
+export function initializeWorkflowActions(sInstance: Store) {
+    storeInstance = sInstance;
+}
+
+function normalizePathKey(filePath: string): string {
+    const resolved = path.resolve(filePath);
+    return process.platform === 'win32' ? resolved.toLowerCase() : resolved;
+}
+
+function markWorkflowOutput(filePath: string): void {
+    const now = Date.now();
+    for (const [key, markedAt] of workflowOutputPaths) {
+        if (now - markedAt > WORKFLOW_OUTPUT_TTL_MS) workflowOutputPaths.delete(key);
+    }
+    workflowOutputPaths.set(normalizePathKey(filePath), now);
+}
+
+/**
+ * True (once) when a workflow action produced the file, e.g. a move into a watched folder
+ */
+export function consumeWorkflowOutput(filePath: string): boolean {
+    const key = normalizePathKey(filePath);
+    const markedAt = workflowOutputPaths.get(key);
+    workflowOutputPaths.delete(key);
+    return markedAt !== undefined && Date.now() - markedAt <= WORKFLOW_OUTPUT_TTL_MS;
+}
+
+/**
+ * The watched folder a path falls under, or undefined when it's outside every library
+ */
+function getLibraryForPath(filePath: string): WatchedFolder | undefined {
+    const folders = (storeInstance?.get('watchedFolders', []) ?? []) as WatchedFolder[];
+    const fileKey = normalizePathKey(filePath);
+    return folders.find(folder => {
+        const folderKey = normalizePathKey(folder.path);
+        return fileKey.startsWith(folderKey.endsWith(path.sep) ? folderKey : folderKey + path.sep);
+    });
+}
+
+/**
+ * Where the Encode File action writes a file: the node's output folder (the input's
+ * folder when empty), keeping the name and switching to the output format. That path
+ * is only allowed to be the input itself when the node is set to overwrite; otherwise
+ * the output becomes "{name}.encoded.{ext}" next to it.
+ */
+function getEncodeOutputPath(inputPath: string, outputFolder: string, outputFormat: string, overwrite: boolean): string {
+    const extension = outputFormat ? `.${outputFormat.replace(/^\./, '')}` : path.extname(inputPath);
+    const name = path.basename(inputPath, path.extname(inputPath));
+    const folder = outputFolder || path.dirname(inputPath);
+    const outputPath = path.join(folder, `${name}${extension}`);
+    if (!overwrite && normalizePathKey(outputPath) === normalizePathKey(inputPath)) {
+        return path.join(folder, `${name}.encoded${extension}`);
+    }
+    return outputPath;
+}
+
+/**
+ * Re-reads a file after an action changed it, keeping the old media row when the path is unchanged
+ */
+async function refreshWorkflowFile(file: WorkflowFile, newPath: string, db: Database.Database): Promise<WorkflowFile> {
+    const size = await fs.stat(newPath).then(stats => stats.size).catch(() => null);
+    const probeData = (await probeFile(newPath)) as ProbeData | null;
+    const mediaRow = db.prepare('SELECT id FROM media WHERE filePath = ?').get(newPath) as { id: number } | undefined;
+    return { path: newPath, size, probeData, mediaId: mediaRow?.id ?? (newPath === file.path ? file.mediaId : null) };
+}
+
+/**
+ * Queues an encode of every subject file with the node's preset. When waiting for
+ * completion the files are swapped for their encoded outputs as jobs finish.
+ */
+export async function runEncodeFileAction(
+    properties: Record<string, unknown>,
+    files: WorkflowFile[],
+    db: Database.Database
+): Promise<EncodeFileResult> {
+    const presetRef = String(properties.preset ?? '');
+    const waitForCompletion = properties.waitForCompletion !== false;
+    const overwrite = properties.overwrite === true;
+    if (files.length === 0) {
+        throw new Error('No file to encode');
+    }
+
+    const presets = await getPresets(db);
+    const preset = presets.find(p => p.id === presetRef) ?? presets.find(p => p.name === presetRef);
+    if (!preset) {
+        throw new Error(presetRef ? `Preset "${presetRef}" not found` : 'No preset selected');
+    }
+
+    // A file that can't be queued is an error for that file only; jobs already queued stay tracked
+    const queue = getEncodingQueue();
+    const errors: string[] = [];
+    const fileJobIds: (string | null)[] = [];
+    for (const file of files) {
+        const probeData = file.probeData ?? ((await probeFile(file.path)) as ProbeData | null);
+        if (!probeData) {
+            errors.push(`${path.basename(file.path)}: could not read media info`);
+            fileJobIds.push(null);
+            continue;
+        }
+        const outputPath = getEncodeOutputPath(file.path, String(properties.outputPath ?? ''), String(properties.outputFormat ?? ''), overwrite);
+        const job = queue.addJob({
+            inputPath: file.path,
+            outputPath,
+            overwriteInput: normalizePathKey(outputPath) === normalizePathKey(file.path),
+            preset,
+            probeData,
+            trackSelections: {
+                audio: getAudioTrackActions(probeData.streams, preset),
+                subtitle: getSubtitleTrackActions(probeData.streams, preset),
+            },
+            mediaId: file.mediaId ?? undefined,
+        });
+        console.log(`[WorkflowActions] Queued job ${job.id} to encode ${file.path} with preset "${preset.name}"`);
+        markWorkflowOutput(outputPath);
+        fileJobIds.push(job.id);
+    }
+    const jobIds = fileJobIds.filter((jobId): jobId is string => jobId !== null);
+
+    if (!waitForCompletion) {
+        return { files, jobIds, errors };
+    }
+
+    const jobs = await Promise.all(fileJobIds.map(jobId => jobId ? queue.waitForJob(jobId) : Promise.resolve(undefined)));
+    const encodedFiles = await Promise.all(files.map(async (file, i) => {
+        const job = jobs[i];
+        if (job === undefined) return file; // Never queued; already in errors
+        if (job?.status !== 'completed') {
+            errors.push(`${path.basename(file.path)}: ${job ? job.error || `job ${job.status}` : 'job was removed from the queue'}`);
+            return file;
+        }
+        return refreshWorkflowFile(file, job.outputPath, db);
+    }));
+    return { files: encodedFiles, jobIds, errors };
+}
+
+// Characters that can't appear in a file name on any platform we run on
+const UNSAFE_NAME_CHARS = /[<>:"/\\|?*]/g;
+
+function formatDate(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// S01E02 or 1x02 in the file name
+function parseEpisodeNumbers(name: string): { season: string; episode: string } | null {
+    const match = name.match(/S(\d{1,2})[ ._-]?E(\d{1,3})/i) ?? name.match(/\b(\d{1,2})x(\d{2,3})\b/i);
+    return match ? { season: match[1].padStart(2, '0'), episode: match[2].padStart(2, '0') } : null;
+}
+
+/**
+ * Values for the tokens Move and Rename accept. Null means the file doesn't have one,
+ * e.g. {season} for a movie.
+ */
+function getTokenValues(file: WorkflowFile, db: Database.Database): Record<string, string | null> {
+    const extension = path.extname(file.path);
+    const name = path.basename(file.path, extension);
+    const videoStream = file.probeData?.streams.find(stream => stream.codec_type === 'video');
+    const mediaRow = file.mediaId !== null
+        ? db.prepare('SELECT libraryName FROM media WHERE id = ?').get(file.mediaId) as { libraryName: string | null } | undefined
+        : undefined;
+    const episode = parseEpisodeNumbers(name);
+
+    return {
+        name,
+        ext: extension.replace(/^\./, ''),
+        date: formatDate(new Date()),
+        library: mediaRow?.libraryName ?? getLibraryForPath(file.path)?.libraryName ?? null,
+        resolution: videoStream?.height ? `${videoStream.height}p` : null,
+        codec: videoStream?.codec_name ?? null,
+        season: episode?.season ?? null,
+        episode: episode?.episode ?? null,
+    };
+}
+
+/**
+ * Fills in {name}, {ext}, {date}, {library}, {resolution}, {codec}, {season} and {episode}.
+ * Values are made safe for file names; unknown or unavailable tokens are errors rather
+ * than silently producing an odd path.
+ */
+function expandPathTokens(pattern: string, values: Record<string, string | null>): string {
+    return pattern.replace(/\{(\w+)\}/g, (_match, token: string) => {
+        if (!(token in values)) {
+            throw new Error(`Unknown token {${token}}`);
+        }
+        const value = values[token];
+        if (value === null) {
+            throw new Error(`{${token}} isn't available for this file`);
+        }
+        return value.replace(UNSAFE_NAME_CHARS, '_');
+    });
+}
+
+function getCollisionPolicy(properties: Record<string, unknown>): CollisionPolicy {
+    const collision = properties.collision as CollisionPolicy;
+    if (COLLISION_POLICIES.includes(collision)) return collision;
+    return properties.overwrite === true ? 'overwrite' : 'fail'; // Nodes saved before collision policies
+}
+
+/**
+ * Applies the collision policy to a target path: the path to write, or null to skip the file
+ */
+function resolveTargetPath(sourcePath: string, targetPath: string, policy: CollisionPolicy): string | null {
+    // The source itself doesn't count, so a case-only rename on Windows goes through
+    const isFree = (candidate: string) =>
+        normalizePathKey(candidate) === normalizePathKey(sourcePath) || !fsSync.existsSync(candidate);
+    if (isFree(targetPath)) return targetPath;
+
+    switch (policy) {
+        case 'skip':
+            return null;
+        case 'overwrite':
+            return targetPath;
+        case 'increment': {
+            const extension = path.extname(targetPath);
+            const base = targetPath.slice(0, targetPath.length - extension.length);
+            for (let i = 2; i < 1000; i++) {
+                const candidate = `${base} (${i})${extension}`;
+                if (isFree(candidate)) return candidate;
+            }
+            throw new Error(`No free name found for ${targetPath}`);
+        }
+        default:
+            throw new Error(`${targetPath} already exists`);
+    }
+}
+
+/**
+ * Moves a file, copying across drives when a plain rename can't. The copy goes to a
+ * temporary name first and the source is only removed once the sizes match.
+ */
+async function moveFileSafely(sourcePath: string, targetPath: string): Promise<void> {
+    await fs.mkdir(path.dirname(targetPath), { recursive: true });
+    try {
+        await fs.rename(sourcePath, targetPath);
+        return;
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+    }
+
+    const tempPath = `${targetPath}.recodarr-partial`;
+    try {
+        await fs.copyFile(sourcePath, tempPath);
+        const [sourceStats, copyStats] = await Promise.all([fs.stat(sourcePath), fs.stat(tempPath)]);
+        if (sourceStats.size !== copyStats.size) {
+            throw new Error(`Copy of ${sourcePath} is incomplete (${copyStats.size} of ${sourceStats.size} bytes)`);
+        }
+        await fs.rename(tempPath, targetPath);
+    } catch (error) {
+        await fs.unlink(tempPath).catch(() => undefined);
+        throw error;
+    }
+    await fs.unlink(sourcePath);
+}
+
+/**
+ * Points the file's media row at its new path. A row left behind at an overwritten target is
+ * dropped, the library follows the watched folder the file lands in, and a file moved out of
+ * every library leaves the media table. Returns the file's media id afterwards.
+ */
+function updateMediaPath(db: Database.Database, sourcePath: string, targetPath: string): number | null {
+    const library = getLibraryForPath(targetPath);
+    const update = db.transaction(() => {
+        db.prepare('DELETE FROM media WHERE filePath = ?').run(targetPath);
+        const mediaRow = db.prepare('SELECT id FROM media WHERE filePath = ?').get(sourcePath) as { id: number } | undefined;
+        if (!mediaRow) return null;
+
+        if (storeInstance && !library) {
+            db.prepare('DELETE FROM media WHERE id = ?').run(mediaRow.id);
+            console.log(`[WorkflowActions] ${targetPath} is outside every library; removed it from the media table`);
+            return null;
+        }
+        db.prepare(
+            `UPDATE media SET filePath = ?, title = ?, libraryName = COALESCE(?, libraryName), libraryType = COALESCE(?, libraryType) WHERE id = ?`
+        ).run(targetPath, path.basename(targetPath, path.extname(targetPath)), library?.libraryName ?? null, library?.libraryType ?? null, mediaRow.id);
+        return mediaRow.id;
+    });
+    return update();
+}
+
+/**
+ * Moves or renames each subject file to the path built from it, updating the library to match
+ */
+async function relocateFiles(
+    files: WorkflowFile[],
+    db: Database.Database,
+    policy: CollisionPolicy,
+    getTargetPath: (file: WorkflowFile, tokenValues: Record<string, string | null>) => string
+): Promise<FileActionResult> {
+    const errors: string[] = [];
+    const relocatedFiles: WorkflowFile[] = [];
+    for (const file of files) {
+        try {
+            const requestedPath = getTargetPath(file, getTokenValues(file, db));
+            const targetPath = resolveTargetPath(file.path, requestedPath, policy);
+            if (targetPath === null) {
+                console.log(`[WorkflowActions] Skipping ${file.path}: ${requestedPath} already exists`);
+                relocatedFiles.push(file);
+                continue;
+            }
+            if (path.resolve(targetPath) === path.resolve(file.path)) {
+                relocatedFiles.push(file);
+                continue;
+            }
+
+            markWorkflowOutput(targetPath);
+            await moveFileSafely(file.path, targetPath);
+            const mediaId = updateMediaPath(db, file.path, targetPath);
+            console.log(`[WorkflowActions] Moved ${file.path} to ${targetPath}`);
+            relocatedFiles.push({ ...file, path: targetPath, mediaId });
+        } catch (error) {
+            errors.push(`${path.basename(file.path)}: ${(error as Error).message}`);
+            relocatedFiles.push(file);
+        }
+    }
+    return { files: relocatedFiles, errors };
+}
+
+/**
+ * Moves every subject file into the node's destination folder, which may use path tokens
+ */
+export async function runMoveFileAction(
+    properties: Record<string, unknown>,
+    files: WorkflowFile[],
+    db: Database.Database
+): Promise<FileActionResult> {
+    const destination = String(properties.destination ?? '').trim();
+    if (!destination) {
+        throw new Error('No destination folder set');
+    }
+    if (files.length === 0) {
+        throw new Error('No file to move');
+    }
+    return relocateFiles(files, db, getCollisionPolicy(properties), (file, tokenValues) => {
+        // A relative destination is taken from the file's own folder
+        const folder = path.resolve(path.dirname(file.path), expandPathTokens(destination, tokenValues));
+        return path.join(folder, path.basename(file.path));
+    });
+}
+
+/**
+ * Renames every subject file in place from the node's pattern, keeping the extension
+ * unless the pattern sets it with {ext}
+ */
+export async function runRenameFileAction(
+    properties: Record<string, unknown>,
+    files: WorkflowFile[],
+    db: Database.Database
+): Promise<FileActionResult> {
+    const pattern = String(properties.pattern ?? '').trim();
+    if (!pattern) {
+        throw new Error('No rename pattern set');
+    }
+    // Renaming never changes folders; use Move File for that
+    if (/[/\\]/.test(pattern)) {
+        throw new Error(`Rename pattern "${pattern}" can't contain folder separators`);
+    }
+    if (files.length === 0) {
+        throw new Error('No file to rename');
+    }
+    return relocateFiles(files, db, getCollisionPolicy(properties), (file, tokenValues) => {
+        const name = expandPathTokens(pattern, tokenValues).trim();
+        if (!name || name === '.' || name === '..') {
+            throw new Error(`Pattern "${pattern}" gives an empty file name`);
+        }
+        const targetPath = path.join(path.dirname(file.path), pattern.includes('{ext}') ? name : `${name}${path.extname(file.path)}`);
+        if (path.dirname(targetPath) !== path.dirname(file.path)) {
+            throw new Error(`Pattern "${pattern}" would move the file out of its folder`);
+        }
+        return targetPath;
+    });
+}
+
+/**
+ * Sends every subject file to the recycle bin (or deletes it outright when the node is set
+ * to permanent) and removes it from the library. Deleted files leave the execution context.
+ */
+export async function runDeleteFileAction(
+    properties: Record<string, unknown>,
+    files: WorkflowFile[],
+    db: Database.Database
+): Promise<FileActionResult> {
+    const permanent = properties.permanent === true;
+    if (files.length === 0) {
+        throw new Error('No file to delete');
+    }
+
+    const errors: string[] = [];
+    const remainingFiles: WorkflowFile[] = [];
+    for (const file of files) {
+        try {
+            if (permanent) {
+                await fs.unlink(file.path);
+            } else {
+                await shell.trashItem(file.path);
+            }
+            db.prepare('DELETE FROM media WHERE filePath = ?').run(file.path);
+            console.log(`[WorkflowActions] ${permanent ? 'Deleted' : 'Moved to the recycle bin'}: ${file.path}`);
+        } catch (error) {
+            errors.push(`${path.basename(file.path)}: ${(error as Error).message}`);
+            remainingFiles.push(file);
+        }
+    }
+    return { files: remainingFiles, errors };
+}
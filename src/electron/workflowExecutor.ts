@@ -1,5 +1,10 @@
 import Database from 'better-sqlite3';
 import { BrowserWindow } from 'electron';
+import crypto from 'crypto';
+import path from 'path';
+import fs from 'fs/promises';
+import type { ProbeData } from '../types.js';
+import { runEncodeFileAction, runMoveFileAction, runRenameFileAction, runDeleteFileAction, consumeWorkflowOutput } from './workflowActions.js';
 
 // Define interfaces for workflow elements
 interface WorkflowNodeData {
@@ -44,11 +49,39 @@ interface WorkflowExecutionResult {
     executionId?: number; // ID from the workflow_executions table
 }
 
-interface ExecutionContext {
-    [key: string]: any;
-    errors: string[]; 
+// A file the workflow acts on. Actions that move, rename or re-encode it update the entry.
+export interface WorkflowFile {
+    path: string;
+    size: number | null; // Bytes; null when the file couldn't be read
+    probeData: ProbeData | null;
+    mediaId: number | null; // Row in the media table, when the file is in a library
 }
 
+// A file handed over by the trigger; the executor looks up its size and media row
+export interface TriggerFile {
+    path: string;
+    probeData?: ProbeData | null;
+}
+
+// Passed from node to node; the final snapshot is stored in workflow_executions.execution_data
+export interface ExecutionContext {
+    workflowId: string;
+    executionId: string;
+    triggerNodeId: string;
+    files: WorkflowFile[]; // Subject files; conditions narrow this down for the nodes after them
+    variables: Record<string, unknown>; // Values set by earlier nodes for later ones to read
+    errors: string[];
+}
+
+// What a node did; actions with success/failure outputs report a failure here instead of in context.errors
+interface NodeResult {
+    context: ExecutionContext;
+    failure?: string;
+}
+
+// Actions with separate success and failure outputs
+const BRANCHING_ACTIONS = new Set(['encode-file', 'move-file', 'rename-file', 'delete-file']);
+
 interface WorkflowData {
     id: string;
     name: string;
@@ -66,11 +99,12 @@ interface ExecutionResult {
 async function executeNodeAction(
     node: WorkflowNode, // Use the revised WorkflowNode type
     context: ExecutionContext,
-    _db: Database.Database, 
+    db: Database.Database, 
     mainWindow: BrowserWindow | null
-): Promise<ExecutionContext> {
+): Promise<NodeResult> {
     console.log(`[WorkflowExecutor] Executing action for node ${node.id} (Template ID: ${node.data.id}, Label: "${node.data.label}")`);
     const newContext = { ...context };
+    let failure: string | undefined;
 
     try {
         // Access properties from node.data.properties
@@ -84,6 +118,17 @@ async function executeNodeAction(
                 console.log(`   Action: Scheduled trigger processed for workflow.`);
                 break;
 
+            case 'file-added':
+                console.log(`   Action: File added trigger processed for ${context.files[0]?.path}.`);
+                break;
+
+            case 'file-size':
+            case 'file-type':
+            case 'file-name':
+                newContext.files = context.files.filter(file => fileMatchesCondition(node.data, file));
+                console.log(`   Condition: ${newContext.files.length} of ${context.files.length} file(s) passed "${node.data.label}".`);
+                break;
+
             case 'send-notification':
                 const { 
                     message = 'Default notification message',
@@ -96,6 +141,32 @@ async function executeNodeAction(
                     mainWindow.webContents.send('show-toast-notification', { title, type, message });
                 }
                 break;
+
+            case 'encode-file': {
+                const result = await runEncodeFileAction(node.data.properties || {}, context.files, db);
+                newContext.files = result.files;
+                newContext.variables = { ...context.variables, encodeJobIds: result.jobIds };
+                if (result.errors.length > 0) {
+                    failure = `Encode failed for ${result.errors.join('; ')}`;
+                }
+                console.log(`   Action: Encode File queued ${result.jobIds.length} job(s)${node.data.properties?.waitForCompletion === false ? '' : `, ${result.errors.length} failed`}.`);
+                break;
+            }
+
+            case 'move-file':
+            case 'rename-file':
+            case 'delete-file': {
+                const runFileAction = node.data.id === 'move-file' ? runMoveFileAction
+                    : node.data.id === 'rename-file' ? runRenameFileAction
+                    : runDeleteFileAction;
+                const result = await runFileAction(node.data.properties || {}, context.files, db);
+                newContext.files = result.files;
+                if (result.errors.length > 0) {
+                    failure = result.errors.join('; ');
+                }
+                console.log(`   Action: ${node.data.label} handled ${context.files.length} file(s), ${result.errors.length} failed.`);
+                break;
+            }
             
             default:
                 console.warn(`   Action: No specific action implemented for template ID "${node.data.id}". Skipping.`);
@@ -103,10 +174,76 @@ async function executeNodeAction(
         }
     } catch (actionError) {
         console.error(`   Error executing action for node ${node.id} (${node.data.label}):`, actionError);
-        newContext.errors.push(`Action failed for ${node.data.label}: ${(actionError as Error).message}`);
+        if (BRANCHING_ACTIONS.has(node.data.id)) {
+            failure = (actionError as Error).message;
+        } else {
+            newContext.errors.push(`Action failed for ${node.data.label}: ${(actionError as Error).message}`);
+        }
     }
     
-    return newContext;
+    return { context: newContext, failure };
+}
+
+/**
+ * The edge to follow out of a node. Branching actions take the edge from their success or
+ * failure output; an edge without a handle (saved before handles were stored) counts as success.
+ */
+function getNextEdge(edges: WorkflowEdge[], node: WorkflowNode, failed: boolean): WorkflowEdge | undefined {
+    const outgoing = edges.filter(edge => edge.source === node.id);
+    if (!BRANCHING_ACTIONS.has(node.data.id)) return outgoing[0];
+    if (failed) return outgoing.find(edge => edge.sourceHandle === `${node.id}-failure`);
+    return outgoing.find(edge => edge.sourceHandle === `${node.id}-success`)
+        ?? outgoing.find(edge => !edge.sourceHandle || edge.sourceHandle === `${node.id}-out`);
+}
+
+const SIZE_UNITS: Record<string, number> = { KB: 1024, MB: 1024 ** 2, GB: 1024 ** 3 };
+
+/**
+ * Whether a subject file passes a File Size, File Type or File Name condition node
+ */
+function fileMatchesCondition(data: WorkflowNodeData, file: WorkflowFile): boolean {
+    const properties = data.properties || {};
+    switch (data.id) {
+        case 'file-size': {
+            if (file.size === null) return false;
+            const { operator = 'greater', size = 0, unit = 'MB' } = properties;
+            const value = file.size / (SIZE_UNITS[unit] ?? SIZE_UNITS.MB);
+            if (operator === 'less') return value < Number(size);
+            if (operator === 'equal') return Math.round(value) === Number(size);
+            return value > Number(size);
+        }
+        case 'file-type': {
+            // Each entry is an extension ("mkv") or a stream type the file must contain ("video", "audio", "subtitle")
+            const { types = [], matchAny = true } = properties;
+            const extension = path.extname(file.path).slice(1).toLowerCase();
+            const streamTypes = new Set<string>(file.probeData?.streams.map(stream => stream.codec_type) ?? []);
+            const matches = (types as string[]).map(type => {
+                const normalized = String(type).replace(/^\./, '').toLowerCase();
+                return normalized === extension || streamTypes.has(normalized);
+            });
+            if (matches.length === 0) return true;
+            return matchAny ? matches.some(Boolean) : matches.every(Boolean);
+        }
+        case 'file-name': {
+            const { pattern = '', caseSensitive = false, useRegex = false } = properties;
+            if (!pattern) return true;
+            const name = path.basename(file.path);
+            if (useRegex) return new RegExp(pattern, caseSensitive ? '' : 'i').test(name);
+            if (/[*?]/.test(pattern)) return filePatternToRegex(pattern, caseSensitive).test(name);
+            return caseSensitive ? name.includes(pattern) : name.toLowerCase().includes(String(pattern).toLowerCase());
+        }
+        default:
+            return true;
+    }
+}
+
+/**
+ * Fills in the size and media row of a file handed over by the trigger
+ */
+async function resolveWorkflowFile(file: TriggerFile, db: Database.Database): Promise<WorkflowFile> {
+    const size = await fs.stat(file.path).then(stats => stats.size).catch(() => null);
+    const mediaRow = db.prepare('SELECT id FROM media WHERE filePath = ?').get(file.path) as { id: number } | undefined;
+    return { path: file.path, size, probeData: file.probeData ?? null, mediaId: mediaRow?.id ?? null };
 }
 
 async function getWorkflowDetailsFromDb(workflowId: string, db: Database.Database): Promise<WorkflowData | null> {
@@ -146,7 +283,8 @@ export async function executeWorkflow(
     triggerNodeId: string,
     db: Database.Database,
     mainWindow: BrowserWindow | null,
-    executionId: string
+    executionId: string,
+    triggerFiles: TriggerFile[] = [] // Subject files from the trigger event, e.g. the file that was added
 ): Promise<ExecutionResult> {
     console.log(`[WorkflowExecutor] Starting execution for workflow: ${workflowId}, trigger: ${triggerNodeId}, execution ID: ${executionId}`);
     mainWindow?.webContents.send('workflow-status', { workflowId, executionId, status: 'starting', message: 'Workflow starting...' });
@@ -163,7 +301,7 @@ export async function executeWorkflow(
 
     let finalStatus: 'running' | 'completed' | 'failed' | 'error' = 'error';
     let finalMessage: string = 'Workflow execution failed due to an unexpected error.';
-    let executionContext: ExecutionContext = { errors: [] };
+    let executionContext: ExecutionContext = { workflowId, executionId, triggerNodeId, files: [], variables: {}, errors: [] };
 
     try {
         const workflow = await getWorkflowDetailsFromDb(workflowId, db);
@@ -177,12 +315,14 @@ export async function executeWorkflow(
         }
         // Validate against node.data.id (template ID) and node.type (ReactFlow type from DB)
         const isValidTrigger = triggerNode.type === 'trigger' && 
-            (triggerNode.data?.id === 'manual-trigger' || triggerNode.data?.id === 'scheduled');
+            (triggerNode.data?.id === 'manual-trigger' || triggerNode.data?.id === 'scheduled' || triggerNode.data?.id === 'file-added');
         
         if (!isValidTrigger) {
             throw new Error(`Node ${triggerNodeId} (Template: ${triggerNode.data?.id}, Type: ${triggerNode.type}) is not a valid trigger for execution.`);
         }
 
+        executionContext.files = await Promise.all(triggerFiles.map(file => resolveWorkflowFile(file, db)));
+
         console.log(`[WorkflowExecutor] Successfully validated trigger ${triggerNodeId} (${triggerNode.data?.id}) for workflow ${workflow.name} (Execution ID: ${executionId}).`);
         mainWindow?.webContents.send('workflow-status', { workflowId, executionId, status: 'running', message: `Executing workflow: ${workflow.name}...` });
 
@@ -197,16 +337,28 @@ export async function executeWorkflow(
             }
             visitedNodeIds.add(currentNode.id);
 
-            executionContext = await executeNodeAction(currentNode, executionContext, db, mainWindow);
+            const nodeResult = await executeNodeAction(currentNode, executionContext, db, mainWindow);
+            executionContext = nodeResult.context;
             
             if (executionContext.errors.length > 0 && nodeIsCritical(currentNode)) {
                 console.error(`[WorkflowExecutor] Critical error after node ${currentNode.data.label || currentNode.id}. Workflow may be unstable.`);
             }
 
-            const outgoingEdges = workflow.edges.filter(edge => edge.source === currentNode?.id);
+            if (currentNode.data.type === 'condition' && executionContext.files.length === 0) {
+                console.log(`[WorkflowExecutor] No files passed condition ${currentNode.data.label || currentNode.id}. Ending this path.`);
+                break;
+            }
+
+            const nextEdge = getNextEdge(workflow.edges, currentNode, nodeResult.failure !== undefined);
+            if (nodeResult.failure !== undefined) {
+                if (nextEdge) {
+                    console.log(`[WorkflowExecutor] ${currentNode.data.label || currentNode.id} failed (${nodeResult.failure}); following its failure output.`);
+                } else {
+                    executionContext.errors.push(`Action failed for ${currentNode.data.label}: ${nodeResult.failure}`);
+                }
+            }
             
-            if (outgoingEdges.length > 0) {
-                const nextEdge = outgoingEdges[0];
+            if (nextEdge) {
                 currentNode = workflow.nodes.find(node => node.id === nextEdge.target);
                 if (!currentNode) {
                     console.warn(`[WorkflowExecutor] Next node ID ${nextEdge.target} found in edge, but node data is missing.`);
@@ -241,9 +393,9 @@ export async function executeWorkflow(
         try {
             db.prepare(
                 `UPDATE workflow_executions
-                 SET completed_at = datetime('now'), status = ?, error_message = ?
+                 SET completed_at = datetime('now'), status = ?, error_message = ?, execution_data = ?
                  WHERE id = ?`
-            ).run(finalStatus, (finalStatus === 'failed' || finalStatus === 'error') ? finalMessage : null, executionId);
+            ).run(finalStatus, (finalStatus === 'failed' || finalStatus === 'error') ? finalMessage : null, JSON.stringify(executionContext), executionId);
             console.log(`[WorkflowExecutor] Logged final status '${finalStatus}' for execution ID ${executionId}.`);
         } catch (dbError) {
             console.error(`[WorkflowExecutor] DB Error logging completion for ${executionId}:`, dbError);
@@ -251,6 +403,62 @@ export async function executeWorkflow(
     }
 }
 
+// Turns a file pattern (e.g. "*.mkv;*.mp4") into a regex on the file name
+function filePatternToRegex(filePattern: string, caseSensitive: boolean = false): RegExp {
+    const patterns = filePattern.split(/[;,]/).map(p => p.trim()).filter(Boolean);
+    const source = (patterns.length > 0 ? patterns : ['*'])
+        .map(p => p.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.'))
+        .join('|');
+    return new RegExp(`^(?:${source})$`, caseSensitive ? '' : 'i');
+}
+
+function fileAddedTriggerMatches(properties: WorkflowNodeData['properties'], filePath: string): boolean {
+    const { folderPath = '', filePattern = '*.*', includeSubfolders = false } = properties;
+    if (folderPath) {
+        const relative = path.relative(path.resolve(folderPath), path.resolve(filePath));
+        if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) return false;
+        if (!includeSubfolders && path.dirname(relative) !== '.') return false;
+    }
+    return filePatternToRegex(String(filePattern)).test(path.basename(filePath));
+}
+
+/**
+ * Runs every active workflow with a File Added trigger that matches a new file, passing
+ * the file's path and probe data into the execution context. An empty trigger folder
+ * matches files in any watched folder.
+ */
+export async function runFileAddedWorkflows(
+    filePath: string,
+    probeData: ProbeData | null,
+    db: Database.Database,
+    mainWindow: BrowserWindow | null
+): Promise<void> {
+    if (consumeWorkflowOutput(filePath)) {
+        console.log(`[WorkflowExecutor] ${filePath} was written by a workflow action; not running File Added workflows for it`);
+        return;
+    }
+
+    const triggerRows = db.prepare(
+        `SELECT n.workflow_id, n.node_id, n.data FROM workflow_nodes n
+         JOIN workflows w ON w.id = n.workflow_id
+         WHERE w.is_active = 1 AND n.node_type = 'trigger'`
+    ).all() as { workflow_id: string; node_id: string; data: string | null }[];
+
+    for (const row of triggerRows) {
+        const nodeData = JSON.parse(row.data || '{}') as WorkflowNodeData;
+        if (nodeData.id !== 'file-added' || !fileAddedTriggerMatches(nodeData.properties || {}, filePath)) continue;
+
+        console.log(`[WorkflowExecutor] File ${filePath} matches File Added trigger ${row.node_id} of workflow ${row.workflow_id}`);
+        try {
+            db.prepare(`UPDATE workflows SET last_triggered_at = datetime('now') WHERE id = ?`).run(row.workflow_id);
+            const result = await executeWorkflow(row.workflow_id, row.node_id, db, mainWindow, crypto.randomUUID(), [{ path: filePath, probeData }]);
+            console.log(`[WorkflowExecutor] File Added workflow ${row.workflow_id} finished: Success=${result.success}, Message=${result.message}`);
+        } catch (error) {
+            console.error(`[WorkflowExecutor] Error running File Added workflow ${row.workflow_id} for ${filePath}:`, error);
+        }
+    }
+}
+
 function nodeIsCritical(node: WorkflowNode): boolean {
     // Example: A trigger node's successful processing might be considered critical.
     // The `type` here refers to the ReactFlow node type (e.g., 'trigger', 'action')
@@ -1,7 +1,6 @@
 import { useState, useEffect } from 'react';
 import { EncodingPreset, ProbeData } from '../types.js';
-import { TrackAction } from '../utils/encodingUtil.js';
-import queueService, { EncodingJob, JobStatus, QueueEventCallbacks } from '../services/queueService.js';
+import queueService, { EncodingJob, JobStatus, QueueConfig, QueueEventCallbacks, TrackAction } from '../services/queueService.js';
 
 /**
  * Hook for interacting with the encoding queue in components
@@ -13,6 +12,8 @@ export const useQueue = (callbacks?: Partial<QueueEventCallbacks>) => {
   const [jobs, setJobs] = useState<EncodingJob[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [queueConfig, setQueueConfig] = useState(() => queueService.getConfig());
+  const [queueWindow, setQueueWindow] = useState(() => queueService.getWindowState());
+  const [loadHold, setLoadHold] = useState(() => queueService.getLoadHold());
   
   // Set up event handling
   useEffect(() => {
@@ -37,6 +38,18 @@ export const useQueue = (callbacks?: Partial<QueueEventCallbacks>) => {
         setJobs(current => current.map(j => j.id === job.id ? job : j));
         callbacks?.onJobFailed?.(job, error);
       },
+      onJobCancelled: (job) => {
+        setJobs(current => current.map(j => j.id === job.id ? job : j));
+        callbacks?.onJobCancelled?.(job);
+      },
+      onJobPaused: (job) => {
+        setJobs(current => current.map(j => j.id === job.id ? job : j));
+        callbacks?.onJobPaused?.(job);
+      },
+      onJobResumed: (job) => {
+        setJobs(current => current.map(j => j.id === job.id ? job : j));
+        callbacks?.onJobResumed?.(job);
+      },
       onJobRemoved: (jobId) => {
         setJobs(current => current.filter(j => j.id !== jobId));
         callbacks?.onJobRemoved?.(jobId);
@@ -55,6 +68,14 @@ export const useQueue = (callbacks?: Partial<QueueEventCallbacks>) => {
       onHistoryCleared: () => {
         setJobs(queueService.getAllJobs());
         callbacks?.onHistoryCleared?.();
+      },
+      onWindowChanged: (window) => {
+        setQueueWindow(window);
+        callbacks?.onWindowChanged?.(window);
+      },
+      onLoadHoldChanged: (hold) => {
+        setLoadHold(hold);
+        callbacks?.onLoadHoldChanged?.(hold);
       }
     };
     
@@ -63,6 +84,8 @@ export const useQueue = (callbacks?: Partial<QueueEventCallbacks>) => {
     
     // Initial load
     setJobs(queueService.getAllJobs());
+    setQueueWindow(queueService.getWindowState());
+    setLoadHold(queueService.getLoadHold());
     
     // Cleanup on unmount
     return () => {
@@ -103,6 +126,27 @@ export const useQueue = (callbacks?: Partial<QueueEventCallbacks>) => {
     return queueService.removeJob(jobId);
   };
   
+  /**
+   * Cancel a queued or processing job, keeping it in the history
+   */
+  const cancelJob = (jobId: string): Promise<boolean> => {
+    return queueService.cancelJob(jobId);
+  };
+  
+  /**
+   * Suspend a processing job's encode
+   */
+  const pauseJob = (jobId: string): Promise<boolean> => {
+    return queueService.pauseJob(jobId);
+  };
+  
+  /**
+   * Continue a paused job's encode
+   */
+  const resumeJob = (jobId: string): Promise<boolean> => {
+    return queueService.resumeJob(jobId);
+  };
+  
   /**
    * Start processing the queue
    */
@@ -127,7 +171,7 @@ export const useQueue = (callbacks?: Partial<QueueEventCallbacks>) => {
   /**
    * Update queue configuration
    */
-  const updateQueueConfig = (config: { maxParallelJobs?: number; autoStart?: boolean }) => {
+  const updateQueueConfig = (config: Partial<QueueConfig>) => {
     queueService.updateConfig(config);
     setQueueConfig(queueService.getConfig());
   };
@@ -140,6 +184,7 @@ export const useQueue = (callbacks?: Partial<QueueEventCallbacks>) => {
       total: jobs.length,
       queued: jobs.filter(job => job.status === 'queued').length,
       processing: jobs.filter(job => job.status === 'processing').length,
+      paused: jobs.filter(job => job.status === 'paused').length,
       completed: jobs.filter(job => job.status === 'completed').length,
       failed: jobs.filter(job => job.status === 'failed' || job.status === 'cancelled').length
     };
@@ -149,8 +194,13 @@ export const useQueue = (callbacks?: Partial<QueueEventCallbacks>) => {
     jobs,
     isProcessing,
     queueConfig,
+    queueWindow,
+    loadHold,
     addToQueue,
     removeFromQueue,
+    cancelJob,
+    pauseJob,
+    resumeJob,
     startQueue,
     pauseQueue,
     updateQueueConfig,
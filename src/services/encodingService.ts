@@ -1,118 +1,12 @@
-import { ProbeData, EncodingPreset, EncodingResult } from '../types.js';
-import { buildEncodingOptions, TrackAction } from '../utils/encodingUtil.js';
-
 /**
  * EncodingService provides a standard interface for encoding operations
- * across the application. It abstracts away the details of how encoding
- * is performed and how presets are applied.
+ * across the application. Jobs themselves are built and run by the queue
+ * in the main process; this module handles logs and progress updates.
  */
 
 // Access the Electron API
 const electronAPI = window.electron;
 
-/**
- * Create and start an encoding job with the given parameters
- * 
- * @param inputPath Path to the input file
- * @param outputPath Path to save the output file (can be the same as input for overwrite)
- * @param overwriteInput Whether to overwrite the input file
- * @param preset Optional encoding preset to use
- * @param probeData Probe data for the input file
- * @param trackSelections Selected tracks to include
- * @param jobId Optional job ID for tracking progress updates
- * @returns Promise with encoding result
- */
-export async function createEncodingJob(
-  inputPath: string,
-  outputPath: string,
-  overwriteInput: boolean,
-  preset: EncodingPreset | undefined,
-  probeData: ProbeData,
-  trackSelections: {
-    audio: { [index: number]: TrackAction },
-    subtitle: { [index: number]: TrackAction }
-  },
-  jobId?: string
-): Promise<EncodingResult> {
-  try {
-    // Build encoding options using the utility function
-    const options = buildEncodingOptions(
-      inputPath,
-      outputPath,
-      overwriteInput,
-      probeData,
-      preset,
-      trackSelections.audio,
-      trackSelections.subtitle
-    );
-    
-    // IMPORTANT: Always ensure a job ID for tracking progress
-    if (!jobId) {
-      // Generate a consistent job ID if not provided
-      jobId = `job_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-      console.warn(`EncodingService: Generated fallback job ID ${jobId} for encoding ${inputPath} -> ${outputPath}`);
-    }
-    
-    // Always set the job ID in options
-    options.jobId = jobId;
-    console.log(`EncodingService: Starting job ${jobId} for ${inputPath}`);
-    
-    console.log('EncodingService: Starting encoding job with options:', {
-      ...options,
-      inputPath: options.inputPath, // Log important properties directly
-      outputPath: options.outputPath,
-      jobId: options.jobId,
-      overwriteInput: options.overwriteInput
-    });
-    
-    // Start the encoding process
-    const result = await electronAPI.startEncodingProcess(options);
-    
-    // Ensure result contains job ID for consistent tracking
-    if (!result.jobId) {
-      result.jobId = jobId;
-    }
-    
-    // If the result contains a different logFileId than our jobId (like a UUID), 
-    // store this mapping for later use
-    const resultWithLogFileId = result as { jobId?: string; logFileId?: string; success: boolean; error?: string };
-    if (resultWithLogFileId.logFileId && resultWithLogFileId.logFileId !== jobId) {
-      console.log(`EncodingService: Log file ID (${resultWithLogFileId.logFileId}) differs from job ID (${jobId})`);
-      
-      // Store this mapping in the DB for future reference
-      try {
-        // Using a special table for job-log mappings
-        await electronAPI.dbQuery(`
-          CREATE TABLE IF NOT EXISTS job_log_mappings (
-            jobId TEXT PRIMARY KEY,
-            logFileId TEXT NOT NULL,
-            createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-          )
-        `);
-        
-        await electronAPI.dbQuery(
-          'INSERT OR REPLACE INTO job_log_mappings (jobId, logFileId) VALUES (?, ?)',
-          [jobId, resultWithLogFileId.logFileId]
-        );
-        
-        console.log(`EncodingService: Saved job-log mapping for ${jobId} -> ${resultWithLogFileId.logFileId}`);
-      } catch (dbError) {
-        console.error('EncodingService: Error saving job-log mapping:', dbError);
-      }
-    }
-    
-    return result;
-  } catch (error) {
-    console.error('EncodingService: Error creating encoding job:', error);
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    return {
-      success: false,
-      error: `Failed to create encoding job: ${errorMessage}`,
-      jobId: jobId // Return the job ID even on failure for tracking
-    };
-  }
-}
-
 /**
  * Get the log for a specific encoding job
  * 
@@ -136,6 +30,9 @@ export interface EncodingProgressUpdate {
   fps?: number;
   frame?: number;
   totalFrames?: number;
+  speed?: number; // Encoding speed as a multiple of realtime
+  bitrate?: number; // Current output bitrate in kbps
+  eta?: number; // Estimated seconds remaining
   logFileId?: string;
 }
 
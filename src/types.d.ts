@@ -10,6 +10,11 @@ export interface StreamInfo {
     width?: number;
     height?: number;
     pix_fmt?: string;
+    color_range?: string;
+    color_space?: string;
+    color_transfer?: string; // smpte2084 (PQ) and arib-std-b67 (HLG) mark HDR
+    color_primaries?: string;
+    side_data_list?: { side_data_type?: string; [key: string]: string | number | undefined }[];
     // Audio specific
     sample_rate?: string;
     channels?: number;
@@ -44,6 +49,23 @@ export interface ProbeData {
         videoCodec: string;
         audioCodec: string;
     };
+    hdr?: HdrInfo | null; // Set by probeFile; null for SDR sources
+}
+
+export interface HdrInfo {
+    // Base layer format; 'dolby_vision' means there is no HDR10/HLG fallback (profile 5)
+    format: 'hdr10' | 'hlg' | 'dolby_vision';
+    colorPrimaries?: string;
+    colorTransfer?: string;
+    colorSpace?: string;
+    masterDisplay?: string; // x265 notation: G(x,y)B(x,y)R(x,y)WP(x,y)L(max,min)
+    maxCll?: string; // "MaxCLL,MaxFALL" in cd/m²
+    dolbyVision?: {
+        profile: number;
+        level?: number;
+        compatibilityId?: number; // Base layer compatibility: 1 = HDR10, 2 = SDR, 4 = HLG, 0 = none
+    };
+    hdr10Plus?: boolean; // SMPTE 2094-40 dynamic metadata on the frames
 }
 
 
@@ -76,6 +98,23 @@ export interface EncodingOptions {
     mapSubtitle?: string[]; // Array for multiple subtitle tracks
     // General options
     hwAccel?: 'auto' | 'qsv' | 'nvenc' | 'cuda' | 'vaapi' | 'videotoolbox' | 'none';
+    seekSeconds?: number; // Start this far into the input
+    rateControlMode?: 'quality' | 'average_bitrate' | 'capped_vbr' | 'target_size';
+    videoBitrateKbps?: number; // Resolved from the target size for 'target_size'
+    videoMaxBitrateKbps?: number;
+    videoBufferSizeKbps?: number;
+    // Color tags and HDR10 static metadata written to the output
+    colorPrimaries?: string;
+    colorTransfer?: string;
+    colorSpace?: string;
+    hdrMasterDisplay?: string;
+    hdrMaxCll?: string;
+    toneMapHdr?: boolean; // videoFilter tone-maps HDR to SDR, so frames must be decoded to system memory
+    stripDynamicHdr?: boolean; // Drop Dolby Vision RPUs/config and HDR10+ metadata from the output
+    filmGrain?: number; // Film grain synthesis strength for the software AV1 encoders
+    vaapiDevice?: string; // DRM render node for the VAAPI encoders
+    gpuIndex?: number; // GPU the queue assigned, counted among GPUs of the same vendor
+    gpuVendor?: 'intel' | 'nvidia' | 'amd';
     duration?: number;
     // --- For logging ---
     jobId?: string;
@@ -93,8 +132,249 @@ export interface EncodingResult {
     finalSizeMB?: number;
     reductionPercent?: number;
     jobId?: string; // Add jobId for tracking
+    cancelled?: boolean; // True when the encode was stopped by the user
+    qualityMetric?: 'vmaf' | 'ssim'; // Set when the preset enables quality verification
+    qualityScore?: number; // VMAF 0-100 or SSIM 0-1
+}
+
+// --- Encoding Queue Types ---
+export type EncodingJobStatus = 'queued' | 'processing' | 'paused' | 'verifying' | 'completed' | 'failed' | 'cancelled';
+export type TrackActionData = 'keep' | 'convert' | 'discard';
+
+// A queued encode, shared by the main-process queue and the renderer's mirror of it
+export interface EncodingJobData {
+    id: string;
+    inputPath: string;
+    outputPath: string;
+    overwriteInput: boolean;
+    preset: EncodingPreset | undefined;
+    probeData: ProbeData;
+    trackSelections: {
+        audio: { [index: number]: TrackActionData },
+        subtitle: { [index: number]: TrackActionData }
+    };
+    status: EncodingJobStatus;
+    progress: number;
+    fps?: number;
+    frame?: number;
+    totalFrames?: number;
+    speed?: number; // Multiple of realtime
+    bitrate?: number; // kbps
+    eta?: number; // Seconds remaining
+    error?: string;
+    result?: EncodingResult;
+    priority: number; // Higher numbers = higher priority
+    addedAt: Date;
+    processingStartTime?: string;
+    processingEndTime?: string;
+    mediaId?: number; // Optional media database ID for updating on completion
+    device?: { id: number; type: 'CPU' | 'GPU'; index: number; vendor?: 'intel' | 'nvidia' | 'amd'; label: string }; // Device the dispatcher picked, unset when hardware_info has no matching device
+    encoderAttempts?: NonNullable<EncodingPreset['videoCodec']>[]; // Set once the fallback chain kicks in; the last entry is the encoder in use
+    attempts?: number; // Tries on the current encoder, counted when the job starts
+    nextRetryAt?: string; // When a job waiting out a retry backoff may start again
+    pausedBySchedule?: boolean; // Paused because an encoding window closed; resumed when it reopens
+    pausedByLoad?: boolean; // Paused under sustained system load; resumed once it eases
+    lowPriority?: boolean; // ffmpeg was reniced under sustained system load
+}
+
+// Everything needed to queue a job; the queue fills in status, progress, etc.
+export interface NewEncodingJobData {
+    id?: string;
+    inputPath: string;
+    outputPath: string;
+    overwriteInput: boolean;
+    preset: EncodingPreset | undefined;
+    probeData: ProbeData;
+    trackSelections: EncodingJobData['trackSelections'];
+    priority?: number;
+    mediaId?: number;
+}
+
+export interface QueueConfigData {
+    maxParallelJobs: number;
+    autoStart: boolean;
+    recoverInterruptedJobs: boolean;
+    retryPolicy: RetryPolicyData;
+    schedule: QueueScheduleData;
+    loadThrottle: LoadThrottleData;
+}
+
+// Holding and throttling jobs under system load (see src/electron/loadThrottle.ts)
+export interface LoadThrottleData {
+    enabled: boolean;
+    cpuThreshold: number; // Percent; 0 ignores the resource
+    gpuThreshold: number;
+    memoryThreshold: number;
+    sustainedSeconds: number;
+    action: 'renice' | 'pause';
+}
+
+// Encoding windows (see src/electron/queueSchedule.ts)
+export interface QueueDayWindowData {
+    enabled: boolean;
+    startHour: number; // 0-23
+    endHour: number; // 0-24; before startHour runs past midnight, equal to it means all day
+}
+export interface QueueScheduleData {
+    enabled: boolean;
+    days: QueueDayWindowData[]; // 0 is Sunday
+    outsideWindowMaxJobs: number;
+    pauseOutsideWindow: boolean;
+}
+export interface QueueWindowStateData {
+    enabled: boolean;
+    inWindow: boolean;
+    maxParallelJobs: number;
+    nextChangeAt: string | null;
+}
+
+// Retries for jobs that fail with transient errors (see src/electron/retryPolicy.ts)
+export type RetryableErrorClass = 'file_locked' | 'network' | 'disk_full' | 'hardware';
+export interface RetryPolicyData {
+    maxAttempts: number; // Total tries per encoder, including the first
+    backoffSeconds: number;
+    backoffMultiplier: number;
+    retryableErrors: RetryableErrorClass[];
+}
+
+// What crash recovery did at startup (see QueueRecoverySummary in src/electron/queueUtils.ts)
+export interface QueueRecoverySummaryData {
+    requeuedJobIds: string[];
+    removedTempFiles: string[];
+    keptTempFiles: string[];
+}
+
+// --- Preview Encode Types ---
+export interface PreviewEncodeRequest {
+    inputPath: string;
+    preset: EncodingPreset;
+    probeData: ProbeData;
+    trackSelections: {
+        audio: { [index: number]: 'keep' | 'convert' | 'discard' };
+        subtitle: { [index: number]: 'keep' | 'convert' | 'discard' };
+    };
+    sampleCount?: number; // Defaults to 3
+    sampleSeconds?: number; // Defaults to 10
 }
 
+export interface PreviewSegmentResult {
+    index: number;
+    startSeconds: number;
+    durationSeconds: number;
+    sourceBytesEstimate: number; // Source size pro-rated by duration
+    encodedBytes: number;
+    outputPath: string;
+    encodedUrl: string; // Playable via the recodarr-preview scheme
+}
+
+export interface PreviewEncodeResult {
+    success: boolean;
+    error?: string;
+    cancelled?: boolean;
+    sourceBytes?: number;
+    projectedBytes?: number;
+    projectedReductionPercent?: number;
+    sourceUrl?: string; // Add a #t=start,end fragment to play a segment of the original
+    segments?: PreviewSegmentResult[];
+}
+
+export interface PreviewProgressData {
+    percent: number;
+    segmentIndex: number;
+    segmentCount: number;
+}
+
+// --- Encoding History Types ---
+// A row of the encoding_history table (see src/electron/dbUtils.ts)
+export interface EncodingHistoryEntry {
+    id: number;
+    jobId: string;
+    mediaId: number | null;
+    inputPath: string;
+    outputPath: string | null;
+    status: 'completed' | 'failed' | 'cancelled';
+    presetId: string | null;
+    presetName: string | null;
+    presetSnapshot: EncodingPreset | null; // The preset as it was when the job ran
+    sourceVideoCodec: string | null;
+    sourceAudioCodec: string | null;
+    sourceWidth: number | null;
+    sourceHeight: number | null;
+    targetVideoCodec: string | null;
+    targetAudioCodec: string | null;
+    originalSize: number | null; // Bytes
+    finalSize: number | null; // Bytes
+    reductionPercent: number | null;
+    mediaDurationSeconds: number | null;
+    encodeDurationSeconds: number | null;
+    averageFps: number | null;
+    hwAccel: string | null;
+    videoEncoder: string | null; // ffmpeg encoder, e.g. hevc_qsv
+    qualityMetric: 'vmaf' | 'ssim' | null;
+    qualityScore: number | null;
+    error: string | null;
+    startedAt: string | null;
+    finishedAt: string;
+}
+
+export interface EncodingHistoryFilters {
+    status?: EncodingHistoryEntry['status'];
+    presetId?: string;
+    search?: string; // Matches input or output path
+    startDate?: string; // ISO date, inclusive
+    endDate?: string;
+    limit?: number;
+}
+
+// --- Savings Estimate Types ---
+// A media row to estimate, as stored in the media table
+export interface SavingsEstimateFile {
+    id: number;
+    size: number; // Current size in bytes
+    videoCodec: string | null;
+    resolutionHeight: number | null;
+}
+
+// How closely the history used for an estimate matched the file
+export type SavingsEstimateMatch = 'exact' | 'codec' | 'preset' | 'none';
+
+export interface SavingsEstimateFileResult {
+    id: number;
+    match: SavingsEstimateMatch;
+    sampleCount: number;
+    estimatedBytes?: number;
+    estimatedSavingsBytes?: number;
+    estimatedEncodeSeconds?: number;
+}
+
+export interface SavingsEstimate {
+    files: SavingsEstimateFileResult[];
+    totalOriginalBytes: number;
+    totalEstimatedBytes: number; // Only covers files with an estimate
+    totalEstimatedSavingsBytes: number;
+    totalEncodeSeconds: number; // Sequential; divide by parallel jobs for wall time
+    estimatedFileCount: number;
+    historySampleCount: number;
+}
+
+export interface QueueStateData {
+    jobs: EncodingJobData[];
+    config: QueueConfigData;
+    isProcessing: boolean;
+    window: QueueWindowStateData;
+    loadHold: string | null;
+}
+
+// Payload of the 'queue-event' channel (see QueueEvent in src/electron/queueUtils.ts)
+export type QueueEventData =
+    | { type: 'jobAdded' | 'jobStarted' | 'jobProgress' | 'jobCompleted' | 'jobFailed' | 'jobCancelled' | 'jobPaused' | 'jobResumed'; job: EncodingJobData }
+    | { type: 'jobRemoved'; jobId: string }
+    | { type: 'queueStarted' | 'queuePaused' | 'queueEmpty' }
+    | { type: 'jobsReplaced'; jobs: EncodingJobData[] }
+    | { type: 'configChanged'; config: QueueConfigData }
+    | { type: 'windowChanged'; window: QueueWindowStateData }
+    | { type: 'loadHoldChanged'; loadHold: string | null };
+
 // --- Dialog Types --- (Keep existing)
 interface DialogOptions {
     properties?: Array<'openFile' | 'openDirectory' | 'multiSelections' | 'showHiddenFiles'>;
@@ -143,14 +423,27 @@ export interface HardwareInfo {
     device_type: 'CPU' | 'GPU';
     vendor: string;
     model: string;
+    device_id: string | null; // Index among GPUs of the same vendor ('0' for the CPU)
     cores_threads: number | null;
     base_clock_mhz: number | null;
     memory_mb: number | null;
     is_enabled: boolean;
     priority: number;
+    max_concurrent_jobs: number; // Jobs the dispatcher runs on this device at once
     added_at: string;
     last_updated: string;
 };
+// Whether an encoder works with the installed ffmpeg and hardware (see encoderCapabilities.ts)
+export interface EncoderStatus {
+    available: boolean;
+    reason?: string; // Why it can't be used
+    device?: string; // VAAPI render node the test encode succeeded on
+}
+export interface EncoderCapabilities {
+    probedAt: string;
+    hwaccels: string[]; // Methods listed by ffmpeg -hwaccels
+    encoders: Record<string, EncoderStatus>;
+}
 export interface Statistics {
     cpuUsage: number;
     ramUsage: number;
@@ -204,6 +497,7 @@ declare interface EventPayloadMapping {
     "get-hardware-info": HardwareInfo[];
     "update-hardware-priority": void;
     "update-hardware-enabled": void;
+    "update-hardware-max-jobs": void;
     "refresh-hardware-info": HardwareInfo[];
     // Workflow methods are disabled but kept for reference
     /*
@@ -230,14 +524,36 @@ export interface IElectronAPI {
 
     // Encoding Process Methods
     startEncodingProcess: (options: EncodingOptions) => Promise<EncodingResult>; // Keep this one
+    cancelEncoding: (jobId: string) => Promise<{ success: boolean; error?: string }>;
+    pauseEncoding: (jobId: string) => Promise<{ success: boolean; error?: string }>;
+    resumeEncoding: (jobId: string) => Promise<{ success: boolean; error?: string }>;
     // Update callback signature to match preload.cts (includes status, fps, etc.)
-    subscribeEncodingProgress: (callback: (data: { jobId?: string; progress?: number; status?: string; fps?: number; elapsed?: number; frame?: number; totalFrames?: number }) => void) => UnsubscribeFunction;
+    subscribeEncodingProgress: (callback: (data: { jobId?: string; progress?: number; status?: string; fps?: number; elapsed?: number; frame?: number; totalFrames?: number; speed?: number; bitrate?: number; eta?: number }) => void) => UnsubscribeFunction;
     unsubscribeEncodingProgress: () => void;
     getEncodingLog: (jobId: string) => Promise<string | null>; // Added from preload
 
-    // Queue Methods
-    loadQueueData: () => Promise<any>;
-    saveQueueData: (data: any) => Promise<{ success: boolean }>;
+    // Queue Methods (the queue runs in the main process)
+    getQueueState: () => Promise<QueueStateData>;
+    addQueueJob: (job: NewEncodingJobData) => Promise<EncodingJobData>;
+    removeQueueJob: (jobId: string) => Promise<boolean>;
+    cancelQueueJob: (jobId: string) => Promise<boolean>;
+    pauseQueueJob: (jobId: string) => Promise<boolean>;
+    resumeQueueJob: (jobId: string) => Promise<boolean>;
+    startQueue: () => Promise<void>;
+    pauseQueue: () => Promise<void>;
+    ensureQueueProcessing: () => Promise<void>;
+    clearQueue: () => Promise<void>;
+    clearQueueHistory: () => Promise<void>;
+    updateQueueConfig: (config: Partial<QueueConfigData>) => Promise<void>;
+    getQueueRecoverySummary: () => Promise<QueueRecoverySummaryData | null>;
+    estimateQueueSavings: (presetId: string, files: SavingsEstimateFile[]) => Promise<SavingsEstimate>;
+    getEncodingHistory: (filters?: EncodingHistoryFilters) => Promise<EncodingHistoryEntry[]>;
+    exportEncodingHistoryCsv: (filters?: EncodingHistoryFilters) => Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }>;
+    runPreviewEncode: (request: PreviewEncodeRequest) => Promise<PreviewEncodeResult>;
+    discardPreviewEncode: () => Promise<void>;
+    openPreviewSegment: (filePath: string) => Promise<{ success: boolean; error?: string }>;
+    subscribePreviewProgress: (callback: (progress: PreviewProgressData) => void) => UnsubscribeFunction;
+    subscribeQueueEvents: (callback: (event: QueueEventData) => void) => UnsubscribeFunction;
     getFileSize: (filePath: string) => Promise<number | undefined>;
     startEncoding: (options: any) => Promise<any>;
     openEncodingLog: (jobId: string) => Promise<{ success: boolean; error?: string }>;
@@ -278,9 +594,13 @@ export interface IElectronAPI {
     getManualGpuVram: () => Promise<number | null>;
     setManualGpuVram: (vramMb: number | null) => Promise<void>;
     getHardwareInfo: () => Promise<HardwareInfo[]>;
-    updateHardwarePriority: (deviceId: string, priority: number) => Promise<void>;
-    updateHardwareEnabled: (deviceId: string, isEnabled: boolean) => Promise<void>;
-    refreshHardwareInfo: () => Promise<void>;
+    updateHardwarePriority: (deviceId: number, priority: number) => Promise<void>;
+    updateHardwareEnabled: (deviceId: number, isEnabled: boolean) => Promise<void>;
+    updateHardwareMaxJobs: (deviceId: number, maxJobs: number) => Promise<void>;
+    refreshHardwareInfo: () => Promise<HardwareInfo[]>;
+    getVaapiDevices: () => Promise<string[]>;
+    getEncoderCapabilities: () => Promise<EncoderCapabilities>;
+    refreshEncoderCapabilities: () => Promise<EncoderCapabilities>;
     
     // Workflow methods
     getWorkflows: () => Promise<any[]>;
@@ -356,8 +676,9 @@ export interface DialogResult {
 
 // --- Define EncodingPreset type here to be shared ---
 // (Copied from Presets.tsx / preload.cts)
-const VIDEO_CODECS = ['hevc_qsv', 'h264_qsv', 'av1_qsv', 'hevc_nvenc', 'h264_nvenc', 'av1_nvenc', 'libx265', 'libx264', 'copy'] as const;
+const VIDEO_CODECS = ['hevc_qsv', 'h264_qsv', 'av1_qsv', 'hevc_nvenc', 'h264_nvenc', 'av1_nvenc', 'libx265', 'libx264', 'libsvtav1', 'libaom-av1', 'hevc_vaapi', 'h264_vaapi', 'av1_vaapi', 'hevc_amf', 'h264_amf', 'av1_amf', 'copy'] as const;
 type VideoCodec = typeof VIDEO_CODECS[number];
+type RateControlMode = 'quality' | 'average_bitrate' | 'capped_vbr' | 'target_size';
 const VIDEO_PRESETS = ['veryslow', 'slower', 'slow', 'medium', 'fast', 'faster', 'veryfast', 'ultrafast'] as const;
 type VideoPreset = typeof VIDEO_PRESETS[number];
 const VIDEO_RESOLUTIONS = ['original', '480p', '720p', '1080p', '1440p', '2160p'] as const;
@@ -366,7 +687,7 @@ const AUDIO_CODECS_CONVERT = ['libopus', 'aac', 'eac3'] as const;
 type AudioCodecConvert = typeof AUDIO_CODECS_CONVERT[number];
 const SUBTITLE_CODECS_CONVERT = ['srt', 'mov_text'] as const;
 type SubtitleCodecConvert = typeof SUBTITLE_CODECS_CONVERT[number];
-const HW_ACCEL_OPTIONS = ['auto', 'qsv', 'nvenc', 'cuda', 'none'] as const;
+const HW_ACCEL_OPTIONS = ['auto', 'qsv', 'nvenc', 'cuda', 'vaapi', 'none'] as const;
 type HwAccel = typeof HW_ACCEL_OPTIONS[number];
 const AUDIO_LAYOUT_OPTIONS = ['stereo', 'mono', 'surround5_1'] as const;
 type AudioLayout = typeof AUDIO_LAYOUT_OPTIONS[number];
@@ -390,6 +711,35 @@ interface EncodingPreset {
     subtitleLanguageOrder?: string[]; // Ordered array of subtitle language codes in priority order
     subtitleTypeOrder?: string[]; // Ordered array of subtitle types (forced, sdh, cc, etc.) in priority order
     removeAllSubtitles?: boolean; // Flag to remove all subtitle streams from output
+    // --- Rate Control ---
+    rateControlMode?: RateControlMode; // Defaults to 'quality' (videoQuality as CRF/global_quality/CQ)
+    videoBitrateKbps?: number; // Average bitrate for 'average_bitrate' and 'capped_vbr'
+    videoMaxBitrateKbps?: number; // Peak bitrate for 'capped_vbr'
+    videoBufferSizeKbps?: number; // VBV buffer for 'capped_vbr'; defaults to twice the peak
+    targetSizeMB?: number; // Output size for 'target_size' (two-pass on software encoders)
+    // --- Software AV1 (libsvtav1 / libaom-av1) ---
+    // videoQuality is the CRF on a 0-63 scale for these encoders
+    av1Preset?: number; // SVT-AV1 preset 0-13 or libaom cpu-used 0-8; lower is slower and better
+    filmGrain?: number; // Film grain synthesis strength 0-50; 0 disables it
+    // --- VAAPI ---
+    vaapiDevice?: string; // DRM render node, e.g. /dev/dri/renderD128; the first one is used when unset
+    // --- Encoder Fallback ---
+    fallbackEncoders?: VideoCodec[]; // Tried in order when a hardware encode fails, e.g. ['hevc_nvenc', 'libx265']
+    // --- HDR ---
+    hdrPolicy?: 'preserve' | 'tonemap' | 'skip'; // What to do with HDR sources; defaults to 'preserve'
+    // Dolby Vision / HDR10+ sources: skip them, re-encode the base layer without the dynamic
+    // metadata, or copy the video and only convert audio/subtitles. Defaults to 'skip'
+    dynamicHdrPolicy?: 'skip' | 'strip' | 'copy_video';
+    // --- Quality Verification ---
+    verificationMetric?: 'none' | 'vmaf' | 'ssim'; // Compare the encode against the source before replacing it
+    verificationThreshold?: number; // Minimum score (VMAF 0-100, SSIM 0-1); lower scores keep the original
+    verificationSampled?: boolean; // Score a few short segments instead of the whole file
+    // --- Guard Rules (checked before the encode replaces anything; violations fail the job) ---
+    guardMinReductionPercent?: number; // Output must be at least this much smaller than the source
+    guardMaxSizeRatio?: number; // Output size / source size must not exceed this (e.g. 1.0 = never larger)
+    guardDurationToleranceSeconds?: number; // Allowed difference between output and source duration
+    guardRequireAudioStreams?: boolean; // Output must contain every selected audio track
+    guardRequireSubtitleStreams?: boolean; // Output must contain every selected subtitle track
 }
 // --- End EncodingPreset type definition --- 
 
@@ -12,10 +12,31 @@ import ManualEncode from './pages/ManualEncode'; // Import ManualEncode
 import Presets from './pages/Presets'; // Import the new Presets page
 import Queue from './pages/Queue'; // Import the Queue page
 import AutomaticReduction from './pages/AutomaticReduction'; // Import AutomaticReduction
+import History from './pages/History';
 import './App.css';
 import { useEffect, useState } from 'react';
+import { Toaster, toast } from 'sonner';
 
 function App() {
+    // Tell the user what queue crash recovery did at startup (only reported once per launch)
+    useEffect(() => {
+        window.electron.getQueueRecoverySummary().then(summary => {
+            if (!summary) return;
+            const { requeuedJobIds, removedTempFiles, keptTempFiles } = summary;
+            if (requeuedJobIds.length > 0) {
+                toast.success(`Recovered ${requeuedJobIds.length} interrupted encoding job${requeuedJobIds.length === 1 ? '' : 's'}`, {
+                    description: `Re-queued at their original priority. Removed ${removedTempFiles.length} partial temporary file${removedTempFiles.length === 1 ? '' : 's'}.`,
+                });
+            }
+            if (keptTempFiles.length > 0) {
+                toast.warning(`${keptTempFiles.length} job${keptTempFiles.length === 1 ? ' was' : 's were'} interrupted while finalizing`, {
+                    description: `The encoded files were kept for review: ${keptTempFiles.join(', ')}`,
+                    duration: 15000,
+                });
+            }
+        }).catch(error => console.error('Error loading queue recovery summary:', error));
+    }, []);
+
     return (
         <Router>
             <div className="flex h-screen bg-background text-foreground bg-stars">
@@ -36,9 +57,11 @@ function App() {
                             <Route path="/queue" element={<Queue />} /> {/* Add Queue route */}
                             <Route path="/presets" element={<Presets />} /> {/* Add Presets route */}
                             <Route path="/automatic-reduction" element={<AutomaticReduction />} /> {/* Add AutomaticReduction route */}
+                            <Route path="/history" element={<History />} />
                         </Routes>
                     </main>
                 </div>
+                <Toaster position="bottom-right" />
             </div>
         </Router>
     );
@@ -0,0 +1,284 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Play, ExternalLink, FileVideo } from 'lucide-react';
+import type { IElectronAPI, EncodingPreset, ProbeData, PreviewEncodeResult, PreviewSegmentResult } from '../../types';
+import { getAudioTrackActions, getSubtitleTrackActions } from '@/utils/presetUtil.js';
+
+const electronAPI = window.electron as IElectronAPI;
+
+type TrackSelections = PreviewEncodeDialogProps['trackSelections'];
+
+interface PreviewEncodeDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    preset: EncodingPreset | undefined;
+    // When omitted the dialog asks for a file and derives track actions from the preset
+    inputPath?: string;
+    probeData?: ProbeData | null;
+    trackSelections?: {
+        audio: { [index: number]: 'keep' | 'convert' | 'discard' };
+        subtitle: { [index: number]: 'keep' | 'convert' | 'discard' };
+    };
+}
+
+function formatBytes(bytes: number | undefined): string {
+    if (!bytes) return '0 MB';
+    const mb = bytes / (1024 * 1024);
+    return mb >= 1024 ? `${(mb / 1024).toFixed(2)} GB` : `${mb.toFixed(1)} MB`;
+}
+
+function formatTimestamp(seconds: number): string {
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = Math.floor(seconds % 60);
+    return h > 0
+        ? `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`
+        : `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+const PreviewEncodeDialog: React.FC<PreviewEncodeDialogProps> = ({ open, onOpenChange, preset, inputPath, probeData, trackSelections }) => {
+    const [selectedPath, setSelectedPath] = useState<string | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+    const [progress, setProgress] = useState(0);
+    const [progressLabel, setProgressLabel] = useState('');
+    const [result, setResult] = useState<PreviewEncodeResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [activeSegment, setActiveSegment] = useState<PreviewSegmentResult | null>(null);
+    const originalRef = useRef<HTMLVideoElement>(null);
+    const encodedRef = useRef<HTMLVideoElement>(null);
+
+    useEffect(() => {
+        if (!open) return;
+        const unsubscribe = electronAPI.subscribePreviewProgress(update => {
+            setProgress(update.percent);
+            setProgressLabel(`Encoding sample ${Math.min(update.segmentIndex + 1, update.segmentCount)} of ${update.segmentCount}`);
+        });
+        return unsubscribe;
+    }, [open]);
+
+    const resetState = () => {
+        setSelectedPath(null);
+        setIsRunning(false);
+        setProgress(0);
+        setProgressLabel('');
+        setResult(null);
+        setError(null);
+        setActiveSegment(null);
+    };
+
+    const handleOpenChange = (nextOpen: boolean) => {
+        if (!nextOpen) {
+            // Stops a running preview and removes the sample files
+            electronAPI.discardPreviewEncode().catch(err => console.error('Failed to discard preview:', err));
+            resetState();
+        }
+        onOpenChange(nextOpen);
+    };
+
+    const runPreview = useCallback(async (filePath: string, fileProbeData: ProbeData, selections: TrackSelections) => {
+        if (!preset || !selections) return;
+        setIsRunning(true);
+        setError(null);
+        setResult(null);
+        setActiveSegment(null);
+        setProgress(0);
+        setProgressLabel('Starting preview...');
+        try {
+            const previewResult = await electronAPI.runPreviewEncode({
+                inputPath: filePath,
+                preset,
+                probeData: fileProbeData,
+                trackSelections: selections,
+            });
+            if (previewResult.cancelled) return;
+            if (!previewResult.success) {
+                setError(previewResult.error || 'Preview encode failed.');
+                return;
+            }
+            setResult(previewResult);
+            setActiveSegment(previewResult.segments?.[0] ?? null);
+        } catch (err) {
+            console.error('Preview encode error:', err);
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setIsRunning(false);
+        }
+    }, [preset]);
+
+    const handleStart = useCallback(async () => {
+        if (inputPath && probeData && trackSelections) {
+            setSelectedPath(inputPath);
+            await runPreview(inputPath, probeData, trackSelections);
+            return;
+        }
+
+        const dialogResult = await electronAPI.showOpenDialog({
+            properties: ['openFile'],
+            filters: [{ name: 'Video Files', extensions: ['mkv', 'mp4', 'avi', 'mov', 'webm'] }]
+        } as unknown as Parameters<IElectronAPI['showOpenDialog']>[0]);
+        if (dialogResult.canceled || dialogResult.filePaths.length === 0) return;
+
+        const filePath = dialogResult.filePaths[0];
+        setSelectedPath(filePath);
+        try {
+            const fileProbeData = await electronAPI.probeFile(filePath);
+            if (!fileProbeData || !fileProbeData.streams || !fileProbeData.format) {
+                throw new Error('Invalid probe data returned');
+            }
+            await runPreview(filePath, fileProbeData, {
+                audio: getAudioTrackActions(fileProbeData.streams, preset),
+                subtitle: getSubtitleTrackActions(fileProbeData.streams, preset),
+            });
+        } catch (err) {
+            setError(`Failed to analyze file: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    }, [inputPath, probeData, trackSelections, preset, runPreview]);
+
+    // Start both players at the beginning of the sample so they stay roughly in step
+    const playSideBySide = () => {
+        if (!activeSegment || !originalRef.current || !encodedRef.current) return;
+        originalRef.current.currentTime = activeSegment.startSeconds;
+        encodedRef.current.currentTime = 0;
+        originalRef.current.play().catch(err => console.warn('Original playback failed:', err));
+        encodedRef.current.play().catch(err => console.warn('Encoded playback failed:', err));
+    };
+
+    const openSegment = async (segment: PreviewSegmentResult) => {
+        const openResult = await electronAPI.openPreviewSegment(segment.outputPath);
+        if (!openResult.success) setError(openResult.error || 'Could not open sample.');
+    };
+
+    const fileLabel = selectedPath || inputPath;
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Preview Encode{preset ? `: ${preset.name}` : ''}</DialogTitle>
+                    <DialogDescription>
+                        Encodes a few short samples with these settings to estimate the final size before committing to a full encode.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {fileLabel && (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <FileVideo className="h-4 w-4 shrink-0" />
+                        <span className="truncate" title={fileLabel}>{fileLabel}</span>
+                    </div>
+                )}
+
+                {error && (
+                    <Alert variant="destructive">
+                        <AlertDescription>{error}</AlertDescription>
+                    </Alert>
+                )}
+
+                {isRunning && (
+                    <div className="space-y-2">
+                        <div className="flex justify-between text-sm">
+                            <span>{progressLabel}</span>
+                            <span>{progress.toFixed(0)}%</span>
+                        </div>
+                        <Progress value={progress} />
+                    </div>
+                )}
+
+                {result && result.success && (
+                    <div className="space-y-4">
+                        <div className="grid grid-cols-3 gap-4 text-sm">
+                            <div>
+                                <p className="text-muted-foreground">Original Size</p>
+                                <p className="font-medium">{formatBytes(result.sourceBytes)}</p>
+                            </div>
+                            <div>
+                                <p className="text-muted-foreground">Projected Size</p>
+                                <p className="font-medium">{formatBytes(result.projectedBytes)}</p>
+                            </div>
+                            <div>
+                                <p className="text-muted-foreground">Projected Reduction</p>
+                                <p className={`font-medium ${(result.projectedReductionPercent ?? 0) > 0 ? 'text-green-500' : 'text-red-500'}`}>
+                                    {result.projectedReductionPercent?.toFixed(1)}%
+                                </p>
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            {result.segments?.map(segment => (
+                                <div
+                                    key={segment.index}
+                                    className={`flex items-center justify-between p-2 rounded-md text-sm cursor-pointer ${activeSegment?.index === segment.index ? 'bg-muted' : 'hover:bg-muted/50'}`}
+                                    onClick={() => setActiveSegment(segment)}
+                                >
+                                    <div className="flex items-center gap-2">
+                                        <Badge variant="outline">Sample {segment.index}</Badge>
+                                        <span>
+                                            {formatTimestamp(segment.startSeconds)} - {formatTimestamp(segment.startSeconds + segment.durationSeconds)}
+                                        </span>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <span className="text-muted-foreground">
+                                            {formatBytes(segment.sourceBytesEstimate)} → {formatBytes(segment.encodedBytes)}
+                                        </span>
+                                        <Button variant="ghost" size="icon" title="Open in player" onClick={(e) => { e.stopPropagation(); openSegment(segment); }}>
+                                            <ExternalLink className="h-4 w-4" />
+                                        </Button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+
+                        {activeSegment && result.sourceUrl && (
+                            <div className="space-y-2">
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div className="space-y-1">
+                                        <p className="text-xs text-muted-foreground">Original</p>
+                                        <video
+                                            key={`original-${activeSegment.index}`}
+                                            ref={originalRef}
+                                            className="w-full rounded-md bg-black"
+                                            src={`${result.sourceUrl}#t=${activeSegment.startSeconds},${activeSegment.startSeconds + activeSegment.durationSeconds}`}
+                                            controls
+                                            muted
+                                        />
+                                    </div>
+                                    <div className="space-y-1">
+                                        <p className="text-xs text-muted-foreground">Encoded</p>
+                                        <video
+                                            key={`encoded-${activeSegment.index}`}
+                                            ref={encodedRef}
+                                            className="w-full rounded-md bg-black"
+                                            src={activeSegment.encodedUrl}
+                                            controls
+                                        />
+                                    </div>
+                                </div>
+                                <p className="text-xs text-muted-foreground">
+                                    Some codecs and containers can't be played in the app. Use "Open in player" to view a sample in your default player.
+                                </p>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                <DialogFooter>
+                    {activeSegment && (
+                        <Button variant="outline" onClick={playSideBySide} disabled={isRunning}>
+                            <Play className="mr-2 h-4 w-4" /> Play Side by Side
+                        </Button>
+                    )}
+                    <Button onClick={handleStart} disabled={isRunning || !preset}>
+                        {isRunning ? (
+                            <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Encoding Samples...</>
+                        ) : result ? 'Run Again' : inputPath ? 'Start Preview' : 'Choose File...'}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default PreviewEncodeDialog;
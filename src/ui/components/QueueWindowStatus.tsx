@@ -0,0 +1,39 @@
+import React from 'react';
+import { Badge } from "@/components/ui/badge";
+import { Moon, Sun } from 'lucide-react';
+import type { QueueWindowStateData } from '../../types';
+
+interface QueueWindowStatusProps {
+    windowState: QueueWindowStateData | null;
+}
+
+// Where the queue's encoding windows stand: open, or closed with a reduced job limit
+const QueueWindowStatus: React.FC<QueueWindowStatusProps> = ({ windowState }) => {
+    if (!windowState?.enabled) return null;
+
+    const nextChange = windowState.nextChangeAt
+        ? new Date(windowState.nextChangeAt).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })
+        : null;
+
+    return (
+        <div className="mt-2 flex items-center gap-2 text-sm">
+            {windowState.inWindow ? (
+                <Badge variant="outline" className="gap-1 border-green-600 text-green-500">
+                    <Moon className="h-3.5 w-3.5" /> Encoding window open
+                </Badge>
+            ) : (
+                <Badge variant="outline" className="gap-1 border-amber-600 text-amber-500">
+                    <Sun className="h-3.5 w-3.5" /> Outside encoding window
+                </Badge>
+            )}
+            <span className="text-muted-foreground">
+                {windowState.inWindow || windowState.maxParallelJobs > 0
+                    ? `Up to ${windowState.maxParallelJobs} parallel job${windowState.maxParallelJobs === 1 ? '' : 's'}`
+                    : 'New jobs are held'}
+                {nextChange && ` · ${windowState.inWindow ? 'closes' : 'opens'} ${nextChange}`}
+            </span>
+        </div>
+    );
+};
+
+export default QueueWindowStatus;
@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { RefreshCw } from 'lucide-react';
+import { toast } from "sonner";
+import type { HardwareInfo, IElectronAPI } from '../../../types';
+
+const electronAPI = window.electron as IElectronAPI;
+
+// Devices the queue can dispatch jobs to (see src/electron/hardwareDevices.ts)
+const EncodingDevices: React.FC = () => {
+  const [devices, setDevices] = useState<HardwareInfo[]>([]);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const loadDevices = async () => {
+    try {
+      setDevices(await electronAPI.getHardwareInfo());
+    } catch (error) {
+      console.error("Error loading hardware info:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadDevices();
+  }, []);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    try {
+      setDevices(await electronAPI.refreshHardwareInfo());
+    } catch (error) {
+      toast.error("Failed to detect hardware", {
+        description: error instanceof Error ? error.message : String(error)
+      });
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const updateDevice = async (device: HardwareInfo, update: () => Promise<void>) => {
+    try {
+      await update();
+    } catch (error) {
+      toast.error(`Failed to update ${device.model}`, {
+        description: error instanceof Error ? error.message : String(error)
+      });
+    }
+    loadDevices();
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-semibold">Encoding Devices</h2>
+          <p className="text-sm text-muted-foreground">
+            Queued jobs run on the highest-priority enabled device that supports their encoder and has a free slot
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleRefresh} disabled={isRefreshing}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} /> Detect
+        </Button>
+      </div>
+      {devices.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No devices detected yet</p>
+      ) : (
+        <div className="grid gap-3">
+          {devices.map(device => (
+            <div key={device.id} className="flex items-center gap-4 rounded-md border p-3">
+              <Switch
+                checked={!!device.is_enabled}
+                onCheckedChange={checked => updateDevice(device, () => electronAPI.updateHardwareEnabled(device.id, checked))}
+                aria-label={`Use ${device.model} for encoding`}
+              />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className="text-xs">{device.device_type}</Badge>
+                  <span className="truncate font-medium">{device.model}</span>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {device.vendor}{device.device_type === 'GPU' && device.device_id !== null ? ` · index ${device.device_id}` : ''}
+                  {device.memory_mb ? ` · ${device.memory_mb} MB` : ''}
+                </div>
+              </div>
+              <div className="grid gap-1">
+                <span className="text-xs text-muted-foreground">Priority</span>
+                <Input
+                  type="number"
+                  className="w-20 h-8"
+                  defaultValue={device.priority}
+                  onBlur={e => {
+                    const priority = parseInt(e.target.value, 10);
+                    if (!isNaN(priority) && priority !== device.priority) {
+                      updateDevice(device, () => electronAPI.updateHardwarePriority(device.id, priority));
+                    }
+                  }}
+                />
+              </div>
+              <div className="grid gap-1">
+                <span className="text-xs text-muted-foreground">Max Jobs</span>
+                <Input
+                  type="number"
+                  min={1}
+                  className="w-20 h-8"
+                  defaultValue={device.max_concurrent_jobs}
+                  onBlur={e => {
+                    const maxJobs = parseInt(e.target.value, 10);
+                    if (!isNaN(maxJobs) && maxJobs !== device.max_concurrent_jobs) {
+                      updateDevice(device, () => electronAPI.updateHardwareMaxJobs(device.id, maxJobs));
+                    }
+                  }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EncodingDevices;
@@ -1,5 +1,6 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { WorkflowNode, NodeData } from './types';
+import type { EncodingPreset } from '../../../types';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -28,6 +29,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
   onClosePanel 
 }) => {
   const [activeTab, setActiveTab] = useState('properties');
+  const [presets, setPresets] = useState<EncodingPreset[]>([]);
   const userTimeZone = 'America/Chicago'; // Define user's timezone
 
   const daysOfWeek = [
@@ -43,6 +45,14 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
   const hoursArray = Array.from({ length: 12 }, (_, i) => String(i + 1)); // 1-12
   const minutesArray = Array.from({ length: 60 }, (_, i) => String(i).padStart(2, '0'));
   const amPmArray = ['AM', 'PM'];
+
+  const isEncodeNode = selectedNode?.data.id === 'encode-file';
+  useEffect(() => {
+    if (!isEncodeNode) return;
+    window.electron.getPresets()
+      .then(setPresets)
+      .catch(error => console.error('Error loading presets for workflow node:', error));
+  }, [isEncodeNode]);
   
   if (!selectedNode) {
     return (
@@ -403,6 +413,107 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                 );
               } 
             }
+
+            // Preset and container pickers for the 'encode-file' node type
+            if (data.id === 'encode-file') {
+              if (propertyKey === 'preset') {
+                return (
+                  <div className="space-y-1" key={propertyKey}>
+                    <Label htmlFor={`node-prop-${propertyKey}`} {...commonLabelProps}>Preset</Label>
+                    <Select 
+                      value={propertyValue as string} 
+                      onValueChange={(val) => handlePropertyChange(propertyKey, val)}
+                    >
+                      <SelectTrigger id={`node-prop-${propertyKey}`}>
+                        <SelectValue placeholder={presets.length > 0 ? 'Select a preset' : 'No presets saved'} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {presets.map(preset => (
+                          <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">Encoding settings and default track selections for the queued job.</p>
+                  </div>
+                );
+              } else if (propertyKey === 'outputFormat') {
+                return (
+                  <div className="space-y-1" key={propertyKey}>
+                    <Label htmlFor={`node-prop-${propertyKey}`} {...commonLabelProps}>Output Format</Label>
+                    <Select 
+                      value={propertyValue as string || 'mp4'} 
+                      onValueChange={(val) => handlePropertyChange(propertyKey, val)}
+                    >
+                      <SelectTrigger id={`node-prop-${propertyKey}`}>
+                        <SelectValue placeholder="Select output format" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="mp4">MP4</SelectItem>
+                        <SelectItem value="mkv">MKV</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                );
+              } else if (propertyKey === 'outputPath') {
+                return (
+                  <div className="space-y-1" key={propertyKey}>
+                    <Label htmlFor={`node-prop-${propertyKey}`} {...commonLabelProps}>Output Folder</Label>
+                    <Input
+                      id={`node-prop-${propertyKey}`}
+                      value={propertyValue as string}
+                      onChange={(e) => handlePropertyChange(propertyKey, e.target.value)}
+                      placeholder="Same folder as the input"
+                      className="w-full"
+                    />
+                    <p className="text-xs text-muted-foreground">Leave empty to write next to the input. An output that would land on the input is saved as "name.encoded" unless Overwrite is on.</p>
+                  </div>
+                );
+              }
+            }
+
+            // Token hints and collision policy for the 'move-file' and 'rename-file' node types
+            if (data.id === 'move-file' || data.id === 'rename-file') {
+              if (propertyKey === 'destination' || propertyKey === 'pattern') {
+                return (
+                  <div className="space-y-1" key={propertyKey}>
+                    <Label htmlFor={`node-prop-${propertyKey}`} {...commonLabelProps}>
+                      {propertyKey === 'destination' ? 'Destination Folder' : 'Name Pattern'}
+                    </Label>
+                    <Input
+                      id={`node-prop-${propertyKey}`}
+                      value={propertyValue as string}
+                      onChange={(e) => handlePropertyChange(propertyKey, e.target.value)}
+                      placeholder={propertyKey === 'destination' ? 'e.g. D:\\TV\\{library}\\Season {season}' : '{name}_{date}'}
+                      className="w-full font-mono text-sm"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Tokens: {'{name}'}, {'{ext}'}, {'{date}'}, {'{library}'}, {'{resolution}'}, {'{codec}'}, {'{season}'}, {'{episode}'}.
+                      {propertyKey === 'pattern' && ' The extension is kept unless the pattern uses {ext}.'}
+                    </p>
+                  </div>
+                );
+              } else if (propertyKey === 'collision') {
+                return (
+                  <div className="space-y-1" key={propertyKey}>
+                    <Label htmlFor={`node-prop-${propertyKey}`} {...commonLabelProps}>If the Target Exists</Label>
+                    <Select 
+                      value={propertyValue as string || 'fail'} 
+                      onValueChange={(val) => handlePropertyChange(propertyKey, val)}
+                    >
+                      <SelectTrigger id={`node-prop-${propertyKey}`}>
+                        <SelectValue placeholder="Select collision policy" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="fail">Fail</SelectItem>
+                        <SelectItem value="skip">Skip the file</SelectItem>
+                        <SelectItem value="increment">Add a number, e.g. "name (2)"</SelectItem>
+                        <SelectItem value="overwrite">Overwrite</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                );
+              }
+            }
             
             if (propertyKey.includes('message') || propertyKey.includes('description') || propertyKey === 'title') {
               return (
@@ -492,6 +603,9 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                   <Label htmlFor={propertyKey} className="text-sm font-medium">
                     {propertyKey.charAt(0).toUpperCase() + propertyKey.slice(1).replace(/([A-Z])/g, ' $1')}
                   </Label>
+                  {data.id === 'encode-file' && propertyKey === 'overwrite' && (
+                    <p className="text-xs text-muted-foreground mt-1">Replace the original file when the output would have the same path.</p>
+                  )}
                 </div>
               </div>
             );
@@ -358,6 +358,23 @@ const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({ onNodeSelect, selectedN
       }
       // If it's a condition node but not a true/false handle, it will use the default straight down.
     }
+
+    // Actions with success/failure outputs branch the same way: success left, failure right
+    if (parentNode.type === 'action' && connectionHandle) {
+      if (connectionHandle === `${parentNodeId}-success`) {
+        position = {
+          x: parentNode.position.x - (nodeWidth / 2) - (horizontalGap / 2),
+          y: parentNode.position.y + nodeHeight + verticalGap
+        };
+        parentHandleId = `${parentNodeId}-success`;
+      } else if (connectionHandle === `${parentNodeId}-failure`) {
+        position = {
+          x: parentNode.position.x + (nodeWidth / 2) + (horizontalGap / 2),
+          y: parentNode.position.y + nodeHeight + verticalGap
+        };
+        parentHandleId = `${parentNodeId}-failure`;
+      }
+    }
     
     // Create new node
     const newNodeId = `${selectedNodeType}-${uuidv4()}`;
@@ -9,12 +9,17 @@ import {
   TooltipTrigger 
 } from '@/components/ui/tooltip';
 
+// Actions that can fail without stopping the workflow get separate success/failure outputs
+const BRANCHING_ACTIONS = ['encode-file', 'move-file', 'rename-file', 'delete-file'];
+
 // Action nodes have both input and output handles
 const ActionNode: React.FC<NodeProps<NodeData>> = ({ id, data, selected }) => {
-  const handleAddNode = useCallback(() => {
+  const isBranching = BRANCHING_ACTIONS.includes(data.id ?? '');
+
+  const handleAddNode = useCallback((handleId: string) => {
     // Using a custom event to communicate with parent component
     const event = new CustomEvent('openNodeDialog', {
-      detail: { nodeId: id, handleId: `${id}-out` }
+      detail: { nodeId: id, handleId }
     });
     window.dispatchEvent(event);
   }, [id]);
@@ -49,28 +54,79 @@ const ActionNode: React.FC<NodeProps<NodeData>> = ({ id, data, selected }) => {
         className="!w-3 !h-3 border-2 border-indigo-500 bg-background"
       />
       
-      {/* Output handle (bottom) - hidden but used for connections */}
-      <Handle
-        id={`${id}-out`}
-        type="source"
-        position={Position.Bottom}
-        style={{ opacity: 0 }}
-      />
-      
-      {/* Output connection point with add icon - positioned outside the node */}
-      <div className="absolute bottom-0 translate-y-1/2 left-0 right-0 flex justify-center">
-        <TooltipProvider>
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <PlusCircle 
-                className="h-6 w-6 text-emerald-500 cursor-pointer p-0.5 rounded-full bg-background hover:bg-emerald-100 dark:hover:bg-emerald-900/50"
-                onClick={handleAddNode} 
-              />
-            </TooltipTrigger>
-            <TooltipContent side="bottom">Add node</TooltipContent>
-          </Tooltip>
-        </TooltipProvider>
-      </div>
+      {isBranching ? (
+        <>
+          {/* Output handle for SUCCESS branch (bottom-left) */}
+          <Handle
+            id={`${id}-success`}
+            type="source"
+            position={Position.Bottom}
+            style={{ left: '25%', opacity: 0 }}
+            className="!w-3 !h-3"
+          />
+          
+          {/* Output handle for FAILURE branch (bottom-right) */}
+          <Handle
+            id={`${id}-failure`}
+            type="source"
+            position={Position.Bottom}
+            style={{ left: '75%', opacity: 0 }}
+            className="!w-3 !h-3"
+          />
+          
+          {/* Success/Failure branching UI - positioned outside the node */}
+          <div className="absolute bottom-0 translate-y-1/2 left-0 right-0 flex justify-around items-center text-xs">
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <PlusCircle 
+                    className="h-5 w-5 text-green-500 cursor-pointer p-0.5 rounded-full bg-background hover:bg-green-100 dark:hover:bg-green-900/50"
+                    onClick={() => handleAddNode(`${id}-success`)}
+                  />
+                </TooltipTrigger>
+                <TooltipContent side="bottom">Add success branch</TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+            
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <PlusCircle 
+                    className="h-5 w-5 text-red-500 cursor-pointer p-0.5 rounded-full bg-background hover:bg-red-100 dark:hover:bg-red-900/50"
+                    onClick={() => handleAddNode(`${id}-failure`)}
+                  />
+                </TooltipTrigger>
+                <TooltipContent side="bottom">Add failure branch</TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          </div>
+        </>
+      ) : (
+        <>
+          {/* Output handle (bottom) - hidden but used for connections */}
+          <Handle
+            id={`${id}-out`}
+            type="source"
+            position={Position.Bottom}
+            style={{ opacity: 0 }}
+          />
+          
+          {/* Output connection point with add icon - positioned outside the node */}
+          <div className="absolute bottom-0 translate-y-1/2 left-0 right-0 flex justify-center">
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <PlusCircle 
+                    className="h-6 w-6 text-emerald-500 cursor-pointer p-0.5 rounded-full bg-background hover:bg-emerald-100 dark:hover:bg-emerald-900/50"
+                    onClick={() => handleAddNode(`${id}-out`)} 
+                  />
+                </TooltipTrigger>
+                <TooltipContent side="bottom">Add node</TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          </div>
+        </>
+      )}
     </div>
   );
 };
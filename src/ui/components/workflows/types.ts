@@ -63,7 +63,9 @@ export const ALL_NODES = [
     properties: {
       preset: '',
       outputFormat: 'mp4',
-      outputPath: ''
+      outputPath: '',
+      overwrite: false,
+      waitForCompletion: true
     }
   },
   {
@@ -74,7 +76,7 @@ export const ALL_NODES = [
     icon: '📦',
     properties: {
       destination: '',
-      overwrite: false
+      collision: 'fail'
     }
   },
   {
@@ -85,7 +87,7 @@ export const ALL_NODES = [
     icon: '✏️',
     properties: {
       pattern: '{name}_{date}',
-      overwrite: false
+      collision: 'fail'
     }
   },
   {
@@ -7,10 +7,11 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Loader2, Play, CheckCircle, AlertTriangle, Database, Trash2 } from 'lucide-react';
+import { Loader2, Play, CheckCircle, AlertTriangle, Database, Trash2, TrendingDown } from 'lucide-react';
 import type { 
     IElectronAPI, 
-    EncodingPreset
+    EncodingPreset,
+    SavingsEstimate
 } from '../../types';
 import { loadPresets as loadPresetsUtil, getPresetById, getAudioTrackActions, getSubtitleTrackActions } from '@/utils/presetUtil.js';
 import queueService from '../../services/queueService.js';
@@ -53,6 +54,14 @@ const formatBytes = (bytes: number): string => {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 };
 
+// Helper function to format an encode time estimate
+const formatDuration = (seconds: number): string => {
+    if (seconds < 60) return `${Math.max(1, Math.round(seconds))}s`;
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.round((seconds % 3600) / 60);
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
 const AutomaticReduction: React.FC = () => {
     const navigate = useNavigate();
 
@@ -67,6 +76,7 @@ const AutomaticReduction: React.FC = () => {
     // Preview state
     const [previewFiles, setPreviewFiles] = useState<MediaItem[]>([]);
     const [isLoadingPreview, setIsLoadingPreview] = useState<boolean>(false);
+    const [savingsEstimate, setSavingsEstimate] = useState<SavingsEstimate | null>(null);
     
     // Processing state
     const [isProcessing, setIsProcessing] = useState<boolean>(false);
@@ -180,6 +190,28 @@ const AutomaticReduction: React.FC = () => {
         loadPreview();
     }, [loadPreview]);
 
+    // Estimate savings for the preview from past results of the selected preset
+    useEffect(() => {
+        if (!selectedPresetId || previewFiles.length === 0) {
+            setSavingsEstimate(null);
+            return;
+        }
+
+        let cancelled = false;
+        electronAPI.estimateQueueSavings(selectedPresetId, previewFiles.map(file => ({
+            id: file.id,
+            size: file.currentSize,
+            videoCodec: file.videoCodec,
+            resolutionHeight: file.resolutionHeight
+        })))
+            .then(estimate => { if (!cancelled) setSavingsEstimate(estimate); })
+            .catch(error => {
+                console.error("Error estimating savings:", error);
+                if (!cancelled) setSavingsEstimate(null);
+            });
+        return () => { cancelled = true; };
+    }, [selectedPresetId, previewFiles]);
+
     // Start automatic processing
     const startProcessing = useCallback(async () => {
         if (!selectedLibrary || !selectedPresetId || previewFiles.length === 0) {
@@ -310,6 +342,16 @@ const AutomaticReduction: React.FC = () => {
     }, [loadLibraries, loadPreview]);
 
     const selectedLibraryInfo = libraries.find(lib => lib.name === selectedLibrary);
+    const hasEstimate = savingsEstimate !== null && savingsEstimate.estimatedFileCount > 0;
+    // Share of the estimated files' size that is expected to be saved
+    const estimatedCoveredBytes = hasEstimate
+        ? previewFiles
+            .filter(file => savingsEstimate.files.some(f => f.id === file.id && f.estimatedBytes !== undefined))
+            .reduce((sum, file) => sum + file.currentSize, 0)
+        : 0;
+    const estimatedSavingsPercent = estimatedCoveredBytes > 0
+        ? (savingsEstimate!.totalEstimatedSavingsBytes / estimatedCoveredBytes) * 100
+        : 0;
 
     return (
         <div className="container mx-auto p-6 max-w-6xl space-y-8">
@@ -362,6 +404,12 @@ const AutomaticReduction: React.FC = () => {
                                     <span>Unprocessed: {selectedLibraryInfo.unprocessedCount}</span>
                                     <span>•</span>
                                     <span>Total size: {formatBytes(selectedLibraryInfo.totalSize)}</span>
+                                    {hasEstimate && (
+                                        <>
+                                            <span>•</span>
+                                            <span>Est. batch savings: {formatBytes(Math.max(0, savingsEstimate!.totalEstimatedSavingsBytes))}</span>
+                                        </>
+                                    )}
                                 </div>
                             )}
                         </div>
@@ -470,7 +518,43 @@ const AutomaticReduction: React.FC = () => {
                         <CardTitle className="text-xl">File Preview</CardTitle>
                         <CardDescription>Files that will be processed (largest first)</CardDescription>
                     </CardHeader>
-                    <CardContent>
+                    <CardContent className="space-y-4">
+                        {!isLoadingPreview && previewFiles.length > 0 && savingsEstimate && (
+                            hasEstimate ? (
+                                <div className="grid grid-cols-3 gap-4 p-3 bg-background/50 rounded-md text-sm">
+                                    <div>
+                                        <p className="text-xs text-muted-foreground">Estimated Savings</p>
+                                        <p className="font-medium text-green-500">
+                                            {formatBytes(Math.max(0, savingsEstimate.totalEstimatedSavingsBytes))} ({estimatedSavingsPercent.toFixed(0)}%)
+                                        </p>
+                                    </div>
+                                    <div>
+                                        <p className="text-xs text-muted-foreground">Estimated Time</p>
+                                        <p className="font-medium">
+                                            {savingsEstimate.totalEncodeSeconds > 0
+                                                ? formatDuration(savingsEstimate.totalEncodeSeconds / maxConcurrentJobs)
+                                                : 'Unknown'}
+                                        </p>
+                                    </div>
+                                    <div>
+                                        <p className="text-xs text-muted-foreground">Based On</p>
+                                        <p className="font-medium">
+                                            {savingsEstimate.historySampleCount} past encode{savingsEstimate.historySampleCount === 1 ? '' : 's'}
+                                        </p>
+                                    </div>
+                                    {savingsEstimate.estimatedFileCount < previewFiles.length && (
+                                        <p className="col-span-3 text-xs text-muted-foreground">
+                                            Covers {savingsEstimate.estimatedFileCount} of {previewFiles.length} files.
+                                        </p>
+                                    )}
+                                </div>
+                            ) : (
+                                <p className="text-xs text-muted-foreground">
+                                    No completed encodes with this preset yet, so savings can't be estimated.
+                                </p>
+                            )
+                        )}
+
                         {isLoadingPreview ? (
                             <div className="flex items-center justify-center h-32">
                                 <Loader2 className="h-6 w-6 animate-spin" />
@@ -482,7 +566,9 @@ const AutomaticReduction: React.FC = () => {
                             </div>
                         ) : (
                             <div className="space-y-3 max-h-96 overflow-y-auto">
-                                {previewFiles.map((file, index) => (
+                                {previewFiles.map((file, index) => {
+                                    const fileEstimate = savingsEstimate?.files.find(f => f.id === file.id);
+                                    return (
                                     <div key={file.id} className="p-3 bg-background/50 rounded-md space-y-1">
                                         <div className="flex items-center justify-between">
                                             <span className="text-sm font-medium truncate flex-1 mr-2">
@@ -499,9 +585,22 @@ const AutomaticReduction: React.FC = () => {
                                             )}
                                             {file.audioCodec && <span>{file.audioCodec}</span>}
                                             {file.audioChannels && <span>{file.audioChannels}ch</span>}
+                                            {fileEstimate?.estimatedBytes !== undefined && (
+                                                <span
+                                                    className="ml-auto flex items-center gap-1 text-green-500"
+                                                    title={`Based on ${fileEstimate.sampleCount} past encode(s) matching ${fileEstimate.match === 'exact' ? 'codec and resolution' : fileEstimate.match === 'codec' ? 'codec' : 'preset only'}`}
+                                                >
+                                                    <TrendingDown className="h-3 w-3" />
+                                                    ~{formatBytes(fileEstimate.estimatedBytes)}
+                                                    {fileEstimate.estimatedEncodeSeconds !== undefined && (
+                                                        <span className="text-muted-foreground">· {formatDuration(fileEstimate.estimatedEncodeSeconds)}</span>
+                                                    )}
+                                                </span>
+                                            )}
                                         </div>
                                     </div>
-                                ))}
+                                    );
+                                })}
                             </div>
                         )}
                     </CardContent>
@@ -38,6 +38,8 @@ import {
     TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { Film, Music, Maximize2, FileVideo, FileAudio, FolderOpen, Check } from 'lucide-react';
+import QueueWindowStatus from '../components/QueueWindowStatus';
+import { useQueue } from '../../hooks/useQueue';
 
 // Helper to format bytes
 function formatBytes(bytes: number | null, decimals = 2): string {
@@ -260,6 +262,7 @@ const CustomTooltip = ({ active, payload, label }: any) => {
 
 const Dashboard: React.FC = () => {
     const [systemStats, setSystemStats] = useState<SystemStats>(defaultSystemStats);
+    const { queueWindow } = useQueue();
     const [mediaStats, setMediaStats] = useState<DashboardMediaStats>(defaultMediaStats);
     const [largestFiles, setLargestFiles] = useState<LargestFileData[]>([]); // State for largest files
     const [isLoadingMediaStats, setIsLoadingMediaStats] = useState<boolean>(true);
@@ -417,6 +420,7 @@ const Dashboard: React.FC = () => {
             <div>
               <h1 className="text-3xl font-bold tracking-tight text-foreground">System Dashboard</h1>
               <p className="text-muted-foreground mt-2">Monitor your system performance and media statistics</p>
+              <QueueWindowStatus windowState={queueWindow} />
             </div>
           </div>
 
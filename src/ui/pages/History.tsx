@@ -0,0 +1,243 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Download, RefreshCw } from 'lucide-react';
+import type { IElectronAPI, EncodingPreset, EncodingHistoryEntry, EncodingHistoryFilters } from '../../types';
+import { loadPresets as loadPresetsUtil } from '@/utils/presetUtil.js';
+import { toast } from "sonner";
+
+const electronAPI = window.electron as IElectronAPI;
+
+const ALL = 'all';
+const PAGE_LIMIT = 500;
+
+const formatBytes = (bytes: number | null): string => {
+    if (!bytes) return '-';
+    const mb = bytes / (1024 * 1024);
+    return mb >= 1024 ? `${(mb / 1024).toFixed(2)} GB` : `${mb.toFixed(1)} MB`;
+};
+
+const formatDuration = (seconds: number | null): string => {
+    if (seconds === null) return '-';
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = Math.floor(seconds % 60);
+    return h > 0 ? `${h}h ${m}m` : m > 0 ? `${m}m ${s}s` : `${s}s`;
+};
+
+const getFileName = (filePath: string): string => filePath.split(/[/\\]/).pop() || filePath;
+
+const StatusBadge: React.FC<{ status: EncodingHistoryEntry['status'] }> = ({ status }) => {
+    const variant = status === 'completed' ? 'default' : status === 'failed' ? 'destructive' : 'secondary';
+    return <Badge variant={variant} className="capitalize">{status}</Badge>;
+};
+
+const History: React.FC = () => {
+    const [entries, setEntries] = useState<EncodingHistoryEntry[]>([]);
+    const [presets, setPresets] = useState<EncodingPreset[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+
+    // Filters
+    const [status, setStatus] = useState<string>(ALL);
+    const [presetId, setPresetId] = useState<string>(ALL);
+    const [search, setSearch] = useState('');
+    const [startDate, setStartDate] = useState('');
+    const [endDate, setEndDate] = useState('');
+
+    const buildFilters = useCallback((): EncodingHistoryFilters => ({
+        status: status !== ALL ? status as EncodingHistoryEntry['status'] : undefined,
+        presetId: presetId !== ALL ? presetId : undefined,
+        search: search.trim() || undefined,
+        startDate: startDate ? new Date(`${startDate}T00:00:00`).toISOString() : undefined,
+        endDate: endDate ? new Date(`${endDate}T23:59:59.999`).toISOString() : undefined,
+    }), [status, presetId, search, startDate, endDate]);
+
+    const loadHistory = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            setEntries(await electronAPI.getEncodingHistory({ ...buildFilters(), limit: PAGE_LIMIT }));
+        } catch (error) {
+            console.error("Error loading encoding history:", error);
+            toast.error("Failed to load encoding history", {
+                description: error instanceof Error ? error.message : String(error)
+            });
+        } finally {
+            setIsLoading(false);
+        }
+    }, [buildFilters]);
+
+    useEffect(() => {
+        loadPresetsUtil(electronAPI).then(setPresets).catch(error => console.error("Error loading presets:", error));
+    }, []);
+
+    useEffect(() => {
+        loadHistory();
+    }, [loadHistory]);
+
+    // Exports every matching entry, not just the rows shown
+    const handleExport = async () => {
+        setIsExporting(true);
+        try {
+            const result = await electronAPI.exportEncodingHistoryCsv(buildFilters());
+            if (result.success) {
+                toast.success("Encoding history exported", { description: result.filePath });
+            } else if (!result.canceled) {
+                toast.error("Failed to export encoding history", { description: result.error });
+            }
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const completed = entries.filter(entry => entry.status === 'completed');
+    const totalSaved = completed.reduce((sum, entry) =>
+        sum + (entry.originalSize && entry.finalSize ? entry.originalSize - entry.finalSize : 0), 0);
+
+    return (
+        <div className="container mx-auto p-6 max-w-7xl space-y-8">
+            {/* Header */}
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-3xl font-semibold tracking-tight mb-1">Encoding History</h1>
+                    <p className="text-muted-foreground">Results of every finished encode, kept after the queue is cleared</p>
+                </div>
+                <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={loadHistory} disabled={isLoading}>
+                        <RefreshCw className="mr-2 h-4 w-4" /> Refresh
+                    </Button>
+                    <Button size="sm" onClick={handleExport} disabled={isExporting || entries.length === 0}>
+                        {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+                        Export CSV
+                    </Button>
+                </div>
+            </div>
+
+            {/* Filters */}
+            <Card className="border-none shadow-sm bg-card/50">
+                <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-5 gap-4">
+                    <div className="space-y-2 md:col-span-2">
+                        <Label htmlFor="history-search">Search</Label>
+                        <Input id="history-search" placeholder="File path..." value={search} onChange={e => setSearch(e.target.value)} className="bg-background/50" />
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Status</Label>
+                        <Select value={status} onValueChange={setStatus}>
+                            <SelectTrigger className="bg-background/50"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ALL}>All</SelectItem>
+                                <SelectItem value="completed">Completed</SelectItem>
+                                <SelectItem value="failed">Failed</SelectItem>
+                                <SelectItem value="cancelled">Cancelled</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Preset</Label>
+                        <Select value={presetId} onValueChange={setPresetId}>
+                            <SelectTrigger className="bg-background/50"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ALL}>All Presets</SelectItem>
+                                {presets.map(preset => (
+                                    <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Finished Between</Label>
+                        <div className="flex gap-2">
+                            <Input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className="bg-background/50" />
+                            <Input type="date" value={endDate} onChange={e => setEndDate(e.target.value)} className="bg-background/50" />
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+
+            {/* Results */}
+            <Card className="border-none shadow-sm bg-card/50">
+                <CardHeader>
+                    <CardTitle className="text-xl">Jobs</CardTitle>
+                    <CardDescription>
+                        {entries.length}{entries.length === PAGE_LIMIT ? '+' : ''} jobs · {completed.length} completed · {formatBytes(totalSaved)} saved
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {isLoading ? (
+                        <div className="flex items-center justify-center h-32">
+                            <Loader2 className="h-6 w-6 animate-spin" />
+                            <span className="ml-2">Loading history...</span>
+                        </div>
+                    ) : entries.length === 0 ? (
+                        <div className="flex items-center justify-center h-32 text-muted-foreground">
+                            No encodes match these filters
+                        </div>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>File</TableHead>
+                                    <TableHead>Status</TableHead>
+                                    <TableHead>Preset</TableHead>
+                                    <TableHead>Codecs</TableHead>
+                                    <TableHead className="text-right">Size</TableHead>
+                                    <TableHead className="text-right">Encode Time</TableHead>
+                                    <TableHead>Hardware</TableHead>
+                                    <TableHead className="text-right">Quality</TableHead>
+                                    <TableHead>Finished</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {entries.map(entry => (
+                                    <TableRow key={entry.id}>
+                                        <TableCell className="max-w-[260px]">
+                                            <div className="truncate font-medium" title={entry.inputPath}>{getFileName(entry.inputPath)}</div>
+                                            {entry.error && (
+                                                <div className="truncate text-xs text-red-500" title={entry.error}>{entry.error}</div>
+                                            )}
+                                        </TableCell>
+                                        <TableCell><StatusBadge status={entry.status} /></TableCell>
+                                        <TableCell>{entry.presetName || '-'}</TableCell>
+                                        <TableCell className="text-xs">
+                                            {entry.sourceVideoCodec || '?'} → {entry.targetVideoCodec || '?'}
+                                            <div className="text-muted-foreground">{entry.sourceAudioCodec || '?'} → {entry.targetAudioCodec || '?'}</div>
+                                        </TableCell>
+                                        <TableCell className="text-right text-xs">
+                                            {formatBytes(entry.originalSize)} → {formatBytes(entry.finalSize)}
+                                            {entry.reductionPercent !== null && (
+                                                <div className={entry.reductionPercent > 0 ? 'text-green-500' : 'text-red-500'}>
+                                                    {entry.reductionPercent.toFixed(1)}%
+                                                </div>
+                                            )}
+                                        </TableCell>
+                                        <TableCell className="text-right text-xs">
+                                            {formatDuration(entry.encodeDurationSeconds)}
+                                            {entry.averageFps !== null && <div className="text-muted-foreground">{entry.averageFps.toFixed(1)} fps</div>}
+                                        </TableCell>
+                                        <TableCell className="text-xs">
+                                            {entry.videoEncoder || '-'}
+                                            {entry.hwAccel && <div className="text-muted-foreground">{entry.hwAccel}</div>}
+                                        </TableCell>
+                                        <TableCell className="text-right text-xs">
+                                            {entry.qualityScore !== null
+                                                ? `${entry.qualityMetric?.toUpperCase()} ${entry.qualityMetric === 'ssim' ? entry.qualityScore.toFixed(4) : entry.qualityScore.toFixed(2)}`
+                                                : '-'}
+                                        </TableCell>
+                                        <TableCell className="text-xs whitespace-nowrap">{new Date(entry.finishedAt).toLocaleString()}</TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+};
+
+export default History;
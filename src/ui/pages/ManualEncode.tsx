@@ -9,7 +9,7 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Loader2, Plus, CheckCircle, Folder } from 'lucide-react';
+import { Loader2, Plus, CheckCircle, Folder, Eye } from 'lucide-react';
 import type { 
     IElectronAPI, 
     ProbeData,
@@ -21,6 +21,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogC
 import queueService from '../../services/queueService.js';
 import { useNavigate } from 'react-router-dom';
 import { toast } from "sonner";
+import PreviewEncodeDialog from '../components/PreviewEncodeDialog';
 
 // Cast window.electron to the imported type
 const electronAPI = window.electron as IElectronAPI;
@@ -61,6 +62,8 @@ const joinPaths = (dirPath: string, fileName: string): string => {
 const HARDWARE_PLATFORMS = [
     { id: 'INTEL_GPU', label: 'Intel GPU (QuickSync Video)' },
     { id: 'NVIDIA_GPU', label: 'Nvidia GPU (NVENC)' },
+    { id: 'AMD_GPU', label: 'AMD GPU (AMF, Windows)' },
+    { id: 'VAAPI_GPU', label: 'Intel/AMD GPU (VAAPI, Linux)' },
     { id: 'CPU_SOFTWARE', label: 'CPU / Software Encoder' },
     { id: 'NONE', label: 'None (for Copy)'},
 ] as const;
@@ -78,7 +81,7 @@ const VIDEO_PRESETS = ['veryslow', 'slower', 'slow', 'medium', 'fast', 'faster',
 type VideoPreset = typeof VIDEO_PRESETS[number];
 const VIDEO_RESOLUTIONS = ['original', '480p', '720p', '1080p', '1440p', '2160p'] as const;
 type VideoResolution = typeof VIDEO_RESOLUTIONS[number];
-const HW_ACCEL_OPTIONS = ['auto', 'qsv', 'nvenc', 'cuda', 'none'] as const;
+const HW_ACCEL_OPTIONS = ['auto', 'qsv', 'nvenc', 'cuda', 'vaapi', 'none'] as const;
 type HwAccel = typeof HW_ACCEL_OPTIONS[number];
 const AUDIO_CODECS_CONVERT = ['libopus', 'aac', 'eac3'] as const;
 type AudioCodecConvert = typeof AUDIO_CODECS_CONVERT[number];
@@ -159,6 +162,7 @@ const ManualEncode: React.FC = () => {
     const [isEncoding, setIsEncoding] = useState(false);
     const [isAddingToQueue, setIsAddingToQueue] = useState(false);
     const [status, setStatus] = useState<string>('Ready to encode');
+    const [previewPreset, setPreviewPreset] = useState<EncodingPreset | null>(null);
     
     // Progress tracking
     const [progress, setProgress] = useState(0);
@@ -912,7 +916,7 @@ const ManualEncode: React.FC = () => {
             // Wait until job is no longer in the queue (completed or failed)
             const checkJobStatus = () => {
                 const currentJob = queueService.getJob(trackingJobId);
-                if (currentJob && (currentJob.status === 'processing' || currentJob.status === 'queued')) {
+                if (currentJob && (currentJob.status === 'processing' || currentJob.status === 'paused' || currentJob.status === 'queued')) {
                     setTimeout(checkJobStatus, 500);
                 } else {
                     // Job is done, restore original callbacks
@@ -1124,7 +1128,7 @@ const ManualEncode: React.FC = () => {
                 // Wait until job is no longer in the queue (completed or failed)
                 const checkJobStatus = () => {
                     const currentJob = queueService.getJob(trackingJobId);
-                    if (currentJob && (currentJob.status === 'processing' || currentJob.status === 'queued')) {
+                    if (currentJob && (currentJob.status === 'processing' || currentJob.status === 'paused' || currentJob.status === 'queued')) {
                         setTimeout(checkJobStatus, 500);
                     } else {
                         // Job is done, restore original callbacks
@@ -1164,6 +1168,28 @@ const ManualEncode: React.FC = () => {
         hardwarePlatform, targetVideoFormat, videoPreset, videoQuality, videoResolution, hwAccel, audioCodecConvert, audioBitrate, selectedAudioLayout,
         availablePresets, selectedPresetId, audioLanguageOrder, resetForm, selectedFolderPath]);
 
+    // --- Preview Encode ---
+    // Samples are encoded with the current form settings, same as handleStartEncoding
+    const openPreview = () => {
+        setPreviewPreset({
+            id: 'manual-encode-preview',
+            name: 'Manual Encode Settings',
+            videoCodec: deriveFfmpegCodec(hardwarePlatform, targetVideoFormat),
+            videoPreset,
+            videoQuality,
+            videoResolution,
+            hwAccel,
+            audioCodecConvert,
+            audioBitrate,
+            selectedAudioLayout,
+            audioLanguageOrder,
+            subtitleLanguageOrder: [],
+            subtitleTypeOrder: [],
+            subtitleCodecConvert: 'srt',
+            removeAllSubtitles,
+        });
+    };
+
     // --- Track Selection Dialog --- 
     const openTrackSelect = () => {
         setTrackSelectOpen(true);
@@ -1522,6 +1548,7 @@ const ManualEncode: React.FC = () => {
                                                     case 'qsv': return { label: 'Intel QuickSync', description: 'Intel GPU Hardware Acceleration' };
                                                     case 'nvenc': return { label: 'Nvidia NVENC', description: 'Nvidia GPU Hardware Acceleration' };
                                                     case 'cuda': return { label: 'CUDA', description: 'Nvidia CUDA Acceleration' };
+                                                    case 'vaapi': return { label: 'VAAPI', description: 'Linux Intel/AMD Hardware Acceleration' };
                                                     case 'none': return { label: 'None', description: 'CPU Only, No Hardware Acceleration' };
                                                     default: return { label: option, description: '' };
                                                 }
@@ -1705,6 +1732,15 @@ const ManualEncode: React.FC = () => {
                         {isAddingToQueue ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
                         {formData.selectedFiles?.length > 0 ? `Add ${formData.selectedFiles.length} Files to Queue` : 'Add to Queue'}
                     </Button>
+
+                    <Button 
+                        onClick={openPreview} 
+                        variant="outline"
+                        disabled={!!selectedFolderPath || !inputPath || isProbing || !probeData || isEncoding} 
+                    >
+                        <Eye className="mr-2 h-4 w-4" />
+                        Preview Encode
+                    </Button>
                     
                     <Button 
                         onClick={handleStartEncoding} 
@@ -1817,6 +1853,15 @@ const ManualEncode: React.FC = () => {
                     </DialogFooter>
                 </DialogContent>
             </Dialog>
+
+            <PreviewEncodeDialog
+                open={previewPreset !== null}
+                onOpenChange={(open) => { if (!open) setPreviewPreset(null); }}
+                preset={previewPreset ?? undefined}
+                inputPath={inputPath}
+                probeData={probeData}
+                trackSelections={{ audio: selectedAudioTracks, subtitle: selectedSubtitleTracks }}
+            />
         </div>
     );
 };
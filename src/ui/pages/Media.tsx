@@ -76,6 +76,9 @@ interface MediaItem {
     resolutionWidth: number | null;
     resolutionHeight: number | null;
     audioChannels: number | null;
+    isHdr: number;
+    dolbyVisionProfile: number | null;
+    hdr10Plus: number;
 }
 
 // Helper to format bytes
@@ -255,6 +258,15 @@ const resolutionColumn: ColumnDef<MediaItem> = {
     // sortingFn: (rowA, rowB) => (rowA.original.resolutionWidth || 0) - (rowB.original.resolutionWidth || 0),
 };
 
+const hdrColumn: ColumnDef<MediaItem> = {
+    id: 'hdr',
+    header: 'HDR',
+    accessorFn: row => row.dolbyVisionProfile !== null ? 3 : row.hdr10Plus ? 2 : row.isHdr ? 1 : 0,
+    cell: info => <div className="flex gap-1"><HdrBadges item={info.row.original} /></div>,
+    size: 90,
+    enableResizing: true,
+};
+
 const audioChannelsColumn: ColumnDef<MediaItem> = {
     accessorKey: 'audioChannels',
     header: 'Audio Ch',
@@ -276,7 +288,7 @@ const audioChannelsColumn: ColumnDef<MediaItem> = {
 // Find index based on header, as resolution doesn't have accessorKey
 const videoCodecIndex = columns.findIndex(col => col.header === 'Video'); 
 if (videoCodecIndex !== -1) {
-    columns.splice(videoCodecIndex + 1, 0, resolutionColumn); // Add Resolution after Video Codec
+    columns.splice(videoCodecIndex + 1, 0, resolutionColumn, hdrColumn); // Add Resolution and HDR after Video Codec
 }
 
 const audioCodecIndex = columns.findIndex(col => col.header === 'Audio');
@@ -295,6 +307,7 @@ const initialColumnOrder: string[] = [
     'encodingJobId',
     'videoCodec',
     'resolution',
+    'hdr',
     'audioCodec',
     'audioChannels',
     'addedAt',
@@ -323,6 +336,29 @@ const ResolutionIcon: React.FC<{ height: number | null }> = ({ height }) => {
     }
 };
 
+// Dolby Vision and HDR10+ files need a preset policy before they can be re-encoded
+const HdrBadges: React.FC<{ item: MediaItem }> = ({ item }) => {
+    if (!item.isHdr) return null;
+    return (
+        <>
+            {item.dolbyVisionProfile !== null && (
+                <Badge variant="outline" className="text-xs bg-fuchsia-500/10 text-fuchsia-500 border-fuchsia-500/30" title={`Dolby Vision profile ${item.dolbyVisionProfile}`}>
+                    DV P{item.dolbyVisionProfile}
+                </Badge>
+            )}
+            {item.hdr10Plus ? (
+                <Badge variant="outline" className="text-xs bg-amber-500/10 text-amber-500 border-amber-500/30" title="HDR10+ dynamic metadata">
+                    HDR10+
+                </Badge>
+            ) : item.dolbyVisionProfile === null && (
+                <Badge variant="outline" className="text-xs bg-yellow-500/10 text-yellow-500 border-yellow-500/30">
+                    HDR
+                </Badge>
+            )}
+        </>
+    );
+};
+
 // Add audio codec icon component at the top of the file
 const AudioCodecIcon: React.FC<{ codec: string | null }> = ({ codec }) => {
     if (!codec) return null;
@@ -510,7 +546,8 @@ const Media: React.FC = () => {
                 id, title, filePath, libraryName, libraryType,
                 originalSize, currentSize, lastSizeCheckAt,
                 videoCodec, audioCodec, addedAt, encodingJobId,
-                resolutionWidth, resolutionHeight, audioChannels
+                resolutionWidth, resolutionHeight, audioChannels,
+                isHdr, dolbyVisionProfile, hdr10Plus
             FROM media 
             WHERE 1=1
         `;
@@ -531,7 +568,8 @@ const Media: React.FC = () => {
                     m.id, m.title, m.filePath, m.libraryName, m.libraryType,
                     m.originalSize, m.currentSize, m.lastSizeCheckAt,
                     m.videoCodec, m.audioCodec, m.addedAt, m.encodingJobId,
-                    m.resolutionWidth, m.resolutionHeight, m.audioChannels
+                    m.resolutionWidth, m.resolutionHeight, m.audioChannels,
+                    m.isHdr, m.dolbyVisionProfile, m.hdr10Plus
                 FROM media AS m
                 JOIN media_fts AS fts ON m.id = fts.rowid
                 WHERE 1=1
@@ -1291,6 +1329,8 @@ const Media: React.FC = () => {
                                                                             </Tooltip>
                                                                         )}
                                                                         
+                                                                        <HdrBadges item={item} />
+                                                                        
                                                                         {item.audioCodec && (
                                                                             <Tooltip>
                                                                                 <TooltipTrigger asChild>
@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
-import { PlusCircle, Edit, Trash2, Loader2, Check, ChevronsUpDown, ArrowUp, ArrowDown } from 'lucide-react';
+import { PlusCircle, Edit, Trash2, Loader2, Check, ChevronsUpDown, ArrowUp, ArrowDown, Eye } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter, DialogClose } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -9,13 +9,14 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Slider } from "@/components/ui/slider";
 import { Separator } from "@/components/ui/separator";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { IElectronAPI, EncodingPreset } from '../../types';
+import { IElectronAPI, EncodingPreset, EncoderCapabilities } from '../../types';
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList, CommandSeparator } from "@/components/ui/command";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Checkbox } from "@/components/ui/checkbox";
 import { cn } from "@/lib/utils";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { defaultPresetValues, getPresetSummary, loadPresets as loadPresetsUtil, deriveHardwareAndFormat, deriveFfmpegCodec, HardwarePlatformUtil, TargetVideoFormatUtil } from '@/utils/presetUtil.js';
+import PreviewEncodeDialog from '../components/PreviewEncodeDialog';
+import { defaultPresetValues, getPresetSummary, loadPresets as loadPresetsUtil, deriveHardwareAndFormat, deriveFfmpegCodec, HardwarePlatformUtil, TargetVideoFormatUtil, SoftwareAv1Encoder, isSoftwareAv1Codec, validateSoftwareAv1Settings, AV1_ENCODER_SCALES, AV1_CRF_MAX, FILM_GRAIN_MAX } from '@/utils/presetUtil.js';
 
 // Constants for FFMPEG options that are still part of the form
 const VIDEO_PRESETS = ['veryslow', 'slower', 'slow', 'medium', 'fast', 'faster', 'veryfast', 'ultrafast'] as const;
@@ -26,7 +27,7 @@ const AUDIO_CODECS_CONVERT = ['libopus', 'aac', 'eac3'] as const;
 type AudioCodecConvert = typeof AUDIO_CODECS_CONVERT[number];
 const SUBTITLE_CODECS_CONVERT = ['srt', 'mov_text'] as const;
 type SubtitleCodecConvert = typeof SUBTITLE_CODECS_CONVERT[number];
-const HW_ACCEL_OPTIONS = ['auto', 'qsv', 'nvenc', 'cuda', 'none'] as const;
+const HW_ACCEL_OPTIONS = ['auto', 'qsv', 'nvenc', 'cuda', 'vaapi', 'none'] as const;
 type HwAccel = typeof HW_ACCEL_OPTIONS[number];
 const AUDIO_LAYOUT_OPTIONS = ['stereo', 'mono', 'surround5_1'] as const;
 type AudioLayout = typeof AUDIO_LAYOUT_OPTIONS[number];
@@ -447,6 +448,8 @@ const SubtitleTypeOrderSelector: React.FC<SubtitleTypeOrderSelectorProps> = ({ o
 const HARDWARE_PLATFORMS = [
   { id: 'INTEL_GPU', label: 'Intel GPU (QuickSync Video)' },
   { id: 'NVIDIA_GPU', label: 'Nvidia GPU (NVENC)' },
+  { id: 'AMD_GPU', label: 'AMD GPU (AMF, Windows)' },
+  { id: 'VAAPI_GPU', label: 'Intel/AMD GPU (VAAPI, Linux)' },
   { id: 'CPU_SOFTWARE', label: 'CPU / Software Encoder' },
   { id: 'NONE', label: 'None (for Copy)'},
 ] as const;
@@ -460,14 +463,46 @@ const TARGET_VIDEO_FORMATS = [
 ] as const;
 type TargetVideoFormat = TargetVideoFormatUtil;
 
+// Select value for "no explicit VAAPI device"
+const VAAPI_DEFAULT_DEVICE_OPTION = 'default';
+
+const SOFTWARE_AV1_ENCODERS = [
+  { id: 'libsvtav1',  label: 'SVT-AV1', description: 'Fast, multithreaded' },
+  { id: 'libaom-av1', label: 'libaom',  description: 'Reference encoder, slow' },
+] as const;
+
+const RATE_CONTROL_MODES = [
+  { id: 'quality',         label: 'Constant Quality', description: 'Uses the quality slider' },
+  { id: 'average_bitrate', label: 'Average Bitrate',  description: 'Predictable bitrate' },
+  { id: 'capped_vbr',      label: 'Capped VBR',       description: 'Average with a peak limit' },
+  { id: 'target_size',     label: 'Target Size',      description: 'Two-pass to hit a file size' },
+] as const;
+
+const HDR_POLICIES = [
+  { id: 'preserve', label: 'Keep HDR',      description: '10-bit with HDR10 metadata' },
+  { id: 'tonemap',  label: 'Convert to SDR', description: 'Tone-map for SDR displays' },
+  { id: 'skip',     label: 'Skip File',     description: 'Leave HDR files untouched' },
+] as const;
+
+const DYNAMIC_HDR_POLICIES = [
+  { id: 'skip',       label: 'Skip File',       description: 'Leave these files untouched' },
+  { id: 'strip',      label: 'Keep Base Layer', description: 'Re-encode as plain HDR10' },
+  { id: 'copy_video', label: 'Copy Video',      description: 'Only convert audio and subtitles' },
+] as const;
+
 // Define the comprehensive FFMPEG codec type based on supported values.
 // This should be the single source of truth for VideoCodec in this file.
-const ALL_FFMPEG_VIDEO_CODECS = ['hevc_qsv', 'h264_qsv', 'av1_qsv', 'hevc_nvenc', 'h264_nvenc', 'av1_nvenc', 'libx265', 'libx264', 'copy'] as const;
+const ALL_FFMPEG_VIDEO_CODECS = ['hevc_qsv', 'h264_qsv', 'av1_qsv', 'hevc_nvenc', 'h264_nvenc', 'av1_nvenc', 'libx265', 'libx264', 'libsvtav1', 'libaom-av1', 'hevc_vaapi', 'h264_vaapi', 'av1_vaapi', 'hevc_amf', 'h264_amf', 'av1_amf', 'copy'] as const;
 type VideoCodec = typeof ALL_FFMPEG_VIDEO_CODECS[number];
 
+// Platforms whose encodes can fall back to other encoders when they fail
+const FALLBACK_PLATFORMS: HardwarePlatformUtil[] = ['INTEL_GPU', 'NVIDIA_GPU', 'AMD_GPU', 'VAAPI_GPU'];
+const FALLBACK_ENCODER_OPTIONS = ALL_FFMPEG_VIDEO_CODECS.filter(codec => codec !== 'copy');
+
 interface PresetFormDataWithoutId extends Omit<EncodingPreset, 'id' | 'videoCodec'> {
   hardwarePlatform: HardwarePlatform;
   targetVideoFormat: TargetVideoFormat;
+  softwareAv1Encoder?: SoftwareAv1Encoder; // Only used for CPU AV1
   removeAllSubtitles?: boolean;
 }
 // This type is for the form's state. It includes UI-specific fields.
@@ -493,6 +528,7 @@ const Presets: React.FC = () => {
 
     // State for Dialog and Form
     const [isDialogOpen, setIsDialogOpen] = useState(false);
+    const [previewPreset, setPreviewPreset] = useState<EncodingPreset | null>(null);
     const [editingPreset, setEditingPreset] = useState<EncodingPreset | null>(null);
     const [formData, setFormData] = useState<PresetFormDataType>(() => {
         const initialMapped = deriveHardwareAndFormat(defaultPresetValues.videoCodec);
@@ -507,6 +543,8 @@ const Presets: React.FC = () => {
         };
     });
     const [formError, setFormError] = useState<string | null>(null);
+    const [vaapiDevices, setVaapiDevices] = useState<string[]>([]);
+    const [encoderCapabilities, setEncoderCapabilities] = useState<EncoderCapabilities | null>(null);
 
     // Load presets on mount
     useEffect(() => {
@@ -526,6 +564,35 @@ const Presets: React.FC = () => {
         loadPresets();
     }, []);
 
+    // Encoders that work with the installed ffmpeg; the first call waits for the startup probe
+    useEffect(() => {
+        electronAPI.getEncoderCapabilities()
+            .then(setEncoderCapabilities)
+            .catch(err => console.error("Error loading encoder capabilities:", err));
+    }, []);
+
+    // Why an encoder can't be used here, or null when it can (or hasn't been probed yet)
+    const getEncoderUnavailableReason = (codec: string | undefined): string | null => {
+        const status = codec ? encoderCapabilities?.encoders[codec] : undefined;
+        return status && !status.available ? (status.reason || 'Not available') : null;
+    };
+
+    const isFormatAvailable = (hardware: HardwarePlatform, format: TargetVideoFormat): boolean => {
+        if (format === 'COPY' || hardware === 'NONE') return true;
+        if (hardware === 'CPU_SOFTWARE' && format === 'AV1') {
+            return SOFTWARE_AV1_ENCODERS.some(encoder => !getEncoderUnavailableReason(encoder.id));
+        }
+        return !getEncoderUnavailableReason(deriveFfmpegCodec(hardware, format));
+    };
+
+    // Render nodes for the VAAPI device picker; empty when not on Linux
+    useEffect(() => {
+        if (!isDialogOpen) return;
+        electronAPI.getVaapiDevices()
+            .then(setVaapiDevices)
+            .catch(err => console.error("Error listing VAAPI devices:", err));
+    }, [isDialogOpen]);
+
     const handleInputChange = (field: keyof PresetFormDataType, value: any) => {
         // Handle name field separately to avoid processing issues
         if (field === 'name') {
@@ -562,12 +629,9 @@ const Presets: React.FC = () => {
                 }
             }
 
-            // Prevent AV1 selection if CPU_SOFTWARE is chosen and AV1 is selected
-            if (newState.hardwarePlatform === 'CPU_SOFTWARE' && newState.targetVideoFormat === 'AV1') {
-                // Fallback: change AV1 to H.265 for CPU
-                newState.targetVideoFormat = 'H265';
-                // Consider setting a formError or notification to inform the user
-                // setFormError("AV1 is not recommended for CPU encoding with current options; defaulted to H.265.");
+            // The encoders' speed scales differ, so start the new one at its default
+            if (field === 'softwareAv1Encoder' && value !== prev.softwareAv1Encoder) {
+                newState.av1Preset = undefined;
             }
             
             return newState;
@@ -606,6 +670,7 @@ const Presets: React.FC = () => {
             name: preset.name || '', // Ensure name is string
             hardwarePlatform: mapped.hardwarePlatform, // Override with derived values
             targetVideoFormat: mapped.targetVideoFormat, // Override with derived values
+            softwareAv1Encoder: isSoftwareAv1Codec(preset.videoCodec) ? preset.videoCodec : undefined,
             audioLanguageOrder: preset.audioLanguageOrder ?? [], 
             subtitleLanguageOrder: preset.subtitleLanguageOrder ?? [],
             subtitleTypeOrder: preset.subtitleTypeOrder ?? [],
@@ -628,7 +693,27 @@ const Presets: React.FC = () => {
              return;
         }
 
-        const finalVideoCodec = deriveFfmpegCodec(formData.hardwarePlatform, formData.targetVideoFormat);
+        if (formData.targetVideoFormat !== 'COPY') {
+            if (formData.rateControlMode === 'average_bitrate' && !formData.videoBitrateKbps) {
+                setFormError("Average bitrate mode needs a bitrate.");
+                return;
+            }
+            if (formData.rateControlMode === 'capped_vbr' && !formData.videoMaxBitrateKbps) {
+                setFormError("Capped VBR mode needs a max bitrate.");
+                return;
+            }
+            if (formData.rateControlMode === 'target_size' && !formData.targetSizeMB) {
+                setFormError("Target size mode needs a target size.");
+                return;
+            }
+        }
+
+        const finalVideoCodec = deriveFfmpegCodec(formData.hardwarePlatform, formData.targetVideoFormat, formData.softwareAv1Encoder);
+        const av1Error = validateSoftwareAv1Settings({ ...formData, videoCodec: finalVideoCodec });
+        if (av1Error) {
+            setFormError(av1Error);
+            return;
+        }
         
         // Derive hwAccel setting from hardware platform selection
         const finalHwAccel = (() => {
@@ -637,6 +722,10 @@ const Presets: React.FC = () => {
                     return 'auto'; // Use auto for Intel GPU to avoid hardware crashes
                 case 'NVIDIA_GPU':
                     return 'nvenc';
+                case 'AMD_GPU':
+                    return 'auto'; // AMF has no matching -hwaccel, decode with D3D11VA/DXVA2
+                case 'VAAPI_GPU':
+                    return 'vaapi';
                 case 'CPU_SOFTWARE':
                     return 'none';
                 case 'NONE':
@@ -664,6 +753,27 @@ const Presets: React.FC = () => {
                 subtitleLanguageOrder: formData.removeAllSubtitles ? [] : (formData.subtitleLanguageOrder ?? []),
                 subtitleTypeOrder: formData.removeAllSubtitles ? [] : (formData.subtitleTypeOrder ?? []),
                 removeAllSubtitles: formData.removeAllSubtitles ?? false, // Add the missing field
+                rateControlMode: formData.rateControlMode ?? 'quality',
+                videoBitrateKbps: formData.videoBitrateKbps,
+                videoMaxBitrateKbps: formData.videoMaxBitrateKbps,
+                videoBufferSizeKbps: formData.videoBufferSizeKbps,
+                targetSizeMB: formData.targetSizeMB,
+                av1Preset: isSoftwareAv1Codec(finalVideoCodec) ? formData.av1Preset : undefined,
+                vaapiDevice: formData.hardwarePlatform === 'VAAPI_GPU' ? formData.vaapiDevice : undefined,
+                fallbackEncoders: FALLBACK_PLATFORMS.includes(formData.hardwarePlatform) && formData.fallbackEncoders?.length
+                    ? formData.fallbackEncoders.filter(codec => codec !== finalVideoCodec)
+                    : undefined,
+                filmGrain: isSoftwareAv1Codec(finalVideoCodec) ? formData.filmGrain : undefined,
+                hdrPolicy: formData.hdrPolicy ?? 'preserve',
+                dynamicHdrPolicy: formData.dynamicHdrPolicy ?? 'skip',
+                verificationMetric: formData.verificationMetric ?? 'none',
+                verificationThreshold: formData.verificationMetric && formData.verificationMetric !== 'none' ? formData.verificationThreshold : undefined,
+                verificationSampled: formData.verificationSampled ?? true,
+                guardMinReductionPercent: formData.guardMinReductionPercent,
+                guardMaxSizeRatio: formData.guardMaxSizeRatio,
+                guardDurationToleranceSeconds: formData.guardDurationToleranceSeconds,
+                guardRequireAudioStreams: formData.guardRequireAudioStreams ?? false,
+                guardRequireSubtitleStreams: formData.guardRequireSubtitleStreams ?? false,
             };
             
             const completePresetToSave: EncodingPreset = {
@@ -753,8 +863,16 @@ const Presets: React.FC = () => {
                                             <p className="text-xs text-muted-foreground">
                                                 {getPresetSummary(preset)}
                                             </p>
+                                            {getEncoderUnavailableReason(preset.videoCodec) && (
+                                                <p className="text-xs text-red-500">
+                                                    {preset.videoCodec} is not available: {getEncoderUnavailableReason(preset.videoCodec)}
+                                                </p>
+                                            )}
                                         </div>
                                         <div className="flex items-center gap-2">
+                                            <Button variant="ghost" size="icon" onClick={() => setPreviewPreset(preset)} title="Preview Encode">
+                                                <Eye className="h-4 w-4" />
+                                            </Button>
                                             <Button variant="ghost" size="icon" onClick={() => openEditDialog(preset)} title="Edit Preset">
                                                 <Edit className="h-4 w-4" />
                                             </Button>
@@ -770,6 +888,12 @@ const Presets: React.FC = () => {
                 </Card>
             )}
 
+            <PreviewEncodeDialog
+                open={previewPreset !== null}
+                onOpenChange={(open) => { if (!open) setPreviewPreset(null); }}
+                preset={previewPreset ?? undefined}
+            />
+
             {/* Dialog Form */}
             <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
                 <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
@@ -817,7 +941,9 @@ const Presets: React.FC = () => {
                                         <SelectItem 
                                             key={p.id} 
                                             value={p.id} 
-                                            disabled={p.id === 'NONE' && formData.targetVideoFormat !== 'COPY'}
+                                            disabled={p.id === 'NONE'
+                                                ? formData.targetVideoFormat !== 'COPY'
+                                                : !(['AV1', 'H265', 'H264'] as const).some(f => isFormatAvailable(p.id, f))}
                                             textValue={p.label}
                                         >
                                             {p.label}
@@ -845,8 +971,7 @@ const Presets: React.FC = () => {
                                         <SelectItem 
                                             key={f.id} 
                                             value={f.id}
-                                            // Disable AV1 if CPU is selected
-                                            disabled={(f.id === 'AV1' && formData.hardwarePlatform === 'CPU_SOFTWARE')}
+                                            disabled={!isFormatAvailable(formData.hardwarePlatform, f.id)}
                                         >
                                             <div className="flex items-start justify-between w-full">
                                                 <span>{f.label}</span>
@@ -858,32 +983,131 @@ const Presets: React.FC = () => {
                             </Select>
                         </div>
                         
+                        {formData.hardwarePlatform === 'CPU_SOFTWARE' && formData.targetVideoFormat === 'AV1' && (
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="softwareAv1Encoder" className="text-right">AV1 Encoder</Label>
+                                <Select 
+                                    value={formData.softwareAv1Encoder ?? 'libsvtav1'} 
+                                    onValueChange={(v: SoftwareAv1Encoder) => handleInputChange('softwareAv1Encoder', v)}
+                                >
+                                    <SelectTrigger id="softwareAv1Encoder" className="col-span-3"><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        {SOFTWARE_AV1_ENCODERS.map(encoder => (
+                                            <SelectItem key={encoder.id} value={encoder.id} disabled={!!getEncoderUnavailableReason(encoder.id)}>
+                                                <div className="flex items-center justify-between w-full">
+                                                    <span>{encoder.label}</span>
+                                                    <span className="text-xs text-muted-foreground ml-2">{encoder.description}</span>
+                                                </div>
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        )}
+
+                        {formData.hardwarePlatform === 'VAAPI_GPU' && (
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="vaapiDevice" className="text-right">VAAPI Device</Label>
+                                <div className="col-span-3">
+                                    <Select 
+                                        value={formData.vaapiDevice ?? VAAPI_DEFAULT_DEVICE_OPTION} 
+                                        onValueChange={(v) => handleInputChange('vaapiDevice', v === VAAPI_DEFAULT_DEVICE_OPTION ? undefined : v)}
+                                    >
+                                        <SelectTrigger id="vaapiDevice"><SelectValue /></SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value={VAAPI_DEFAULT_DEVICE_OPTION}>Default (first render node)</SelectItem>
+                                            {/* Keep a saved device selectable even if it isn't present on this machine */}
+                                            {[...new Set([...vaapiDevices, ...(formData.vaapiDevice ? [formData.vaapiDevice] : [])])].map(device => (
+                                                <SelectItem key={device} value={device}>{device}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                    {vaapiDevices.length === 0 && (
+                                        <p className="text-xs text-muted-foreground mt-2">
+                                            No render nodes found under /dev/dri. VAAPI is only available on Linux.
+                                        </p>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+
+                        {FALLBACK_PLATFORMS.includes(formData.hardwarePlatform) && (() => {
+                            const derivedCodec = deriveFfmpegCodec(formData.hardwarePlatform, formData.targetVideoFormat, formData.softwareAv1Encoder);
+                            const chain = formData.fallbackEncoders ?? [];
+                            const candidates = FALLBACK_ENCODER_OPTIONS.filter(codec => codec !== derivedCodec && !chain.includes(codec));
+                            return (
+                                <div className="grid grid-cols-4 items-start gap-4">
+                                    <Label htmlFor="fallbackEncoders" className="text-right pt-2">Fallback Encoders</Label>
+                                    <div className="col-span-3 space-y-2">
+                                        {chain.map((codec, index) => (
+                                            <div key={codec} className="flex items-center gap-2 rounded-md border px-3 py-1.5 text-sm">
+                                                <span className="w-4 text-muted-foreground">{index + 1}.</span>
+                                                <span className="flex-1">{codec}</span>
+                                                {getEncoderUnavailableReason(codec) && (
+                                                    <span className="text-xs text-red-500" title={getEncoderUnavailableReason(codec) ?? undefined}>Not available</span>
+                                                )}
+                                                <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleInputChange('fallbackEncoders', chain.filter(c => c !== codec))}>
+                                                    <Trash2 className="h-3.5 w-3.5" />
+                                                </Button>
+                                            </div>
+                                        ))}
+                                        <Select value="" onValueChange={(v) => handleInputChange('fallbackEncoders', [...chain, v])}>
+                                            <SelectTrigger id="fallbackEncoders"><SelectValue placeholder="Add a fallback encoder..." /></SelectTrigger>
+                                            <SelectContent>
+                                                {candidates.map(codec => (
+                                                    <SelectItem key={codec} value={codec} disabled={!!getEncoderUnavailableReason(codec)}>{codec}</SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        <p className="text-xs text-muted-foreground">
+                                            When the hardware encode fails, the job is retried on each of these in order, with the quality value mapped to that encoder's scale.
+                                        </p>
+                                    </div>
+                                </div>
+                            );
+                        })()}
+
                         {(() => {
                             const currentDerivedCodec = formData.hardwarePlatform && formData.targetVideoFormat ? 
-                                deriveFfmpegCodec(formData.hardwarePlatform, formData.targetVideoFormat) : 
+                                deriveFfmpegCodec(formData.hardwarePlatform, formData.targetVideoFormat, formData.softwareAv1Encoder) : 
                                 defaultPresetValues.videoCodec; // Fallback to default if not fully selected
+                            // SVT-AV1 and libaom use numeric speed presets and a 0-63 CRF scale
+                            const av1Scale = isSoftwareAv1Codec(currentDerivedCodec) ? AV1_ENCODER_SCALES[currentDerivedCodec] : null;
+                            const unavailableReason = getEncoderUnavailableReason(currentDerivedCodec);
 
                             const isCopy = currentDerivedCodec === 'copy';
                             // Video Preset and Quality typically apply to software encoders or when not copying.
                             // For hardware encoders, their effect might vary. For simplicity, enable unless 'copy'.
                             const disablePresetQuality = isCopy; 
+                            const rateControlMode = formData.rateControlMode || 'quality';
+                            // The quality slider only drives quality mode, or capped VBR without an average bitrate
+                            const disableQuality = isCopy || rateControlMode === 'average_bitrate' || rateControlMode === 'target_size';
                         
                             return (<>
+                                {unavailableReason && (
+                                    <Alert variant="destructive">
+                                        <AlertTitle>{currentDerivedCodec} is not available</AlertTitle>
+                                        <AlertDescription>{unavailableReason}. Jobs using this preset won't be queued on this machine.</AlertDescription>
+                                    </Alert>
+                                )}
                                 <div className="grid grid-cols-4 items-center gap-4">
                                     <Label htmlFor="videoPreset" className="text-right">Speed / Quality</Label>
                                     <div className="col-span-3 space-y-2">
                                         <Slider 
                                             id="videoPresetSlider"
                                             min={0}
-                                            max={VIDEO_PRESETS.length - 1}
+                                            max={av1Scale ? av1Scale.presetMax : VIDEO_PRESETS.length - 1}
                                             step={1}
-                                            value={[presetToSliderValue(formData.videoPreset)]} 
-                                            onValueChange={(valueArray: number[]) => handleInputChange('videoPreset', sliderValueToPreset(valueArray[0]))} 
+                                            value={[av1Scale ? (formData.av1Preset ?? av1Scale.defaultPreset) : presetToSliderValue(formData.videoPreset)]} 
+                                            onValueChange={(valueArray: number[]) => av1Scale
+                                                ? handleInputChange('av1Preset', valueArray[0])
+                                                : handleInputChange('videoPreset', sliderValueToPreset(valueArray[0]))} 
                                             disabled={disablePresetQuality}
                                             className="w-full [&>*[role=slider]]:h-4 [&>*[role=slider]]:w-4 [&>*[role=slider]]:bg-indigo-500 [&>*[role=slider]]:border-2 [&>*[role=slider]]:border-indigo-400 [&>*[role=slider]]:shadow-md [&>*[role=slider]]:transition-all [&>*[role=slider]]:hover:bg-indigo-400 [&>*[role=slider]]:hover:scale-110 [&>span[data-orientation=horizontal]]:h-2 [&>span[data-orientation=horizontal]]:bg-muted [&>span[data-orientation=horizontal]]:rounded-full [&_.bg-primary]:bg-indigo-500"
                                         />
                                         <div className="flex justify-between text-xs text-muted-foreground px-1">
                                             <span>Slowest (Best Quality)</span>
+                                            {av1Scale && <span className="font-medium text-indigo-400">Preset {formData.av1Preset ?? av1Scale.defaultPreset}</span>}
                                             <span>Fastest (Lower Quality)</span>
                                         </div>
                                     </div>
@@ -895,11 +1119,11 @@ const Presets: React.FC = () => {
                                             <Slider 
                                                 id="videoQuality"
                                                 value={[Number(formData.videoQuality ?? defaultPresetValues.videoQuality)]} 
-                                                min={18} 
-                                                max={38} 
+                                                min={av1Scale ? 0 : 18} 
+                                                max={av1Scale ? AV1_CRF_MAX : 38} 
                                                 step={1} 
                                                 onValueChange={(v) => handleSliderChange('videoQuality', v as unknown as number[])} 
-                                                disabled={disablePresetQuality}
+                                                disabled={disableQuality}
                                                 className="w-full [&>*[role=slider]]:h-4 [&>*[role=slider]]:w-4 [&>*[role=slider]]:bg-indigo-500 [&>*[role=slider]]:border-2 [&>*[role=slider]]:border-indigo-400 [&>*[role=slider]]:shadow-md [&>*[role=slider]]:transition-all [&>*[role=slider]]:hover:bg-indigo-400 [&>*[role=slider]]:hover:scale-110 [&>span[data-orientation=horizontal]]:h-2 [&>span[data-orientation=horizontal]]:bg-muted [&>span[data-orientation=horizontal]]:rounded-full [&_.bg-primary]:bg-indigo-500"
                                             />
                                             <div className="flex justify-between text-xs text-muted-foreground px-1">
@@ -910,6 +1134,106 @@ const Presets: React.FC = () => {
                                         <span className="text-sm w-8 text-right font-medium text-indigo-400">{formData.videoQuality ?? defaultPresetValues.videoQuality}</span>
                                     </div>
                                 </div>
+                                {av1Scale && (
+                                    <div className="grid grid-cols-4 items-center gap-4">
+                                        <Label htmlFor="filmGrain" className="text-right">Film Grain</Label>
+                                        <div className="col-span-3">
+                                            <Input 
+                                                id="filmGrain"
+                                                type="number"
+                                                min={0}
+                                                max={FILM_GRAIN_MAX}
+                                                placeholder="Off"
+                                                value={formData.filmGrain ?? ''}
+                                                onChange={(e) => handleInputChange('filmGrain', e.target.value === '' ? '' : parseInt(e.target.value, 10))}
+                                            />
+                                            <p className="text-xs text-muted-foreground mt-2">
+                                                Removes grain before encoding and has the player re-create it (0-{FILM_GRAIN_MAX}). Around 8-15 suits grainy film sources.
+                                            </p>
+                                        </div>
+                                    </div>
+                                )}
+                                <div className="grid grid-cols-4 items-center gap-4">
+                                    <Label htmlFor="rateControlMode" className="text-right">Rate Control</Label>
+                                    <Select 
+                                        value={rateControlMode} 
+                                        onValueChange={(v) => handleInputChange('rateControlMode', v)} 
+                                        disabled={isCopy}
+                                    >
+                                        <SelectTrigger id="rateControlMode" className="col-span-3"><SelectValue /></SelectTrigger>
+                                        <SelectContent>
+                                            {RATE_CONTROL_MODES.map(mode => (
+                                                <SelectItem key={mode.id} value={mode.id}>
+                                                    <div className="flex items-center justify-between w-full">
+                                                        <span>{mode.label}</span>
+                                                        <span className="text-xs text-muted-foreground ml-2">{mode.description}</span>
+                                                    </div>
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                {!isCopy && (rateControlMode === 'average_bitrate' || rateControlMode === 'capped_vbr') && (
+                                    <div className="grid grid-cols-4 items-center gap-4">
+                                        <Label htmlFor="videoBitrateKbps" className="text-right">Bitrate (kbps)</Label>
+                                        <Input 
+                                            id="videoBitrateKbps"
+                                            type="number"
+                                            min={100}
+                                            step={100}
+                                            placeholder={rateControlMode === 'capped_vbr' ? 'Optional, e.g. 4000' : 'e.g. 4000'}
+                                            className="col-span-3"
+                                            value={formData.videoBitrateKbps ?? ''}
+                                            onChange={(e) => handleInputChange('videoBitrateKbps', e.target.value === '' ? '' : parseInt(e.target.value, 10))}
+                                        />
+                                    </div>
+                                )}
+                                {!isCopy && rateControlMode === 'capped_vbr' && (<>
+                                    <div className="grid grid-cols-4 items-center gap-4">
+                                        <Label htmlFor="videoMaxBitrateKbps" className="text-right">Max Bitrate (kbps)</Label>
+                                        <Input 
+                                            id="videoMaxBitrateKbps"
+                                            type="number"
+                                            min={100}
+                                            step={100}
+                                            placeholder="e.g. 8000"
+                                            className="col-span-3"
+                                            value={formData.videoMaxBitrateKbps ?? ''}
+                                            onChange={(e) => handleInputChange('videoMaxBitrateKbps', e.target.value === '' ? '' : parseInt(e.target.value, 10))}
+                                        />
+                                    </div>
+                                    <div className="grid grid-cols-4 items-center gap-4">
+                                        <Label htmlFor="videoBufferSizeKbps" className="text-right">Buffer Size (kbps)</Label>
+                                        <Input 
+                                            id="videoBufferSizeKbps"
+                                            type="number"
+                                            min={100}
+                                            step={100}
+                                            placeholder="Defaults to twice the max bitrate"
+                                            className="col-span-3"
+                                            value={formData.videoBufferSizeKbps ?? ''}
+                                            onChange={(e) => handleInputChange('videoBufferSizeKbps', e.target.value === '' ? '' : parseInt(e.target.value, 10))}
+                                        />
+                                    </div>
+                                </>)}
+                                {!isCopy && rateControlMode === 'target_size' && (
+                                    <div className="grid grid-cols-4 items-center gap-4">
+                                        <Label htmlFor="targetSizeMB" className="text-right">Target Size (MB)</Label>
+                                        <div className="col-span-3">
+                                            <Input 
+                                                id="targetSizeMB"
+                                                type="number"
+                                                min={1}
+                                                placeholder="e.g. 2048"
+                                                value={formData.targetSizeMB ?? ''}
+                                                onChange={(e) => handleInputChange('targetSizeMB', e.target.value === '' ? '' : parseFloat(e.target.value))}
+                                            />
+                                            <p className="text-xs text-muted-foreground mt-2">
+                                                Video bitrate is worked out from each file's duration and audio tracks. CPU encoders run two passes (SVT-AV1 runs one); GPU encoders use their own multipass.
+                                            </p>
+                                        </div>
+                                    </div>
+                                )}
                                 <div className="grid grid-cols-4 items-center gap-4">
                                     <Label htmlFor="videoResolution" className="text-right">Resolution</Label>
                                     <Select 
@@ -944,6 +1268,53 @@ const Presets: React.FC = () => {
                                         </SelectContent>
                                     </Select>
                                 </div>
+                                <div className="grid grid-cols-4 items-center gap-4">
+                                    <Label htmlFor="hdrPolicy" className="text-right">HDR Sources</Label>
+                                    <div className="col-span-3">
+                                        <Select 
+                                            value={formData.hdrPolicy || 'preserve'} 
+                                            onValueChange={(v) => handleInputChange('hdrPolicy', v)} 
+                                            disabled={isCopy}
+                                        >
+                                            <SelectTrigger id="hdrPolicy"><SelectValue /></SelectTrigger>
+                                            <SelectContent>
+                                                {HDR_POLICIES.map(policy => (
+                                                    <SelectItem key={policy.id} value={policy.id}>
+                                                        <div className="flex items-center justify-between w-full">
+                                                            <span>{policy.label}</span>
+                                                            <span className="text-xs text-muted-foreground ml-2">{policy.description}</span>
+                                                        </div>
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        {formData.targetVideoFormat === 'H264' && (formData.hdrPolicy || 'preserve') === 'preserve' && (
+                                            <p className="text-xs text-muted-foreground mt-2">
+                                                H.264 output is 8-bit, so HDR sources are tone-mapped to SDR.
+                                            </p>
+                                        )}
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-4 items-center gap-4">
+                                    <Label htmlFor="dynamicHdrPolicy" className="text-right">Dolby Vision / HDR10+</Label>
+                                    <Select 
+                                        value={formData.dynamicHdrPolicy || 'skip'} 
+                                        onValueChange={(v) => handleInputChange('dynamicHdrPolicy', v)} 
+                                        disabled={isCopy}
+                                    >
+                                        <SelectTrigger id="dynamicHdrPolicy" className="col-span-3"><SelectValue /></SelectTrigger>
+                                        <SelectContent>
+                                            {DYNAMIC_HDR_POLICIES.map(policy => (
+                                                <SelectItem key={policy.id} value={policy.id}>
+                                                    <div className="flex items-center justify-between w-full">
+                                                        <span>{policy.label}</span>
+                                                        <span className="text-xs text-muted-foreground ml-2">{policy.description}</span>
+                                                    </div>
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
                             </>);
                         })()}
 
@@ -1129,6 +1500,126 @@ const Presets: React.FC = () => {
                             </div>
                         )}
 
+                        <Separator />
+
+                        <h4 className="font-medium text-lg -mb-2">Quality Verification</h4>
+                        <div className="grid grid-cols-4 items-center gap-4">
+                            <Label htmlFor="verificationMetric" className="text-right">Metric</Label>
+                            <Select 
+                                value={formData.verificationMetric || 'none'} 
+                                onValueChange={(value) => handleInputChange('verificationMetric', value)}
+                            >
+                                <SelectTrigger id="verificationMetric" className="col-span-3">
+                                    <SelectValue placeholder="Select metric" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="none">Off</SelectItem>
+                                    <SelectItem value="vmaf">VMAF (0-100)</SelectItem>
+                                    <SelectItem value="ssim">SSIM (0-1)</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        {formData.verificationMetric && formData.verificationMetric !== 'none' && (
+                            <>
+                                <div className="grid grid-cols-4 items-center gap-4">
+                                    <Label htmlFor="verificationThreshold" className="text-right">Minimum Score</Label>
+                                    <div className="col-span-3">
+                                        <Input 
+                                            id="verificationThreshold"
+                                            type="number"
+                                            min={0}
+                                            max={formData.verificationMetric === 'vmaf' ? 100 : 1}
+                                            step={formData.verificationMetric === 'vmaf' ? 0.5 : 0.001}
+                                            placeholder={formData.verificationMetric === 'vmaf' ? '93' : '0.98'}
+                                            value={formData.verificationThreshold ?? ''}
+                                            onChange={(e) => handleInputChange('verificationThreshold', e.target.value === '' ? '' : parseFloat(e.target.value))}
+                                        />
+                                        <p className="text-xs text-muted-foreground mt-2">
+                                            Encodes scoring below this are discarded and the original file is kept.
+                                        </p>
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-4 items-center gap-4">
+                                    <Label htmlFor="verificationSampled" className="text-right">Speed</Label>
+                                    <div className="col-span-3 flex items-center space-x-2">
+                                        <Checkbox 
+                                            id="verificationSampled"
+                                            checked={formData.verificationSampled ?? true}
+                                            onCheckedChange={(checked) => handleInputChange('verificationSampled', checked === true)}
+                                        />
+                                        <Label htmlFor="verificationSampled" className="text-sm font-normal">Score sampled segments instead of the whole file</Label>
+                                    </div>
+                                </div>
+                            </>
+                        )}
+
+                        <Separator />
+
+                        <h4 className="font-medium text-lg -mb-2">Safety Checks</h4>
+                        <p className="text-xs text-muted-foreground -mb-2">
+                            Checked before the encode replaces anything. Encodes that break a rule are discarded and the job fails. Leave a field empty to skip it.
+                        </p>
+                        <div className="grid grid-cols-4 items-center gap-4">
+                            <Label htmlFor="guardMinReductionPercent" className="text-right">Min. Reduction (%)</Label>
+                            <Input 
+                                id="guardMinReductionPercent"
+                                type="number"
+                                min={0}
+                                max={100}
+                                placeholder="e.g. 10"
+                                className="col-span-3"
+                                value={formData.guardMinReductionPercent ?? ''}
+                                onChange={(e) => handleInputChange('guardMinReductionPercent', e.target.value === '' ? '' : parseFloat(e.target.value))}
+                            />
+                        </div>
+                        <div className="grid grid-cols-4 items-center gap-4">
+                            <Label htmlFor="guardMaxSizeRatio" className="text-right">Max. Size Ratio</Label>
+                            <Input 
+                                id="guardMaxSizeRatio"
+                                type="number"
+                                min={0}
+                                step={0.05}
+                                placeholder="e.g. 1.0 (never larger than the source)"
+                                className="col-span-3"
+                                value={formData.guardMaxSizeRatio ?? ''}
+                                onChange={(e) => handleInputChange('guardMaxSizeRatio', e.target.value === '' ? '' : parseFloat(e.target.value))}
+                            />
+                        </div>
+                        <div className="grid grid-cols-4 items-center gap-4">
+                            <Label htmlFor="guardDurationToleranceSeconds" className="text-right">Duration Tolerance (s)</Label>
+                            <Input 
+                                id="guardDurationToleranceSeconds"
+                                type="number"
+                                min={0}
+                                step={0.5}
+                                placeholder="e.g. 2"
+                                className="col-span-3"
+                                value={formData.guardDurationToleranceSeconds ?? ''}
+                                onChange={(e) => handleInputChange('guardDurationToleranceSeconds', e.target.value === '' ? '' : parseFloat(e.target.value))}
+                            />
+                        </div>
+                        <div className="grid grid-cols-4 items-center gap-4">
+                            <Label className="text-right">Required Streams</Label>
+                            <div className="col-span-3 space-y-2">
+                                <div className="flex items-center space-x-2">
+                                    <Checkbox 
+                                        id="guardRequireAudioStreams"
+                                        checked={formData.guardRequireAudioStreams || false}
+                                        onCheckedChange={(checked) => handleInputChange('guardRequireAudioStreams', checked === true)}
+                                    />
+                                    <Label htmlFor="guardRequireAudioStreams" className="text-sm font-normal">Every selected audio track must be in the output</Label>
+                                </div>
+                                <div className="flex items-center space-x-2">
+                                    <Checkbox 
+                                        id="guardRequireSubtitleStreams"
+                                        checked={formData.guardRequireSubtitleStreams || false}
+                                        onCheckedChange={(checked) => handleInputChange('guardRequireSubtitleStreams', checked === true)}
+                                    />
+                                    <Label htmlFor="guardRequireSubtitleStreams" className="text-sm font-normal">Every selected subtitle track must be in the output</Label>
+                                </div>
+                            </div>
+                        </div>
+
                     </div>
                     <DialogFooter>
                         <DialogClose asChild>
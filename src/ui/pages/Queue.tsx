@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
-import { Play, Pause, Trash2, FileX, SkipForward, Settings, AlertCircle, CheckCircle, PlayCircle, Clock, FileText } from 'lucide-react';
+import { Play, Pause, Trash2, FileX, SkipForward, Settings, AlertCircle, CheckCircle, PlayCircle, Clock, FileText, XCircle, PauseCircle } from 'lucide-react';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
@@ -13,7 +13,10 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/comp
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
 import { EncodingJob, JobStatus } from "../../services/queueService";
+import type { RetryPolicyData, RetryableErrorClass, QueueScheduleData, QueueDayWindowData, LoadThrottleData } from "../../types";
+import QueueWindowStatus from '../components/QueueWindowStatus';
 import { useQueue } from '../../hooks/useQueue';
 import { getJobLog, openJobLog, formatJobLogForDisplay, associateLogWithJob, getAllLogMappings } from "../../utils/jobLogUtil";
 
@@ -34,6 +37,8 @@ const StatusIcon: React.FC<{ status: JobStatus }> = ({ status }) => {
       return <Clock className="h-4 w-4 text-slate-400" />;
     case 'processing':
       return <PlayCircle className="h-4 w-4 text-indigo-500 animate-pulse" />;
+    case 'paused':
+      return <PauseCircle className="h-4 w-4 text-amber-500" />;
     case 'completed':
       return <CheckCircle className="h-4 w-4 text-green-500" />;
     case 'failed':
@@ -56,6 +61,9 @@ const StatusBadge: React.FC<{ status: JobStatus }> = ({ status }) => {
     case 'processing':
       variant = "default";
       break;
+    case 'paused':
+      variant = "outline";
+      break;
     case 'completed':
       variant = "secondary";
       break;
@@ -73,6 +81,16 @@ const StatusBadge: React.FC<{ status: JobStatus }> = ({ status }) => {
   );
 };
 
+// Format an ETA in seconds as e.g. "1h 05m" or "4m 12s"
+const formatEta = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60);
+  if (h > 0) return `${h}h ${m.toString().padStart(2, '0')}m`;
+  if (m > 0) return `${m}m ${s.toString().padStart(2, '0')}s`;
+  return `${s}s`;
+};
+
 // Job Log Dialog component
 const JobLogDialog: React.FC<{ job: EncodingJob, isOpen: boolean, onClose: () => void }> = ({ job, isOpen, onClose }) => {
   const [logContent, setLogContent] = useState<string | null>(null);
@@ -166,7 +184,14 @@ const JobLogDialog: React.FC<{ job: EncodingJob, isOpen: boolean, onClose: () =>
 };
 
 // Job details component
-const JobDetails: React.FC<{ job: EncodingJob, onRemove?: (jobId: string) => void }> = ({ job, onRemove }) => {
+const JobDetails: React.FC<{
+  job: EncodingJob,
+  loadHold?: string | null,
+  onRemove?: (jobId: string) => void,
+  onCancel?: (jobId: string) => void,
+  onPause?: (jobId: string) => void,
+  onResume?: (jobId: string) => void
+}> = ({ job, loadHold, onRemove, onCancel, onPause, onResume }) => {
   const [localProgress, setLocalProgress] = useState(job.progress);
   const [lastUpdate, setLastUpdate] = useState(Date.now());
   const [isLogDialogOpen, setIsLogDialogOpen] = useState(false);
@@ -229,6 +254,10 @@ const JobDetails: React.FC<{ job: EncodingJob, onRemove?: (jobId: string) => voi
           <div>
             <div className="text-sm font-medium">Preset</div>
             <div className="text-sm text-muted-foreground">{job.preset?.name || 'Custom Settings'}</div>
+            {job.device && <div className="text-xs text-muted-foreground">on {job.device.label}</div>}
+            {job.encoderAttempts && (
+              <div className="text-xs text-amber-500">Fell back to {job.encoderAttempts[job.encoderAttempts.length - 1]}</div>
+            )}
           </div>
           <div>
             <div className="text-sm font-medium">Progress</div>
@@ -244,13 +273,46 @@ const JobDetails: React.FC<{ job: EncodingJob, onRemove?: (jobId: string) => voi
                 Last updated: {new Date(lastUpdate).toLocaleTimeString()}
               </div>
             )}
+            {job.status === 'processing' && job.lowPriority && (
+              <div className="text-xs text-amber-500 mt-1">Running at low priority because of high system load</div>
+            )}
+            {job.status === 'paused' && (
+              <div className="text-xs text-muted-foreground mt-1">
+                {job.pausedByLoad ? 'Paused because of high system load - resumes once it eases' : 'Paused - the encode will continue from this point when resumed'}
+              </div>
+            )}
+            {job.status === 'queued' && job.nextRetryAt && (
+              <div className="text-xs text-amber-500 mt-1">
+                Waiting to retry at {new Date(job.nextRetryAt).toLocaleTimeString()}
+              </div>
+            )}
+            {job.status === 'queued' && !job.nextRetryAt && loadHold && (
+              <div className="text-xs text-amber-500 mt-1">Held: {loadHold}</div>
+            )}
+            {(job.attempts ?? 0) > 1 && (
+              <div className="text-xs text-muted-foreground mt-1">Attempt {job.attempts}</div>
+            )}
           </div>
           {job.status === 'processing' && job.fps !== undefined && (
             <div className="text-sm text-muted-foreground">
               {job.fps.toFixed(1)} FPS
+              {job.speed !== undefined && (
+                <span className="ml-2">{job.speed.toFixed(2)}x</span>
+              )}
+              {job.bitrate !== undefined && (
+                <span className="ml-2">{job.bitrate} kbps</span>
+              )}
               {job.frame !== undefined && job.totalFrames !== undefined && (
                 <span className="ml-2">Frame {job.frame} / {job.totalFrames}</span>
               )}
+              {job.eta !== undefined && (
+                <span className="ml-2">ETA {formatEta(job.eta)}</span>
+              )}
+            </div>
+          )}
+          {job.result?.qualityScore !== undefined && job.result.qualityMetric && (
+            <div className="text-sm text-muted-foreground">
+              Quality: {job.result.qualityMetric.toUpperCase()} {job.result.qualityScore}
             </div>
           )}
           {job.error && (
@@ -268,7 +330,25 @@ const JobDetails: React.FC<{ job: EncodingJob, onRemove?: (jobId: string) => voi
           </Button>
         )}
         
-        {(job.status === 'completed' || job.status === 'failed' || job.status === 'processing') && (
+        {job.status === 'processing' && onPause && (
+          <Button variant="outline" size="sm" onClick={() => onPause(job.id)}>
+            <Pause className="h-4 w-4 mr-1" /> Pause
+          </Button>
+        )}
+        
+        {job.status === 'paused' && onResume && (
+          <Button variant="outline" size="sm" onClick={() => onResume(job.id)}>
+            <Play className="h-4 w-4 mr-1" /> Resume
+          </Button>
+        )}
+        
+        {(job.status === 'processing' || job.status === 'paused' || job.status === 'verifying') && onCancel && (
+          <Button variant="outline" size="sm" onClick={() => onCancel(job.id)}>
+            <XCircle className="h-4 w-4 mr-1" /> Cancel
+          </Button>
+        )}
+        
+        {(job.status === 'completed' || job.status === 'failed' || job.status === 'processing' || job.status === 'paused' || job.status === 'cancelled') && (
           <Button variant="outline" size="sm" className="ml-auto" onClick={() => setIsLogDialogOpen(true)}>
             <FileText className="h-4 w-4 mr-1" /> View Log
           </Button>
@@ -280,12 +360,58 @@ const JobDetails: React.FC<{ job: EncodingJob, onRemove?: (jobId: string) => voi
   );
 };
 
-const QueueSettings: React.FC<{ maxJobs: number, onMaxJobsChange: (value: number) => void }> = ({ 
+const LOAD_THRESHOLDS: { key: 'cpuThreshold' | 'gpuThreshold' | 'memoryThreshold'; label: string }[] = [
+  { key: 'cpuThreshold', label: 'CPU' },
+  { key: 'gpuThreshold', label: 'GPU' },
+  { key: 'memoryThreshold', label: 'Memory' },
+];
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// 24 is the end of the day
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+const RETRYABLE_ERROR_CLASSES: { id: RetryableErrorClass; label: string; description: string }[] = [
+  { id: 'file_locked', label: 'Locked files', description: 'File in use by a media server, permission hiccups' },
+  { id: 'network', label: 'Network errors', description: 'Network share timeouts and disconnects' },
+  { id: 'disk_full', label: 'Disk full', description: 'Out of space on the output drive' },
+  { id: 'hardware', label: 'GPU errors', description: 'Encoder session limits, device resets' },
+];
+
+const QueueSettings: React.FC<{
+  maxJobs: number,
+  onMaxJobsChange: (value: number) => void,
+  recoverInterruptedJobs: boolean,
+  onRecoverInterruptedJobsChange: (value: boolean) => void,
+  retryPolicy: RetryPolicyData,
+  onRetryPolicyChange: (value: RetryPolicyData) => void,
+  schedule: QueueScheduleData,
+  onScheduleChange: (value: QueueScheduleData) => void,
+  loadThrottle: LoadThrottleData,
+  onLoadThrottleChange: (value: LoadThrottleData) => void
+}> = ({ 
   maxJobs, 
-  onMaxJobsChange 
+  onMaxJobsChange,
+  recoverInterruptedJobs,
+  onRecoverInterruptedJobsChange,
+  retryPolicy,
+  onRetryPolicyChange,
+  schedule,
+  onScheduleChange,
+  loadThrottle,
+  onLoadThrottleChange
 }) => {
+  const updateDay = (dayIndex: number, update: Partial<QueueDayWindowData>) => {
+    onScheduleChange({ ...schedule, days: schedule.days.map((day, i) => i === dayIndex ? { ...day, ...update } : day) });
+  };
+
+  const toggleErrorClass = (errorClass: RetryableErrorClass, enabled: boolean) => {
+    const retryableErrors = retryPolicy.retryableErrors.filter(c => c !== errorClass);
+    onRetryPolicyChange({ ...retryPolicy, retryableErrors: enabled ? [...retryableErrors, errorClass] : retryableErrors });
+  };
+
   return (
-    <div className="space-y-4">
+    <div className="space-y-4 max-h-[70vh] overflow-y-auto pr-2">
       <div className="space-y-2">
         <Label htmlFor="max-parallel">Maximum Parallel Jobs</Label>
         <Select 
@@ -308,6 +434,208 @@ const QueueSettings: React.FC<{ maxJobs: number, onMaxJobsChange: (value: number
           Higher values will use more system resources. For most systems, 2-4 is recommended.
         </p>
       </div>
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="recover-interrupted">Recover Interrupted Jobs</Label>
+          <Switch 
+            id="recover-interrupted" 
+            checked={recoverInterruptedJobs} 
+            onCheckedChange={onRecoverInterruptedJobsChange} 
+          />
+        </div>
+        <p className="text-sm text-muted-foreground">
+          After a crash or restart, re-queue jobs that were still encoding and delete their partial temporary files instead of marking them as failed.
+        </p>
+      </div>
+      <Separator />
+      <div className="space-y-2">
+        <Label htmlFor="retry-attempts">Retry Failed Jobs</Label>
+        <Select 
+          value={retryPolicy.maxAttempts.toString()} 
+          onValueChange={(value) => onRetryPolicyChange({ ...retryPolicy, maxAttempts: parseInt(value) })}
+        >
+          <SelectTrigger id="retry-attempts">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="1">Never retry</SelectItem>
+            <SelectItem value="2">Up to 2 attempts</SelectItem>
+            <SelectItem value="3">Up to 3 attempts</SelectItem>
+            <SelectItem value="5">Up to 5 attempts</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="retry-backoff" className="text-xs">First retry after (seconds)</Label>
+            <Input 
+              id="retry-backoff" 
+              type="number" 
+              min={0} 
+              value={retryPolicy.backoffSeconds} 
+              disabled={retryPolicy.maxAttempts <= 1}
+              onChange={(e) => onRetryPolicyChange({ ...retryPolicy, backoffSeconds: Math.max(0, parseInt(e.target.value) || 0) })} 
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="retry-multiplier" className="text-xs">Backoff multiplier</Label>
+            <Input 
+              id="retry-multiplier" 
+              type="number" 
+              min={1} 
+              step={0.5} 
+              value={retryPolicy.backoffMultiplier} 
+              disabled={retryPolicy.maxAttempts <= 1}
+              onChange={(e) => onRetryPolicyChange({ ...retryPolicy, backoffMultiplier: Math.max(1, parseFloat(e.target.value) || 1) })} 
+            />
+          </div>
+        </div>
+        {RETRYABLE_ERROR_CLASSES.map(errorClass => (
+          <div key={errorClass.id} className="flex items-center justify-between">
+            <div>
+              <Label htmlFor={`retry-${errorClass.id}`} className="font-normal">{errorClass.label}</Label>
+              <p className="text-xs text-muted-foreground">{errorClass.description}</p>
+            </div>
+            <Switch 
+              id={`retry-${errorClass.id}`} 
+              checked={retryPolicy.retryableErrors.includes(errorClass.id)} 
+              disabled={retryPolicy.maxAttempts <= 1}
+              onCheckedChange={(checked) => toggleErrorClass(errorClass.id, checked)} 
+            />
+          </div>
+        ))}
+        <p className="text-sm text-muted-foreground">
+          Jobs that fail with one of these errors are re-queued after a wait that grows with each attempt. Other failures, like unreadable input, fail right away.
+        </p>
+      </div>
+      <Separator />
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="schedule-enabled">Encoding Windows</Label>
+          <Switch 
+            id="schedule-enabled" 
+            checked={schedule.enabled} 
+            onCheckedChange={(checked) => onScheduleChange({ ...schedule, enabled: checked })} 
+          />
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Only run the full number of parallel jobs during these hours. A window that ends before its start runs past midnight; one that starts and ends at the same hour runs all day.
+        </p>
+        {schedule.enabled && (
+          <>
+            {schedule.days.map((day, dayIndex) => (
+              <div key={WEEKDAY_NAMES[dayIndex]} className="flex items-center gap-2">
+                <Switch 
+                  checked={day.enabled} 
+                  onCheckedChange={(checked) => updateDay(dayIndex, { enabled: checked })} 
+                  aria-label={`Encode on ${WEEKDAY_NAMES[dayIndex]}`}
+                />
+                <span className="w-10 text-sm">{WEEKDAY_NAMES[dayIndex]}</span>
+                <Select value={day.startHour.toString()} onValueChange={(value) => updateDay(dayIndex, { startHour: parseInt(value) })} disabled={!day.enabled}>
+                  <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: 24 }, (_, hour) => (
+                      <SelectItem key={hour} value={hour.toString()}>{formatHour(hour)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="text-sm text-muted-foreground">to</span>
+                <Select value={day.endHour.toString()} onValueChange={(value) => updateDay(dayIndex, { endHour: parseInt(value) })} disabled={!day.enabled}>
+                  <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: 24 }, (_, i) => i + 1).map(hour => (
+                      <SelectItem key={hour} value={hour.toString()}>{formatHour(hour)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            <div className="space-y-1 pt-2">
+              <Label htmlFor="outside-window-jobs" className="text-xs">Parallel jobs outside the windows</Label>
+              <Select 
+                value={schedule.outsideWindowMaxJobs.toString()} 
+                onValueChange={(value) => onScheduleChange({ ...schedule, outsideWindowMaxJobs: parseInt(value) })}
+              >
+                <SelectTrigger id="outside-window-jobs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="0">None - hold new jobs</SelectItem>
+                  {Array.from({ length: Math.max(0, maxJobs - 1) }, (_, i) => i + 1).map(count => (
+                    <SelectItem key={count} value={count.toString()}>{count} job{count === 1 ? '' : 's'}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="pause-outside-window" className="font-normal">Pause running jobs when a window closes</Label>
+              <Switch 
+                id="pause-outside-window" 
+                checked={schedule.pauseOutsideWindow} 
+                onCheckedChange={(checked) => onScheduleChange({ ...schedule, pauseOutsideWindow: checked })} 
+              />
+            </div>
+          </>
+        )}
+      </div>
+      <Separator />
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="load-throttle-enabled">Throttle Under System Load</Label>
+          <Switch 
+            id="load-throttle-enabled" 
+            checked={loadThrottle.enabled} 
+            onCheckedChange={(checked) => onLoadThrottleChange({ ...loadThrottle, enabled: checked })} 
+          />
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Hold new jobs while CPU, GPU or memory use is at or above these limits. Set a limit to 0 to ignore it.
+        </p>
+        {loadThrottle.enabled && (
+          <>
+            <div className="grid grid-cols-3 gap-4">
+              {LOAD_THRESHOLDS.map(threshold => (
+                <div key={threshold.key} className="space-y-1">
+                  <Label htmlFor={`load-${threshold.key}`} className="text-xs">{threshold.label} (%)</Label>
+                  <Input 
+                    id={`load-${threshold.key}`} 
+                    type="number" 
+                    min={0} 
+                    max={100} 
+                    value={loadThrottle[threshold.key]} 
+                    onChange={(e) => onLoadThrottleChange({ ...loadThrottle, [threshold.key]: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) })} 
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="load-sustained" className="text-xs">Sustained for (seconds)</Label>
+                <Input 
+                  id="load-sustained" 
+                  type="number" 
+                  min={0} 
+                  value={loadThrottle.sustainedSeconds} 
+                  onChange={(e) => onLoadThrottleChange({ ...loadThrottle, sustainedSeconds: Math.max(0, parseInt(e.target.value) || 0) })} 
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="load-action" className="text-xs">Then</Label>
+                <Select 
+                  value={loadThrottle.action} 
+                  onValueChange={(value) => onLoadThrottleChange({ ...loadThrottle, action: value as LoadThrottleData['action'] })}
+                >
+                  <SelectTrigger id="load-action"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="renice">Lower running jobs' priority</SelectItem>
+                    <SelectItem value="pause">Pause running jobs one by one</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Throttled jobs go back to normal once the load has stayed under the limits for as long.
+            </p>
+          </>
+        )}
+      </div>
     </div>
   );
 };
@@ -339,18 +667,30 @@ const jobTableColumns: ColumnDef<EncodingJob>[] = [
     {
         accessorKey: 'status',
         header: 'Status',
-        cell: ({ row }) => <StatusBadge status={row.original.status} />,
+        cell: ({ row }) => (
+            <div className="flex items-center gap-1.5">
+                <StatusBadge status={row.original.status} />
+                {row.original.status === 'queued' && row.original.nextRetryAt ? (
+                    <span className="text-xs text-amber-500 whitespace-nowrap">retry {new Date(row.original.nextRetryAt).toLocaleTimeString()}</span>
+                ) : (row.original.attempts ?? 0) > 1 && (
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">try {row.original.attempts}</span>
+                )}
+            </div>
+        ),
         size: 100,
     },
     {
         accessorKey: 'progress',
         header: 'Progress',
         cell: ({ row }) => {
-            if (row.original.status === 'processing' || row.original.status === 'completed') {
+            if (row.original.status === 'processing' || row.original.status === 'paused' || row.original.status === 'completed') {
                 return (
                     <div className="flex items-center w-full max-w-[120px]">
                         <Progress value={row.original.progress} className="w-16 h-1.5 mr-1.5 flex-shrink-0" />
                         <span className="text-xs whitespace-nowrap">{row.original.progress.toFixed(0)}%</span>
+                        {row.original.status === 'processing' && row.original.eta !== undefined && (
+                            <span className="text-xs text-muted-foreground whitespace-nowrap ml-1.5">{formatEta(row.original.eta)}</span>
+                        )}
                     </div>
                 );
             }
@@ -368,6 +708,13 @@ const jobTableColumns: ColumnDef<EncodingJob>[] = [
         cell: info => <span className="text-xs">{info.getValue<string>() || 'Custom'}</span>,
         size: 100,
     },
+    {
+        accessorFn: (row) => row.device?.label,
+        id: 'device',
+        header: 'Device',
+        cell: info => <span className="text-xs">{info.getValue<string>() || '-'}</span>,
+        size: 140,
+    },
     {
         accessorKey: 'addedAt',
         header: 'Queued',
@@ -381,7 +728,7 @@ const jobTableColumns: ColumnDef<EncodingJob>[] = [
             // eslint-disable-next-line react-hooks/rules-of-hooks
             const [isLogDialogOpen, setIsLogDialogOpen] = useState(false);
             const job = row.original;
-            if (job.status === 'completed' || job.status === 'failed' || job.status === 'processing' || job.status === 'verifying') {
+            if (job.status === 'completed' || job.status === 'failed' || job.status === 'processing' || job.status === 'paused' || job.status === 'verifying' || job.status === 'cancelled') {
                 return (
                     <div className="text-right">
                         <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setIsLogDialogOpen(true)}>
@@ -426,17 +773,22 @@ const Queue: React.FC = () => {
     jobs: allJobs,
     isProcessing,
     queueConfig,
+    queueWindow,
+    loadHold,
     startQueue,
     pauseQueue,
     updateQueueConfig,
     getJobCounts,
     clearJobHistory,
-    removeFromQueue
+    removeFromQueue,
+    cancelJob,
+    pauseJob,
+    resumeJob
   } = useQueue(queueEventCallbacks);
   
   // Stats from useQueue hook or calculated from allJobs
   const counts = getJobCounts();
-  const processingCount = counts.processing;
+  const processingCount = counts.processing + counts.paused; // Paused jobs still hold a processing slot
   const queuedCount = counts.queued;
   const completedCount = counts.completed;
   const failedCount = counts.failed; // This now includes historical failed/cancelled until cleared
@@ -447,11 +799,13 @@ const Queue: React.FC = () => {
     : allJobs.filter(job => 
         statusFilter === 'failed' 
           ? job.status === 'failed' || job.status === 'cancelled'
-          : job.status === statusFilter
+          : statusFilter === 'processing'
+            ? job.status === 'processing' || job.status === 'paused'
+            : job.status === statusFilter
       );
 
   // Sort the filtered jobs: active first, then historical by time
-  const statusOrder: JobStatus[] = ['processing', 'verifying', 'queued', 'completed', 'failed', 'cancelled'];
+  const statusOrder: JobStatus[] = ['processing', 'paused', 'verifying', 'queued', 'completed', 'failed', 'cancelled'];
   const sortedAndFilteredJobs = [...filteredJobs].sort((a, b) => {
     const statusIndexA = statusOrder.indexOf(a.status);
     const statusIndexB = statusOrder.indexOf(b.status);
@@ -460,7 +814,7 @@ const Queue: React.FC = () => {
         return statusIndexA - statusIndexB;
     }
 
-    if (a.status === 'queued' || a.status === 'processing' || a.status === 'verifying') {
+    if (a.status === 'queued' || a.status === 'processing' || a.status === 'paused' || a.status === 'verifying') {
         return new Date(a.addedAt).getTime() - new Date(b.addedAt).getTime(); // Oldest active first
     } else { 
         const timeA = a.processingEndTime ? new Date(a.processingEndTime).getTime() : new Date(a.addedAt).getTime();
@@ -493,6 +847,22 @@ const Queue: React.FC = () => {
     updateQueueConfig({ maxParallelJobs: value });
   };
   
+  const handleRecoverInterruptedJobsChange = (value: boolean) => {
+    updateQueueConfig({ recoverInterruptedJobs: value });
+  };
+
+  const handleRetryPolicyChange = (value: RetryPolicyData) => {
+    updateQueueConfig({ retryPolicy: value });
+  };
+
+  const handleScheduleChange = (value: QueueScheduleData) => {
+    updateQueueConfig({ schedule: value });
+  };
+
+  const handleLoadThrottleChange = (value: LoadThrottleData) => {
+    updateQueueConfig({ loadThrottle: value });
+  };
+  
   // Start and Pause queue are directly from useQueue hook
   // const startQueue = () => { ... };
   // const pauseQueue = () => { ... };
@@ -539,6 +909,13 @@ const Queue: React.FC = () => {
               </span>
             )}
           </p>
+          <QueueWindowStatus windowState={queueWindow} />
+          {loadHold && queuedCount > 0 && (
+            <div className="mt-2 flex items-center gap-2 text-sm text-amber-500">
+              <AlertCircle className="h-4 w-4" />
+              New jobs held: {loadHold}
+            </div>
+          )}
         </div>
         <div className="flex gap-2">
           <Dialog open={settingsOpen} onOpenChange={setSettingsOpen}>
@@ -556,6 +933,14 @@ const Queue: React.FC = () => {
                 <QueueSettings 
                   maxJobs={queueConfig.maxParallelJobs} 
                   onMaxJobsChange={handleMaxJobsChange} 
+                  recoverInterruptedJobs={queueConfig.recoverInterruptedJobs} 
+                  onRecoverInterruptedJobsChange={handleRecoverInterruptedJobsChange} 
+                  retryPolicy={queueConfig.retryPolicy} 
+                  onRetryPolicyChange={handleRetryPolicyChange} 
+                  schedule={queueConfig.schedule} 
+                  onScheduleChange={handleScheduleChange} 
+                  loadThrottle={queueConfig.loadThrottle} 
+                  onLoadThrottleChange={handleLoadThrottleChange} 
                 />
               )}
               <DialogFooter>
@@ -657,7 +1042,7 @@ const Queue: React.FC = () => {
               <h2 className="text-xl font-semibold mb-3">Active & Recent</h2>
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                 {latestJobsForCards.map(job => (
-                  <JobDetails key={job.id} job={job} onRemove={removeFromQueue} />
+                  <JobDetails key={job.id} job={job} loadHold={loadHold} onRemove={removeFromQueue} onCancel={cancelJob} onPause={pauseJob} onResume={resumeJob} />
                 ))}
               </div>
             </div>
@@ -13,6 +13,7 @@ import { Button } from "../../../src/components/ui/button";
 import { GpuInfo } from '../../types';
 import LogViewer from '../components/settings/LogViewer';
 import ScheduledTasks from '../components/settings/ScheduledTasks';
+import EncodingDevices from '../components/settings/EncodingDevices';
 
 const Settings: React.FC = () => {
   const [availableGpus, setAvailableGpus] = useState<GpuInfo[]>([]);
@@ -268,6 +269,11 @@ const Settings: React.FC = () => {
             </div>
           </div>
 
+          {/* Encoding Devices Section */}
+          <div className="rounded-lg border bg-card p-6 text-card-foreground">
+            <EncodingDevices />
+          </div>
+
           {/* Scheduled Tasks Section */}
           <div className="rounded-lg border bg-card p-6 text-card-foreground">
             <ScheduledTasks />
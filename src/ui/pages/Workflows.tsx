@@ -8,7 +8,6 @@ import {
   ResizablePanel,
   ResizablePanelGroup,
 } from "@/components/ui/resizable";
-import { Toaster } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Plus, Edit, Trash2, ArrowLeft, Play, MoreHorizontal, Clock } from 'lucide-react';
 import {
@@ -784,7 +783,6 @@ const Workflows: React.FC = () => {
           workflowId={activeWorkflowId} 
           onBack={handleBack}
         />
-        {/* <Toaster position="bottom-right" /> */}
       </ReactFlowProvider>
     );
   }
@@ -1030,8 +1028,6 @@ const Workflows: React.FC = () => {
           </DialogContent>
         </Dialog>
       )}
-      
-      <Toaster position="bottom-right" />
     </div>
   );
 };
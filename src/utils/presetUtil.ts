@@ -1,12 +1,28 @@
-import { IElectronAPI, EncodingPreset, StreamInfo } from '../types.js';
+import { IElectronAPI, EncodingPreset } from '../types.js';
+
+// Track selection is shared with the main process
+export { getAudioTrackActions, getSubtitleTrackActions, getSubtitleType, orderSubtitlesByPreset } from '../electron/trackSelection.js';
 
 // Constants from ManualEncode/Presets
-const VIDEO_CODECS = ['hevc_qsv', 'h264_qsv', 'av1_qsv', 'hevc_nvenc', 'h264_nvenc', 'av1_nvenc', 'libx265', 'libx264', 'copy'] as const;
+const VIDEO_CODECS = ['hevc_qsv', 'h264_qsv', 'av1_qsv', 'hevc_nvenc', 'h264_nvenc', 'av1_nvenc', 'libx265', 'libx264', 'libsvtav1', 'libaom-av1', 'hevc_vaapi', 'h264_vaapi', 'av1_vaapi', 'hevc_amf', 'h264_amf', 'av1_amf', 'copy'] as const;
 type VideoCodec = typeof VIDEO_CODECS[number];
 
 // For utility functions
-export type HardwarePlatformUtil = 'INTEL_GPU' | 'NVIDIA_GPU' | 'CPU_SOFTWARE' | 'NONE';
+export type HardwarePlatformUtil = 'INTEL_GPU' | 'NVIDIA_GPU' | 'AMD_GPU' | 'VAAPI_GPU' | 'CPU_SOFTWARE' | 'NONE';
 export type TargetVideoFormatUtil = 'AV1' | 'H265' | 'H264' | 'COPY';
+export type SoftwareAv1Encoder = 'libsvtav1' | 'libaom-av1';
+
+// Speed and quality scales of the software AV1 encoders
+export const AV1_ENCODER_SCALES: Record<SoftwareAv1Encoder, { presetMax: number; defaultPreset: number; defaultCrf: number }> = {
+    'libsvtav1': { presetMax: 13, defaultPreset: 8, defaultCrf: 32 },
+    'libaom-av1': { presetMax: 8, defaultPreset: 6, defaultCrf: 32 },
+};
+export const AV1_CRF_MAX = 63;
+export const FILM_GRAIN_MAX = 50;
+
+export function isSoftwareAv1Codec(codec: string | undefined | null): codec is SoftwareAv1Encoder {
+    return codec === 'libsvtav1' || codec === 'libaom-av1';
+}
 
 const VIDEO_PRESETS = ['veryslow', 'slower', 'slow', 'medium', 'fast', 'faster', 'veryfast', 'ultrafast'] as const;
 type VideoPreset = typeof VIDEO_PRESETS[number];
@@ -20,22 +36,20 @@ type AudioCodecConvert = typeof AUDIO_CODECS_CONVERT[number];
 const SUBTITLE_CODECS_CONVERT = ['srt', 'mov_text'] as const;
 type SubtitleCodecConvert = typeof SUBTITLE_CODECS_CONVERT[number];
 
-const HW_ACCEL_OPTIONS = ['auto', 'qsv', 'nvenc', 'cuda', 'none'] as const;
+const HW_ACCEL_OPTIONS = ['auto', 'qsv', 'nvenc', 'cuda', 'vaapi', 'none'] as const;
 type HwAccel = typeof HW_ACCEL_OPTIONS[number];
 
 const AUDIO_LAYOUT_OPTIONS = ['stereo', 'mono', 'surround5_1'] as const;
 type AudioLayout = typeof AUDIO_LAYOUT_OPTIONS[number];
 
-const TRACK_ACTION_OPTIONS = ['keep', 'convert', 'discard'] as const;
-type TrackAction = typeof TRACK_ACTION_OPTIONS[number];
-
 /**
  * Derives the FFMPEG video codec string from hardware and target format selections.
  * @param hardware The selected hardware platform.
  * @param format The selected target video format.
+ * @param softwareAv1Encoder Which encoder to use for AV1 on the CPU.
  * @returns The corresponding FFMPEG VideoCodec string.
  */
-export function deriveFfmpegCodec(hardware: HardwarePlatformUtil, format: TargetVideoFormatUtil): VideoCodec {
+export function deriveFfmpegCodec(hardware: HardwarePlatformUtil, format: TargetVideoFormatUtil, softwareAv1Encoder: SoftwareAv1Encoder = 'libsvtav1'): VideoCodec {
     if (format === 'COPY') return 'copy';
 
     switch (hardware) {
@@ -49,13 +63,20 @@ export function deriveFfmpegCodec(hardware: HardwarePlatformUtil, format: Target
             if (format === 'H265') return 'hevc_nvenc';
             if (format === 'H264') return 'h264_nvenc';
             break;
+        case 'AMD_GPU':
+            if (format === 'AV1') return 'av1_amf';
+            if (format === 'H265') return 'hevc_amf';
+            if (format === 'H264') return 'h264_amf';
+            break;
+        case 'VAAPI_GPU':
+            if (format === 'AV1') return 'av1_vaapi';
+            if (format === 'H265') return 'hevc_vaapi';
+            if (format === 'H264') return 'h264_vaapi';
+            break;
         case 'CPU_SOFTWARE':
             if (format === 'H265') return 'libx265';
             if (format === 'H264') return 'libx264';
-            // AV1 for CPU (e.g., libaom-av1, svt-av1) is not in VIDEO_CODECS,
-            // so AV1 with CPU_SOFTWARE will fall through to default or needs specific handling.
-            // For now, returning a common fallback if specific CPU AV1 isn't listed.
-            if (format === 'AV1') return 'libx265'; // Fallback: Or throw error / handle in UI
+            if (format === 'AV1') return softwareAv1Encoder;
             break;
         case 'NONE':
             // If hardware is 'NONE', the only sensible outcome is 'copy'.
@@ -84,8 +105,16 @@ export function deriveHardwareAndFormat(codec: VideoCodec | undefined | null): {
         case 'av1_nvenc': return { hardwarePlatform: 'NVIDIA_GPU', targetVideoFormat: 'AV1' };
         case 'hevc_nvenc': return { hardwarePlatform: 'NVIDIA_GPU', targetVideoFormat: 'H265' };
         case 'h264_nvenc': return { hardwarePlatform: 'NVIDIA_GPU', targetVideoFormat: 'H264' };
+        case 'av1_amf': return { hardwarePlatform: 'AMD_GPU', targetVideoFormat: 'AV1' };
+        case 'hevc_amf': return { hardwarePlatform: 'AMD_GPU', targetVideoFormat: 'H265' };
+        case 'h264_amf': return { hardwarePlatform: 'AMD_GPU', targetVideoFormat: 'H264' };
+        case 'av1_vaapi': return { hardwarePlatform: 'VAAPI_GPU', targetVideoFormat: 'AV1' };
+        case 'hevc_vaapi': return { hardwarePlatform: 'VAAPI_GPU', targetVideoFormat: 'H265' };
+        case 'h264_vaapi': return { hardwarePlatform: 'VAAPI_GPU', targetVideoFormat: 'H264' };
         case 'libx265': return { hardwarePlatform: 'CPU_SOFTWARE', targetVideoFormat: 'H265' };
         case 'libx264': return { hardwarePlatform: 'CPU_SOFTWARE', targetVideoFormat: 'H264' };
+        case 'libsvtav1': return { hardwarePlatform: 'CPU_SOFTWARE', targetVideoFormat: 'AV1' };
+        case 'libaom-av1': return { hardwarePlatform: 'CPU_SOFTWARE', targetVideoFormat: 'AV1' };
         case 'copy': return { hardwarePlatform: 'NONE', targetVideoFormat: 'COPY' };
         default:
             // Fallback for unknown or older codecs
@@ -110,6 +139,11 @@ export const defaultPresetValues: Omit<EncodingPreset, 'id'> = {
     subtitleTypeOrder: ['forced', 'normal', 'sdh'], // Default type order
     subtitleCodecConvert: 'srt',
     removeAllSubtitles: false, // Default to keeping subtitles
+    rateControlMode: 'quality', // CRF/global_quality from videoQuality
+    hdrPolicy: 'preserve', // Keep HDR10/HLG sources HDR
+    dynamicHdrPolicy: 'skip', // Re-encoding breaks Dolby Vision, so leave those files alone unless asked
+    verificationMetric: 'none', // Quality verification is opt-in
+    verificationSampled: true, // When enabled, sample segments by default for speed
 };
 
 /**
@@ -167,220 +201,23 @@ export const getDefaultEncodingOptions = (preset: EncodingPreset | undefined) =>
 };
 
 /**
- * Apply track selection based on preset
+ * Checks the software AV1 settings against the selected encoder's scales.
+ * Returns an error message, or null when the preset is valid.
  */
-export const getAudioTrackActions = (
-    streams: StreamInfo[],
-    preset: EncodingPreset | undefined
-): { [index: number]: TrackAction } => {
-    const audioStreams = streams.filter(s => s.codec_type === 'audio');
-    const audioDefaults: { [index: number]: TrackAction } = {};
-
-    console.log(`[Preset Track Select] Processing ${audioStreams.length} audio streams`);
-    audioStreams.forEach(stream => {
-        const lang = stream.tags?.language?.toLowerCase() || 'unknown';
-        console.log(`  - Stream ${stream.index}: ${lang} (${stream.codec_name})`);
-    });
-
-    if (!preset || !Array.isArray(preset.audioLanguageOrder) || preset.audioLanguageOrder.length === 0) {
-        // Default selection for custom mode (or invalid preset): convert first audio track, discard others
-        let firstAudioFound = false;
-        audioStreams.forEach((stream: StreamInfo) => {
-            audioDefaults[stream.index] = !firstAudioFound ? 'convert' : 'discard';
-            firstAudioFound = true;
-        });
-        console.log(`[Preset Track Select] No preset audio order, using default (first track convert)`);
-        return audioDefaults;
-    }
-
-    console.log(`[Preset Track Select] Using preset audio order: [${preset.audioLanguageOrder.join(', ')}]`);
-
-    // Apply preset-based audio track selection
-    const presetLangsLower = preset.audioLanguageOrder.map((lang: string) => lang.toLowerCase());
-    const selectedIndices: number[] = [];
-    
-    // Track which preset languages have been matched
-    const matchedPresetLangs = new Set<string>();
-
-    // Process each language in the preset's order
-    for (const langCode of presetLangsLower) {
-        if (langCode === 'original') {
-            // Find the audio stream with the lowest index (the true "first" track in the file)
-            const firstAudioStream = audioStreams.reduce((lowest, current) => 
-                (lowest.index < current.index) ? lowest : current
-            );
-            
-            if (firstAudioStream) {
-                const originalLang = firstAudioStream.tags?.language?.toLowerCase() || 'unknown';
-                console.log(`[Preset Track Select] Processing "original" track - Index ${firstAudioStream.index} (${originalLang})`);
-                
-                // Always include the original track (first audio stream by index), even if already selected
-                if (!selectedIndices.includes(firstAudioStream.index)) {
-                    console.log(`[Preset Track Select] Adding "original" track: Index ${firstAudioStream.index} (${originalLang})`);
-                    selectedIndices.push(firstAudioStream.index);
-                } else {
-                    console.log(`[Preset Track Select] "original" track (Index ${firstAudioStream.index}, ${originalLang}) already selected by previous language match`);
-                }
-                matchedPresetLangs.add(langCode);
-            } else {
-                console.log(`[Preset Track Select] No audio streams found for "original"`);
-            }
-            continue;
-        }
-
-        // Find streams for the current language code that haven't already been selected
-        const foundStreams = audioStreams.filter(stream => 
-            !selectedIndices.includes(stream.index) && 
-            stream.tags?.language?.toLowerCase() === langCode
-        );
+export const validateSoftwareAv1Settings = (preset: Partial<EncodingPreset>): string | null => {
+    if (!isSoftwareAv1Codec(preset.videoCodec)) return null;
+    const { presetMax } = AV1_ENCODER_SCALES[preset.videoCodec];
 
-        if (foundStreams.length > 0) {
-            console.log(`[Preset Track Select] Found ${foundStreams.length} match(es) for "${langCode}"`);
-            foundStreams.forEach((streamToSelect: StreamInfo) => {
-                if (!selectedIndices.includes(streamToSelect.index)) {
-                    selectedIndices.push(streamToSelect.index);
-                    console.log(`  - Adding ${langCode} track: Index ${streamToSelect.index}`);
-                }
-            });
-            matchedPresetLangs.add(langCode);
-        } else {
-            console.log(`[Preset Track Select] No available tracks found for "${langCode}" (might be selected already or doesn't exist)`);
-        }
+    if (preset.av1Preset !== undefined && (!Number.isInteger(preset.av1Preset) || preset.av1Preset < 0 || preset.av1Preset > presetMax)) {
+        return `AV1 speed preset must be a whole number between 0 and ${presetMax} for ${preset.videoCodec}.`;
     }
-
-    console.log(`[Preset Track Select] Selected track indices: [${selectedIndices.join(', ')}]`);
-
-    // Set track actions based on the found indices
-    audioStreams.forEach((stream: StreamInfo) => {
-        // Mark tracks in selectedIndices for conversion, others for discard
-        audioDefaults[stream.index] = selectedIndices.includes(stream.index) ? 'convert' : 'discard';
-        console.log(`[Preset Track Select] Stream ${stream.index}: ${audioDefaults[stream.index]}`);
-    });
-
-    return audioDefaults;
-};
-
-/**
- * Apply subtitle track selection based on preset
- */
-export const getSubtitleTrackActions = (
-    streams: StreamInfo[],
-    preset: EncodingPreset | undefined
-): { [index: number]: TrackAction } => {
-    const subtitleDefaults: { [index: number]: TrackAction } = {};
-    const subtitleStreams = streams.filter(s => s.codec_type === 'subtitle');
-
-    // If preset specifies to remove all subtitles, discard all subtitle streams
-    if (preset?.removeAllSubtitles) {
-        subtitleStreams.forEach((stream: StreamInfo) => {
-            subtitleDefaults[stream.index] = 'discard';
-            console.log(`[Preset Track Select] Setting subtitle ${stream.index} to 'discard' - removeAllSubtitles enabled`);
-        });
-        return subtitleDefaults;
+    if (preset.videoQuality !== undefined && (!Number.isInteger(preset.videoQuality) || preset.videoQuality < 0 || preset.videoQuality > AV1_CRF_MAX)) {
+        return `AV1 CRF must be a whole number between 0 and ${AV1_CRF_MAX}.`;
     }
-
-    if (!preset || !Array.isArray(preset.subtitleLanguageOrder) || preset.subtitleLanguageOrder.length === 0) {
-        // Default selection for custom mode (or invalid preset): keep English subtitles
-        subtitleStreams.forEach((stream: StreamInfo) => {
-            subtitleDefaults[stream.index] = (stream.tags?.language?.toLowerCase() === 'eng') ? 'keep' : 'discard';
-        });
-        return subtitleDefaults;
+    if (preset.filmGrain !== undefined && (!Number.isInteger(preset.filmGrain) || preset.filmGrain < 0 || preset.filmGrain > FILM_GRAIN_MAX)) {
+        return `Film grain must be a whole number between 0 and ${FILM_GRAIN_MAX}.`;
     }
-
-    // Apply preset-based subtitle track selection
-    const presetSubLangsLower = preset.subtitleLanguageOrder.map((lang: string) => lang.toLowerCase());
-    
-    subtitleStreams.forEach((stream: StreamInfo) => {
-        const langLower = stream.tags?.language?.toLowerCase() || 'unknown';
-        
-        // Keep subtitles whose language is in the preset's order
-        if (presetSubLangsLower.includes(langLower)) {
-            subtitleDefaults[stream.index] = 'keep';
-            console.log(`[Preset Track Select] Setting subtitle ${stream.index} (${langLower}) to 'keep' based on preset.`);
-        } else {
-            subtitleDefaults[stream.index] = 'discard';
-            console.log(`[Preset Track Select] Setting subtitle ${stream.index} (${langLower}) to 'discard' as it's not in preset order.`);
-        }
-    });
-
-    return subtitleDefaults;
-};
-
-/**
- * Get subtitle type based on stream info
- */
-export const getSubtitleType = (stream: StreamInfo): string => {
-    // Default to 'normal'
-    let type = 'normal';
-    
-    // Check for 'forced' in disposition
-    if (stream.disposition?.forced) {
-        return 'forced';
-    }
-    
-    // Check for SDH/CC indicators in title
-    const title = stream.tags?.title?.toLowerCase() || '';
-    
-    if (title.includes('sdh') || title.includes('hearing')) {
-        return 'sdh';
-    }
-    
-    if (title.includes('cc') || title.includes('caption')) {
-        return 'cc';
-    }
-    
-    // Check for signs/songs
-    if (title.includes('sign') || title.includes('text')) {
-        return 'signs';
-    }
-    
-    if (title.includes('song') || title.includes('lyric') || title.includes('karaoke')) {
-        return 'song';
-    }
-    
-    return type;
-};
-
-/**
- * Order subtitle streams according to preset priorities
- * @param subtitleStreams The subtitle streams with metadata
- * @param preset The active preset with language and type ordering
- * @returns Ordered list of subtitle streams
- */
-export const orderSubtitlesByPreset = <T extends { language: string; type: string }>(
-    subtitleStreams: T[],
-    preset: EncodingPreset | undefined
-): T[] => {
-    if (!preset || !preset.subtitleLanguageOrder || !preset.subtitleTypeOrder) {
-        return subtitleStreams;
-    }
-
-    // Create a copy of the streams array for sorting
-    const streamsToSort = [...subtitleStreams];
-    
-    // Order streams by preset language order first, then by type order
-    return streamsToSort.sort((a, b) => {
-        const langA = a.language.toLowerCase();
-        const langB = b.language.toLowerCase();
-        
-        // Get index in the language order (or a high number if not found)
-        const langIndexA = preset.subtitleLanguageOrder?.findIndex((l: string) => l.toLowerCase() === langA) ?? 999;
-        const langIndexB = preset.subtitleLanguageOrder?.findIndex((l: string) => l.toLowerCase() === langB) ?? 999;
-        
-        // Compare language priority first
-        if (langIndexA !== langIndexB) {
-            return langIndexA - langIndexB;
-        }
-        
-        // If same language, sort by type priority
-        const typeA = a.type;
-        const typeB = b.type;
-        
-        const typeIndexA = preset.subtitleTypeOrder?.findIndex((t: string) => t === typeA) ?? 999;
-        const typeIndexB = preset.subtitleTypeOrder?.findIndex((t: string) => t === typeB) ?? 999;
-        
-        return typeIndexA - typeIndexB;
-    });
+    return null;
 };
 
 /**
@@ -399,7 +236,11 @@ export const getPresetSummary = (preset: EncodingPreset): string => {
         let hardwareDesc = '';
         if (hardwarePlatform === 'INTEL_GPU') hardwareDesc = 'Intel GPU';
         else if (hardwarePlatform === 'NVIDIA_GPU') hardwareDesc = 'Nvidia GPU';
+        else if (hardwarePlatform === 'AMD_GPU') hardwareDesc = 'AMD GPU';
+        else if (hardwarePlatform === 'VAAPI_GPU') hardwareDesc = 'VAAPI';
         else if (hardwarePlatform === 'CPU_SOFTWARE') hardwareDesc = 'CPU';
+        if (preset.videoCodec === 'libsvtav1') formatDesc = 'AV1 (SVT)';
+        else if (preset.videoCodec === 'libaom-av1') formatDesc = 'AV1 (libaom)';
         
         if (targetVideoFormat === 'COPY') {
             parts.push(`Vid: Keep Original`);
@@ -410,8 +251,16 @@ export const getPresetSummary = (preset: EncodingPreset): string => {
             parts.push(`Vid: ${hardwareDesc} ${formatDesc}`);
         }
 
-        if (preset.videoQuality && targetVideoFormat !== 'COPY') {
-             parts[parts.length-1] += ` (Q${preset.videoQuality})`;
+        if (targetVideoFormat !== 'COPY') {
+            if (preset.rateControlMode === 'average_bitrate' && preset.videoBitrateKbps) {
+                parts[parts.length-1] += ` (${preset.videoBitrateKbps} kbps)`;
+            } else if (preset.rateControlMode === 'capped_vbr' && preset.videoMaxBitrateKbps) {
+                parts[parts.length-1] += ` (max ${preset.videoMaxBitrateKbps} kbps)`;
+            } else if (preset.rateControlMode === 'target_size' && preset.targetSizeMB) {
+                parts[parts.length-1] += ` (${preset.targetSizeMB} MB)`;
+            } else if (preset.videoQuality) {
+                parts[parts.length-1] += ` (Q${preset.videoQuality})`;
+            }
         }
     }
     